@@ -1,5 +1,12 @@
 // import '@types/jest'
-import { Backtest, Dataset, Strategy } from '../src';
+import {
+  Backtest,
+  Dataset,
+  ExecutionOptions,
+  MarginAccountOptions,
+  Quote,
+  Strategy,
+} from '../src';
 import { sampleBacktest } from './mocks/mock-data';
 import { SMA } from './mocks/mock-sma';
 
@@ -90,6 +97,1043 @@ describe('Backtest', () => {
       expect(backtestReport.returns).toBeCloseTo(-48.57, 1);
       expect(backtestReport.finalCapital).toBeCloseTo(51.43, 1);
     });
+
+    it('Should exit at the stop-loss level and record the reason.', () => {
+      const dataset2 = new Dataset([100, 102, 96, 89, 95]);
+      const strategy2 = new Strategy('stop-strategy', {
+        entryWhen: (quote) => quote.value === 100,
+        exitWhen: () => false,
+        stopLoss: { type: 'percentage', value: 5 },
+      });
+
+      const backtestReport = new Backtest(dataset2, strategy2).run({
+        config: { capital: 100 },
+        onEntry: (quote) => quote.value,
+        onExit: (quote) => quote.value,
+      });
+
+      // Entry at 100, stop at 95, closes below it at 89
+      expect(backtestReport.trades[1].reason).toBe('stopLoss');
+      expect(backtestReport.trades[1].tradedValue).toBe(89);
+      expect(backtestReport.finalCapital).toBeCloseTo(89, 5);
+    });
+
+    it('Should exit at the trailing stop and expose the level on every quote.', () => {
+      const dataset2 = new Dataset([
+        { high: 101, low: 99, close: 100 },
+        { high: 112, low: 104, close: 110 },
+        { high: 111, low: 99, close: 108 },
+        { high: 105, low: 95, close: 96 },
+      ]);
+      const strategy2 = new Strategy<unknown, { high: number; low: number; close: number }>(
+        'trailing-strategy',
+        {
+          entryWhen: (quote) => quote.getValue('close') === 100,
+          exitWhen: () => false,
+          trailingStop: { type: 'percentage', value: 10 },
+          attributes: { high: 'high', low: 'low', close: 'close' },
+        }
+      );
+
+      const backtestReport = new Backtest(dataset2, strategy2).run({
+        config: { capital: 100 },
+        onEntry: (quote) => quote.value.close,
+        onExit: (quote) => quote.value.close,
+      });
+
+      const levels = dataset2.quotes.map(
+        (q) => q.getStrategy('trailing-strategy').position.options?.trailingStop
+      );
+      // Entry at 100, high-water mark 112 moves the trail to 100.8
+      expect(levels.slice(0, 2)).toStrictEqual([90, 100.8]);
+      expect(backtestReport.trades[1].reason).toBe('trailingStop');
+      expect(backtestReport.trades[1].tradedValue).toBeCloseTo(100.8);
+    });
+
+    it('Should size the position with the configured sizing policy.', () => {
+      const backtestReport = new Backtest(new Dataset(sampleBacktest.dataset), strategy).run({
+        config: { capital: 100, sizing: { type: 'fraction', value: 0.5 } },
+        onEntry: (quote) => quote.value * 1,
+        onExit: (quote) => quote.value * 1,
+      });
+
+      // Entry at 35 with 50 of 100, exit at 18
+      expect(backtestReport.trades[0].shares).toBeCloseTo(50 / 35);
+      expect(backtestReport.trades[0].cash).toBeCloseTo(50);
+      expect(backtestReport.trades[0].exposure).toBeCloseTo(50);
+      expect(backtestReport.finalCapital).toBeCloseTo(50 + (50 / 35) * 18);
+    });
+
+    it('Should skip entries that size to zero shares.', () => {
+      const backtestReport = new Backtest(new Dataset(sampleBacktest.dataset), strategy).run({
+        config: { capital: 100, sizing: { type: 'cash', value: 0 } },
+        onEntry: (quote) => quote.value * 1,
+        onExit: (quote) => quote.value * 1,
+      });
+
+      expect(backtestReport.trades).toHaveLength(0);
+      expect(backtestReport.numberOfTrades).toBe(0);
+    });
+
+    describe('with risk based sizing', () => {
+      const run = (options: object) =>
+        new Backtest(
+          new Dataset([10, 11, 12, 13]),
+          new Strategy('risk-sizing', {
+            entryWhen: () => true,
+            exitWhen: () => false,
+            ...options,
+          })
+        ).run({
+          config: { capital: 100, sizing: { type: 'risk', value: 0.05 } },
+          onEntry: (quote) => quote.value * 1,
+          onExit: (quote) => quote.value * 1,
+        });
+
+      it('Should throw for strategies without a stop rule.', () => {
+        expect(() => run({})).toThrow(
+          'Risk based position sizing requires a stop-loss.'
+        );
+      });
+
+      it('Should skip entries whose stop-loss is not known yet.', () => {
+        // No ATR values to place the stop-loss with
+        const backtestReport = run({
+          stopLoss: { type: 'atr', value: 2, indicator: 'atr' },
+        });
+
+        expect(backtestReport.trades).toHaveLength(0);
+      });
+
+      it('Should size from the trailing stop if the stop-loss is not known yet.', () => {
+        const backtestReport = run({
+          stopLoss: { type: 'atr', value: 2, indicator: 'atr' },
+          trailingStop: { type: 'percentage', value: 10 },
+        });
+
+        // 5% of 100 risked over the distance of 1 to the trailing stop at 9
+        expect(backtestReport.trades[0].shares).toBe(5);
+      });
+    });
+
+    it('Should fill with slippage and pay commission on both sides.', () => {
+      const backtestReport = new Backtest(new Dataset(sampleBacktest.dataset), strategy).run({
+        config: {
+          capital: 1000,
+          sizing: { type: 'shares', value: 10 },
+          costs: {
+            commission: { type: 'per-trade', value: 1 },
+            slippage: { type: 'bps', value: 100 },
+          },
+        },
+        onEntry: (quote) => quote.value * 1,
+        onExit: (quote) => quote.value * 1,
+      });
+
+      // Buy 10 at 35 + 1%, sell 10 at 18 - 1%
+      expect(backtestReport.trades[0].tradedValue).toBeCloseTo(35.35);
+      expect(backtestReport.trades[1].tradedValue).toBeCloseTo(17.82);
+      expect(backtestReport.totalCommission).toBe(2);
+      expect(backtestReport.totalSlippage).toBeCloseTo(5.3);
+      expect(backtestReport.grossReturns).toBeCloseTo(-170);
+      expect(backtestReport.returns).toBeCloseTo(-177.3);
+    });
+
+    it('Should keep commission within the available cash when going all-in.', () => {
+      const backtestReport = new Backtest(new Dataset(sampleBacktest.dataset), strategy).run({
+        config: {
+          capital: 100,
+          costs: { commission: { type: 'per-trade', value: 2 } },
+        },
+        onEntry: (quote) => quote.value * 1,
+        onExit: (quote) => quote.value * 1,
+      });
+
+      expect(backtestReport.trades[0].shares).toBeCloseTo(98 / 35);
+      expect(backtestReport.trades[0].cash).toBeCloseTo(0);
+    });
+
+    describe('with next-bar execution', () => {
+      type Bar = {
+        open: number;
+        high: number;
+        low: number;
+        close: number;
+        volume: number;
+      };
+      const bars = [
+        { open: 10, high: 10, low: 10, close: 10, volume: 100 },
+        { open: 10, high: 12, low: 10, close: 12, volume: 100 },
+        { open: 13, high: 14, low: 12, close: 14, volume: 100 },
+        { open: 14, high: 15, low: 13, close: 13, volume: 100 },
+        { open: 12, high: 12, low: 11, close: 11, volume: 100 },
+        { open: 11, high: 11, low: 10, close: 10, volume: 100 },
+      ];
+      const crossStrategy = (options = {}) =>
+        new Strategy<unknown, Bar>('next-bar-strategy', {
+          entryWhen: (quote) => quote.getValue('close') === 12,
+          exitWhen: (quote) => quote.getValue('close') === 13,
+          ...options,
+        });
+
+      it('Should fill market orders at the open of the quote after the signal.', () => {
+        const backtestReport = new Backtest(
+          new Dataset<Bar>(bars),
+          crossStrategy()
+        ).run({
+          config: {
+            capital: 130,
+            sizing: { type: 'shares', value: 10 },
+            execution: { fill: 'next-bar' },
+          },
+          onEntry: (quote) => quote.value.close,
+          onExit: (quote) => quote.value.close,
+        });
+
+        // Signal on 12, buy at the next open of 13, sell at the next open of 12
+        expect(backtestReport.trades[0].tradedValue).toBe(13);
+        expect(backtestReport.trades[0].shares).toBe(10);
+        expect(backtestReport.trades[1].tradedValue).toBe(12);
+        expect(backtestReport.finalCapital).toBe(120);
+        expect(backtestReport.orders.map((o) => o.type)).toStrictEqual([
+          'submitted',
+          'filled',
+          'submitted',
+          'filled',
+        ]);
+      });
+
+      it('Should cancel the rest of an entry the cash can no longer cover.', () => {
+        const backtestReport = new Backtest(
+          new Dataset<Bar>(bars),
+          crossStrategy()
+        ).run({
+          config: { capital: 130, execution: { fill: 'next-bar' } },
+          onEntry: (quote) => quote.value.close,
+          onExit: (quote) => quote.value.close,
+        });
+
+        // Sized at 12 but filled at 13
+        expect(backtestReport.trades[0].shares).toBe(10);
+        expect(backtestReport.orders.map((o) => o.type)).toStrictEqual([
+          'submitted',
+          'partially-filled',
+          'cancelled',
+          'submitted',
+          'filled',
+        ]);
+      });
+
+      it('Should use the order requested by the strategy.', () => {
+        const backtestReport = new Backtest(
+          new Dataset<Bar>(bars),
+          crossStrategy({
+            entryOrder: () => ({
+              type: 'limit',
+              limitPrice: 11.5,
+              expiresAfter: 1,
+            }),
+          })
+        ).run({
+          config: { capital: 130, execution: { fill: 'next-bar' } },
+          onEntry: (quote) => quote.value.close,
+          onExit: (quote) => quote.value.close,
+        });
+
+        // Quote after the signal never trades at 11.5, so the order expires
+        expect(backtestReport.trades).toHaveLength(0);
+        expect(backtestReport.orders.map((o) => o.type)).toStrictEqual([
+          'submitted',
+          'expired',
+        ]);
+      });
+
+      it('Should partially fill orders by volume participation.', () => {
+        const backtestReport = new Backtest(
+          new Dataset<Bar>(bars),
+          crossStrategy()
+        ).run({
+          config: {
+            capital: 130,
+            sizing: { type: 'shares', value: 8 },
+            execution: { fill: 'next-bar', maxParticipation: 0.05 },
+          },
+          onEntry: (quote) => quote.value.close,
+          onExit: (quote) => quote.value.close,
+        });
+
+        expect(
+          backtestReport.trades.map(({ type, shares }) => [type, shares])
+        ).toStrictEqual([
+          ['entry', 5],
+          ['entry', 3],
+          ['exit', 5],
+          ['exit', 3],
+        ]);
+        expect(backtestReport.numberOfTrades).toBe(1);
+        expect(backtestReport.orders[1].type).toBe('partially-filled');
+      });
+
+      it('Should fill stop-loss exits on the quote that hits them.', () => {
+        const backtestReport = new Backtest(
+          new Dataset<Bar>(bars),
+          crossStrategy({
+            exitWhen: () => false,
+            stopLoss: { type: 'absolute', value: 2 },
+            attributes: { high: 'high', low: 'low', close: 'close' },
+          })
+        ).run({
+          config: {
+            capital: 130,
+            sizing: { type: 'shares', value: 10 },
+            execution: { fill: 'next-bar' },
+          },
+          onEntry: (quote) => quote.value.close,
+          onExit: (quote) => quote.value.close,
+        });
+
+        // Stop 2 below the fill at 13 is hit on the quote with a low of 11
+        expect(backtestReport.trades[1].reason).toBe('stopLoss');
+        expect(backtestReport.trades[1].tradedValue).toBe(11);
+        expect(backtestReport.orders[2].order.type).toBe('stop');
+      });
+
+      it('Should fill stop-loss exits at the open of a quote that gaps through them.', () => {
+        const gapping = [
+          ...bars.slice(0, 3),
+          { open: 10.5, high: 12, low: 10, close: 11.5, volume: 100 },
+          bars[5],
+        ];
+        const backtestReport = new Backtest(
+          new Dataset<Bar>(gapping),
+          crossStrategy({
+            exitWhen: () => false,
+            stopLoss: { type: 'absolute', value: 2 },
+            attributes: { high: 'high', low: 'low', close: 'close' },
+          })
+        ).run({
+          config: {
+            capital: 130,
+            sizing: { type: 'shares', value: 10 },
+            execution: { fill: 'next-bar' },
+          },
+          onEntry: (quote) => quote.value.close,
+          onExit: (quote) => quote.value.close,
+        });
+
+        // Stop 2 below the fill at 13 is gapped through by the open of 10.5
+        expect(backtestReport.trades[1].reason).toBe('stopLoss');
+        expect(backtestReport.trades[1].tradedValue).toBe(10.5);
+        expect(
+          backtestReport.orders.map(({ type, index }) => [type, index])
+        ).toStrictEqual([
+          ['submitted', 1],
+          ['filled', 2],
+          ['submitted', 2],
+          ['filled', 3],
+        ]);
+      });
+
+      it('Should place stop-losses from the price the entry filled at.', () => {
+        const dataset = new Dataset<Bar>(bars);
+        const backtest = new Backtest(
+          dataset,
+          crossStrategy({
+            exitWhen: () => false,
+            stopLoss: { type: 'absolute', value: 1 },
+            attributes: { high: 'high', low: 'low', close: 'close' },
+          })
+        );
+        const run = () =>
+          backtest
+            .run({
+              config: {
+                capital: 130,
+                sizing: { type: 'shares', value: 10 },
+                execution: { fill: 'next-bar' },
+              },
+              onEntry: (quote) => quote.value.close,
+              onExit: (quote) => quote.value.close,
+            })
+            .trades.map(({ type, tradedValue, reason }) => [
+              type,
+              tradedValue,
+              reason,
+            ]);
+        const position = (index: number) =>
+          dataset.quotes[index].getStrategy('next-bar-strategy').position;
+
+        // Signal at 12 fills at 13, the stop at 12 is hit on the quote of the fill
+        expect(run()).toStrictEqual([
+          ['entry', 13, undefined],
+          ['exit', 12, 'stopLoss'],
+        ]);
+        // The positions of the dataset are left as the strategy signalled them
+        expect(position(2).options?.stopLoss).toBe(11);
+        expect(position(2).value).toBe('hold');
+        expect(run()).toStrictEqual([
+          ['entry', 13, undefined],
+          ['exit', 12, 'stopLoss'],
+        ]);
+      });
+
+      it('Should cancel open orders and exit at the end.', () => {
+        const backtestReport = new Backtest(
+          new Dataset<Bar>(bars),
+          crossStrategy({ exitWhen: () => false })
+        ).run({
+          config: { capital: 130, execution: { fill: 'next-bar' } },
+          onEntry: (quote) => quote.value.close,
+          onExit: (quote) => quote.value.close,
+        });
+
+        expect(backtestReport.trades[1].reason).toBe('end');
+        expect(backtestReport.trades[1].tradedValue).toBe(10);
+      });
+    });
+
+    describe('with short positions', () => {
+      const shortDataset = () => new Dataset([50, 48, 40, 42, 45, 44]);
+      const shortStrategy = new Strategy('short-strategy', {
+        entryShortWhen: (quote) => quote.getValue() === 48,
+        exitShortWhen: (quote) => quote.getValue() === 42,
+      });
+
+      it('Should profit from a short position when the price falls.', () => {
+        const backtestReport = new Backtest(shortDataset(), shortStrategy).run({
+          config: { capital: 480 },
+          onEntry: (quote) => quote.value,
+          onExit: (quote) => quote.value,
+        });
+
+        expect(backtestReport.trades[0].side).toBe('short');
+        expect(backtestReport.trades[0].shares).toBe(10);
+        expect(backtestReport.finalCapital).toBe(540);
+        expect(backtestReport.short.numberOfWinningTrades).toBe(1);
+        expect(backtestReport.long.numberOfTrades).toBe(0);
+      });
+
+      it('Should short more shares with a lower margin.', () => {
+        const backtestReport = new Backtest(shortDataset(), shortStrategy).run({
+          config: { capital: 480, short: { margin: 0.5 } },
+          onEntry: (quote) => quote.value,
+          onExit: (quote) => quote.value,
+        });
+
+        expect(backtestReport.trades[0].shares).toBe(20);
+        expect(backtestReport.finalCapital).toBe(600);
+      });
+
+      it('Should accrue the borrow fee on every quote the short is held.', () => {
+        const backtestReport = new Backtest(shortDataset(), shortStrategy).run({
+          config: { capital: 480, short: { borrowFee: 1 } },
+          onEntry: (quote) => quote.value,
+          onExit: (quote) => quote.value,
+        });
+
+        // 1% of 10 shares at 40 and at 42
+        expect(backtestReport.totalBorrowFees).toBeCloseTo(8.2);
+        expect(backtestReport.finalCapital).toBeCloseTo(531.8);
+      });
+
+      it('Should price the borrow fee with onMark only while the short is held.', () => {
+        const onExit = jest.fn((quote) => quote.value);
+        const backtestReport = new Backtest(shortDataset(), shortStrategy).run({
+          config: { capital: 480, short: { borrowFee: 1 } },
+          onEntry: (quote) => quote.value,
+          onExit,
+          onMark: () => 50,
+        });
+
+        // 1% of 10 shares at 50 on two quotes, priced by onExit for the exit alone
+        expect(backtestReport.totalBorrowFees).toBeCloseTo(10);
+        expect(onExit).toHaveBeenCalledTimes(1);
+      });
+
+      it('Should pay slippage against a short position.', () => {
+        const backtestReport = new Backtest(shortDataset(), shortStrategy).run({
+          config: {
+            capital: 480,
+            sizing: { type: 'shares', value: 5 },
+            costs: { slippage: { type: 'bps', value: 100 } },
+          },
+          onEntry: (quote) => quote.value,
+          onExit: (quote) => quote.value,
+        });
+
+        expect(backtestReport.trades[0].tradedValue).toBeCloseTo(47.52);
+        expect(backtestReport.trades[1].tradedValue).toBeCloseTo(42.42);
+      });
+
+      it('Should fill short orders on the following quote.', () => {
+        const backtestReport = new Backtest(shortDataset(), shortStrategy).run({
+          config: {
+            capital: 480,
+            sizing: { type: 'shares', value: 10 },
+            execution: { fill: 'next-bar' },
+          },
+          onEntry: (quote) => quote.value,
+          onExit: (quote) => quote.value,
+        });
+
+        // Short at 40, cover at 45
+        expect(backtestReport.orders[0].order.side).toBe('sell');
+        expect(backtestReport.trades[0].tradedValue).toBe(40);
+        expect(backtestReport.trades[1].tradedValue).toBe(45);
+        expect(backtestReport.finalCapital).toBe(430);
+        expect(backtestReport.short.numberOfLosingTrades).toBe(1);
+      });
+    });
+
+    describe('with a margin account', () => {
+      const marginStrategy = new Strategy('margin-strategy', {
+        entryWhen: (quote) => quote.getValue() === 10,
+        exitWhen: (quote) => quote.getValue() === 12,
+      });
+      const run = (
+        values: number[],
+        account: MarginAccountOptions,
+        execution?: ExecutionOptions
+      ) =>
+        new Backtest(new Dataset(values), marginStrategy).run({
+          config: { capital: 1000, account, execution },
+          onEntry: (quote) => quote.value,
+          onExit: (quote) => quote.value,
+        });
+
+      it('Should leverage the position with borrowed cash.', () => {
+        const backtestReport = run([10, 11, 12], { initialMargin: 0.5 });
+
+        expect(backtestReport.trades[0].shares).toBe(200);
+        expect(backtestReport.trades[0].cash).toBe(-1000);
+        expect(backtestReport.equityCurve[1].equity).toBe(1200);
+        expect(backtestReport.returns).toBe(400);
+      });
+
+      it('Should cap the position by the maximum leverage.', () => {
+        const backtestReport = run([10, 11, 12], {
+          initialMargin: 0.2,
+          maxLeverage: 2,
+        });
+
+        expect(backtestReport.trades[0].shares).toBe(200);
+      });
+
+      it('Should pay interest on the borrowed cash.', () => {
+        const backtestReport = run([10, 11, 12], {
+          initialMargin: 0.5,
+          interestRate: 0.1,
+        });
+
+        // 0.1% of 1000 borrowed, then of 1001
+        expect(backtestReport.totalInterest).toBeCloseTo(2.001);
+        expect(backtestReport.totalCosts).toBeCloseTo(2.001);
+        expect(backtestReport.returns).toBeCloseTo(397.999);
+      });
+
+      it('Should liquidate the position below the maintenance margin.', () => {
+        const backtestReport = run([10, 9, 6, 12], {
+          initialMargin: 0.5,
+          maintenanceMargin: 0.25,
+        });
+
+        // 200 shares at 6 need 300 of equity, only 200 is left
+        expect(backtestReport.liquidations).toStrictEqual([
+          {
+            quote: backtestReport.trades[1].quote,
+            index: 2,
+            side: 'long',
+            shares: 200,
+            price: 6,
+            equity: 200,
+            maintenanceMargin: 300,
+          },
+        ]);
+        expect(backtestReport.trades[1].reason).toBe('liquidation');
+        expect(backtestReport.roundTrips[0].reason).toBe('liquidation');
+        expect(backtestReport.trades).toHaveLength(2);
+        expect(backtestReport.finalCapital).toBe(200);
+      });
+
+      it('Should liquidate at the market with next-bar execution.', () => {
+        const backtestReport = run(
+          [10, 10, 6, 12],
+          { initialMargin: 0.5, maintenanceMargin: 0.25 },
+          { fill: 'next-bar' }
+        );
+
+        expect(backtestReport.liquidations[0].price).toBe(6);
+        expect(backtestReport.orders.map((o) => o.type)).toStrictEqual([
+          'submitted',
+          'filled',
+          'submitted',
+          'filled',
+        ]);
+        expect(backtestReport.orders[3].order.reason).toBe('liquidation');
+        expect(backtestReport.openShares).toBe(0);
+      });
+
+      it('Should not liquidate a cash account.', () => {
+        const backtestReport = run([10, 9, 6, 12], {});
+
+        expect(backtestReport.liquidations).toHaveLength(0);
+        expect(backtestReport.trades[1].reason).toBe('signal');
+      });
+
+      it('Should throw for invalid margin requirements.', () => {
+        expect(() => run([10], { initialMargin: 0 })).toThrow(
+          'Invalid initial margin: 0.'
+        );
+        expect(() =>
+          run([10], { initialMargin: 0.5, maintenanceMargin: 0.6 })
+        ).toThrow('Invalid maintenance margin: 0.6.');
+        expect(() => run([10], { maxLeverage: 0.5 })).toThrow(
+          'Invalid leverage: 0.5.'
+        );
+      });
+    });
+
+    describe('with corporate actions', () => {
+      type Bar = { date: string; close: number };
+      const splitDataset = () =>
+        new Dataset<Bar>([
+          { date: '2024-01-01', close: 100 },
+          { date: '2024-01-02', close: 104 },
+          { date: '2024-01-03', close: 26 },
+          { date: '2024-01-04', close: 27 },
+        ]);
+      const splitStrategy = (entry: number) =>
+        new Strategy<unknown, Bar>('split-strategy', {
+          entryWhen: (quote) => quote.getValue('close') === entry,
+          exitWhen: (quote) => quote.getValue('close') === 27,
+        });
+      const corporateActions = [
+        { date: '2024-01-03', split: 4 },
+        { date: '2024-01-04', dividend: 0.5 },
+      ];
+
+      it('Should split the shares and credit the dividends of the position.', () => {
+        const backtestReport = new Backtest(
+          splitDataset(),
+          splitStrategy(100)
+        ).run({
+          config: { capital: 1000, corporateActions },
+          onEntry: (quote) => quote.value.close,
+          onExit: (quote) => quote.value.close,
+        });
+
+        expect(backtestReport.equityCurve[2].equity).toBe(1040);
+        expect(backtestReport.trades[1].shares).toBe(40);
+        expect(backtestReport.dividendIncome).toBe(20);
+        expect(backtestReport.finalCapital).toBe(1100);
+      });
+
+      it('Should take a split for a crash without corporate actions.', () => {
+        const backtestReport = new Backtest(
+          splitDataset(),
+          splitStrategy(100)
+        ).run({
+          config: { capital: 1000 },
+          onEntry: (quote) => quote.value.close,
+          onExit: (quote) => quote.value.close,
+        });
+
+        expect(backtestReport.finalCapital).toBe(270);
+      });
+
+      it('Should cancel the orders resting before a split.', () => {
+        const backtestReport = new Backtest(
+          splitDataset(),
+          splitStrategy(104)
+        ).run({
+          config: {
+            capital: 1000,
+            corporateActions,
+            execution: { fill: 'next-bar' },
+          },
+          onEntry: (quote) => quote.value.close,
+          onExit: (quote) => quote.value.close,
+        });
+
+        expect(backtestReport.orders.map((o) => o.type)).toStrictEqual([
+          'submitted',
+          'cancelled',
+        ]);
+        expect(backtestReport.trades).toHaveLength(0);
+      });
+    });
+
+    describe('with scaling', () => {
+      const scaleDataset = () => new Dataset([10, 12, 14, 13, 16, 15]);
+      const scaleStrategy = new Strategy('scale-strategy', {
+        entryWhen: (quote) => quote.getValue() === 10,
+        exitWhen: () => false,
+        scaleInWhen: (quote) => quote.getValue() === 12,
+        scaleOutWhen: (quote) => quote.getValue() === 16,
+      });
+      const config = {
+        capital: 1000,
+        sizing: { type: 'shares' as const, value: 10 },
+      };
+
+      it('Should add to the position and sell part of it.', () => {
+        const backtestReport = new Backtest(scaleDataset(), scaleStrategy).run({
+          config,
+          onEntry: (quote) => quote.value * 1,
+          onExit: (quote) => quote.value * 1,
+        });
+
+        expect(backtestReport.trades.map((t) => t.shares)).toStrictEqual([
+          10, 10, 10, 10,
+        ]);
+        expect(backtestReport.trades[1].averageCost).toBe(11);
+        expect(backtestReport.trades[2].reason).toBe('scaleOut');
+        expect(backtestReport.trades[2].realizedPnl).toBe(60);
+        expect(backtestReport.trades[3].realizedPnl).toBe(30);
+        expect(backtestReport.numberOfTrades).toBe(1);
+        expect(backtestReport.returns).toBe(90);
+      });
+
+      it('Should realise the last lot first with LIFO accounting.', () => {
+        const backtestReport = new Backtest(scaleDataset(), scaleStrategy).run({
+          config: { ...config, lots: 'lifo' },
+          onEntry: (quote) => quote.value * 1,
+          onExit: (quote) => quote.value * 1,
+        });
+
+        expect(backtestReport.trades[2].realizedPnl).toBe(40);
+        expect(backtestReport.trades[3].realizedPnl).toBe(50);
+        expect(backtestReport.returns).toBe(90);
+      });
+
+      it('Should scale with orders on the following quote.', () => {
+        const backtestReport = new Backtest(scaleDataset(), scaleStrategy).run({
+          config: { ...config, execution: { fill: 'next-bar' } },
+          onEntry: (quote) => quote.value * 1,
+          onExit: (quote) => quote.value * 1,
+        });
+
+        // Signals on 10, 12 and 16 fill at 12, 14 and 15
+        expect(backtestReport.trades.map((t) => t.tradedValue)).toStrictEqual([
+          12, 14, 15, 15,
+        ]);
+        expect(backtestReport.trades[2].shares).toBe(10);
+        expect(backtestReport.trades[2].reason).toBe('scaleOut');
+        expect(backtestReport.openShares).toBe(0);
+      });
+    });
+
+    describe('with long and short rules', () => {
+      const longShortStrategy = new Strategy('long-short', {
+        entryWhen: (quote) => quote.getValue() === 12,
+        exitWhen: () => false,
+        entryShortWhen: (quote) => quote.getValue() === 15,
+        exitShortWhen: (quote) => quote.getValue() === 9,
+      });
+
+      it('Should close the long position and go short on a reversal.', () => {
+        const backtestReport = new Backtest(
+          new Dataset([10, 12, 15, 13, 9, 11]),
+          longShortStrategy
+        ).run({
+          config: { capital: 120 },
+          onEntry: (quote) => quote.value,
+          onExit: (quote) => quote.value,
+        });
+
+        expect(
+          backtestReport.trades.map(({ type, side, tradedValue }) => [
+            type,
+            side,
+            tradedValue,
+          ])
+        ).toStrictEqual([
+          ['entry', 'long', 12],
+          ['exit', 'long', 15],
+          ['entry', 'short', 15],
+          ['exit', 'short', 9],
+        ]);
+        // 120 + 10 * 3 + 10 * 6
+        expect(backtestReport.finalCapital).toBe(210);
+        expect(backtestReport.long.numberOfWinningTrades).toBe(1);
+        expect(backtestReport.short.numberOfWinningTrades).toBe(1);
+      });
+
+      it('Should fill both legs of a reversal on the following quote.', () => {
+        const backtestReport = new Backtest(
+          new Dataset([10, 12, 15, 13, 9, 11]),
+          longShortStrategy
+        ).run({
+          config: {
+            capital: 120,
+            sizing: { type: 'fraction', value: 0.5 },
+            execution: { fill: 'next-bar' },
+          },
+          onEntry: (quote) => quote.value,
+          onExit: (quote) => quote.value,
+        });
+
+        expect(
+          backtestReport.trades.map(({ type, side, tradedValue }) => [
+            type,
+            side,
+            tradedValue,
+          ])
+        ).toStrictEqual([
+          ['entry', 'long', 15],
+          ['exit', 'long', 13],
+          ['entry', 'short', 13],
+          ['exit', 'short', 11],
+        ]);
+        expect(backtestReport.trades[0].shares).toBe(5);
+        // Sized on the reversal signal from the equity of 45 cash and 5 shares at 15
+        expect(backtestReport.trades[2].shares).toBe(4);
+        expect(backtestReport.finalCapital).toBe(118);
+      });
+
+      it('Should close the position of the reversal at the end.', () => {
+        const backtestReport = new Backtest(
+          new Dataset([10, 12, 15, 13]),
+          longShortStrategy
+        ).run({
+          config: { capital: 120 },
+          onEntry: (quote) => quote.value,
+          onExit: (quote) => quote.value,
+        });
+
+        expect(backtestReport.trades[3].reason).toBe('end');
+        expect(backtestReport.numberOfTrades).toBe(2);
+      });
+    });
+
+    describe('round trips', () => {
+      it('Should record the excursions and dates of every trade.', () => {
+        const bars = [
+          { date: '2024-01-01', open: 10, high: 10, low: 10, close: 10 },
+          { date: '2024-01-02', open: 11, high: 12.5, low: 11, close: 12 },
+          { date: '2024-01-03', open: 12, high: 13, low: 11, close: 12.5 },
+          { date: '2024-01-04', open: 13, high: 15, low: 12.5, close: 14 },
+          { date: '2024-01-05', open: 14, high: 14, low: 13, close: 13 },
+        ];
+        const backtestReport = new Backtest(
+          new Dataset(bars),
+          new Strategy<unknown, (typeof bars)[number]>('round-trips', {
+            entryWhen: (quote) => quote.getValue('close') === 12,
+            exitWhen: (quote) => quote.getValue('close') === 14,
+          })
+        ).run({
+          config: { capital: 120 },
+          onEntry: (quote) => quote.value.close,
+          onExit: (quote) => quote.value.close,
+        });
+        const [trip] = backtestReport.roundTrips;
+
+        expect(backtestReport.roundTrips).toHaveLength(1);
+        expect(trip.entryIndex).toBe(1);
+        expect(trip.exitIndex).toBe(3);
+        expect(trip.barsHeld).toBe(2);
+        expect(trip.entryTimestamp).toBe(Date.parse('2024-01-02'));
+        expect(trip.exitTimestamp).toBe(Date.parse('2024-01-04'));
+        expect(trip.pnl).toBe(20);
+        expect(trip.returnPercentage).toBeCloseTo(16.67, 2);
+        // Low of 11 while held, the high of 15 comes after the exit at 14
+        expect(trip.mae).toBeCloseTo(8.33, 2);
+        expect(trip.mfe).toBeCloseTo(16.67, 2);
+        expect(trip.reason).toBe('signal');
+      });
+    });
+
+    describe('equity curve', () => {
+      it('Should mark the equity of every quote.', () => {
+        const backtestReport = new Backtest(
+          new Dataset([20, 25, 22, 28, 35, 30, 25, 18, 15]),
+          strategy
+        ).run({
+          config: { capital: 100 },
+          onEntry: (quote) => quote.value * 1,
+          onExit: (quote) => quote.value * 1,
+        });
+        const { equityCurve } = backtestReport;
+
+        expect(equityCurve).toHaveLength(9);
+        expect(equityCurve.map((p) => p.index)).toStrictEqual([
+          0, 1, 2, 3, 4, 5, 6, 7, 8,
+        ]);
+        // Flat before the entry at 35
+        expect(equityCurve[3].equity).toBe(100);
+        expect(equityCurve[3].exposure).toBe(0);
+        // Fully invested after the entry, 100 / 35 shares at 30
+        expect(equityCurve[5].cash).toBeCloseTo(0);
+        expect(equityCurve[5].equity).toBeCloseTo((100 / 35) * 30);
+        expect(equityCurve[5].exposure).toBeCloseTo(100);
+        expect(equityCurve[5].drawdown).toBeCloseTo((5 * 100) / 35);
+        expect(equityCurve[8].equity).toBeCloseTo(backtestReport.finalCapital);
+      });
+
+      it('Should annualise the metrics with the configured options.', () => {
+        const backtestReport = new Backtest(
+          new Dataset([20, 25, 22, 28, 35, 30, 25, 18, 15]),
+          strategy
+        ).run({
+          config: {
+            capital: 100,
+            metrics: { barsPerYear: 9, riskFreeRate: 1 },
+          },
+          onEntry: (quote) => quote.value * 1,
+          onExit: (quote) => quote.value * 1,
+        });
+
+        expect(backtestReport.metricsOptions).toStrictEqual({
+          barsPerYear: 9,
+          riskFreeRate: 1,
+        });
+        // A year of quotes
+        expect(backtestReport.metrics.cagr).toBeCloseTo(
+          backtestReport.returnsPercentage
+        );
+        expect(backtestReport.metrics.largestLoss).toBeCloseTo(
+          backtestReport.loss
+        );
+      });
+
+      it('Should compare the back-test with buying and holding the dataset.', () => {
+        const backtestReport = new Backtest(
+          new Dataset([20, 25, 22, 28, 35, 30, 25, 18, 15]),
+          strategy
+        ).run({
+          config: { capital: 100, benchmark: {} },
+          onEntry: (quote) => quote.value * 1,
+          onExit: (quote) => quote.value * 1,
+        });
+
+        expect(backtestReport.benchmarkCurve).toHaveLength(9);
+        expect(backtestReport.benchmarkCurve[0].equity).toBe(100);
+        expect(backtestReport.benchmarkCurve[8].equity).toBeCloseTo(75);
+        expect(backtestReport.benchmark?.excessReturn).toBeCloseTo(
+          backtestReport.returnsPercentage + 25
+        );
+      });
+
+      it('Should compare the back-test with a benchmark dataset.', () => {
+        const backtestReport = new Backtest(
+          new Dataset([20, 25, 22, 28, 35, 30, 25, 18, 15]),
+          strategy
+        ).run({
+          config: {
+            capital: 100,
+            benchmark: {
+              dataset: new Dataset([10, 10, 10, 10, 10, 10, 10, 10, 12]),
+            },
+          },
+          onEntry: (quote) => quote.value * 1,
+          onExit: (quote) => quote.value * 1,
+        });
+
+        expect(backtestReport.benchmarkCurve[8].equity).toBeCloseTo(120);
+        expect(backtestReport.benchmark?.excessReturn).toBeCloseTo(
+          backtestReport.returnsPercentage - 20
+        );
+      });
+
+      it('Should not report a benchmark unless configured.', () => {
+        const backtestReport = new Backtest(
+          new Dataset([20, 25, 22, 28]),
+          strategy
+        ).run({
+          config: { capital: 100 },
+          onEntry: (quote) => quote.value * 1,
+          onExit: (quote) => quote.value * 1,
+        });
+
+        expect(backtestReport.benchmarkCurve).toStrictEqual([]);
+        expect(backtestReport.benchmark).toBeUndefined();
+      });
+
+      it('Should only trade and mark the quotes after the warm-up.', () => {
+        const run = (warmUp: number) =>
+          new Backtest(
+            new Dataset([20, 25, 22, 28, 35, 30, 25, 18, 15]),
+            strategy
+          ).run({
+            config: { capital: 100, warmUp },
+            onEntry: (quote) => quote.value * 1,
+            onExit: (quote) => quote.value * 1,
+          });
+
+        // The entry at 35 is the first traded quote
+        const entered = run(4);
+        expect(entered.numberOfTrades).toBe(1);
+        expect(entered.equityCurve.map((p) => p.index)).toStrictEqual([
+          0, 1, 2, 3, 4,
+        ]);
+        expect(entered.roundTrips[0]).toMatchObject({
+          entryIndex: 0,
+          exitIndex: 3,
+        });
+
+        // The position entered during the warm-up is never traded
+        const warmedUp = run(5);
+        expect(warmedUp.numberOfTrades).toBe(0);
+        expect(warmedUp.equityCurve).toHaveLength(4);
+        expect(warmedUp.equityCurve[0].quote.getIndicator('sma2')).toBe(32.5);
+      });
+
+      it('Should price the open position with onMark.', () => {
+        const backtestReport = new Backtest(
+          new Dataset([20, 25, 22, 28, 35, 30, 25, 18, 15]),
+          strategy
+        ).run({
+          config: { capital: 100 },
+          onEntry: (quote) => quote.value * 1,
+          onExit: (quote) => quote.value * 1,
+          onMark: () => 70,
+        });
+
+        expect(backtestReport.equityCurve[5].equity).toBeCloseTo(200);
+        expect(backtestReport.equityCurve[5].price).toBe(70);
+      });
+
+      it('Should mark the open position at its close without onMark.', () => {
+        const onExit = jest.fn((quote: Quote<number>) => quote.value * 1);
+        const backtestReport = new Backtest(
+          new Dataset([20, 25, 22, 28, 35, 30, 25, 18, 15]),
+          strategy
+        ).run({
+          config: { capital: 100 },
+          onEntry: (quote) => quote.value * 1,
+          onExit,
+        });
+
+        expect(backtestReport.equityCurve[5].price).toBe(30);
+        expect(onExit).toHaveBeenCalledTimes(backtestReport.roundTrips.length);
+      });
+
+      it('Should mark the equity with next-bar execution.', () => {
+        const backtestReport = new Backtest(
+          new Dataset([20, 25, 22, 28, 35, 30, 25, 18, 15]),
+          strategy
+        ).run({
+          config: { capital: 100, execution: { fill: 'next-bar' } },
+          onEntry: (quote) => quote.value * 1,
+          onExit: (quote) => quote.value * 1,
+        });
+
+        expect(backtestReport.equityCurve).toHaveLength(9);
+        expect(backtestReport.equityCurve[8].equity).toBeCloseTo(
+          backtestReport.finalCapital
+        );
+      });
+    });
+
+    it('Should mark the forced exit of the last trade.', () => {
+      const dataset2 = new Dataset([20, 25, 22, 28, 35, 30, 25, 28, 32]);
+      const backtestReport = new Backtest(dataset2, strategy).run({
+        config: { capital: 100 },
+        onEntry: (quote) => quote.value * 1,
+        onExit: (quote) => quote.value * 1,
+      });
+
+      expect(backtestReport.trades[1].reason).toBe('end');
+    });
   });
 });
-
@@ -1,5 +1,6 @@
 // import '@types/jest';
 import { BacktestReport } from '../src';
+import { Order } from '../src/order';
 import { Quote } from '../src/quote';
 
 describe('BacktestReport', () => {
@@ -27,12 +28,467 @@ describe('BacktestReport', () => {
       expect(backtestReport.sharesOwned).toBe(20);
       expect(backtestReport.trades).toStrictEqual([{
         type: 'entry',
+        side: 'long',
         quote,
+        timestamp: undefined,
         tradedValue: 50,
         shares: 20,
         currentCapital: 0,
+        cash: 0,
+        exposure: 100,
+        commission: 0,
+        slippage: 0,
+        averageCost: 50,
       }]);
     });
+
+    it('Should record the timestamp of the quote.', () => {
+      const backtestReport = new BacktestReport(1000);
+
+      backtestReport.markEntry(50, new Quote(1, '2024-01-02T00:00:00Z'));
+      backtestReport.markExit(50, new Quote(1, Date.UTC(2024, 0, 3)));
+
+      expect(backtestReport.trades.map((t) => t.timestamp)).toStrictEqual([
+        Date.UTC(2024, 0, 2),
+        Date.UTC(2024, 0, 3),
+      ]);
+    });
+
+    it('Should buy a given number of shares and record the cash left over.', () => {
+      const backtestReport = new BacktestReport(1000);
+
+      backtestReport.markEntry(50, new Quote(1), 5);
+
+      expect(backtestReport.finalCapital).toBe(750);
+      expect(backtestReport.sharesOwned).toBe(5);
+      expect(backtestReport.trades[0].cash).toBe(750);
+      expect(backtestReport.trades[0].exposure).toBe(25);
+    });
+
+    it('Should add to the shares owned for partial fills.', () => {
+      const backtestReport = new BacktestReport(1000);
+
+      backtestReport.markEntry(50, new Quote(1), 5);
+      backtestReport.markEntry(50, new Quote(2), 5);
+
+      expect(backtestReport.sharesOwned).toBe(10);
+      expect(backtestReport.finalCapital).toBe(500);
+    });
+  });
+
+  describe('short positions', () => {
+    it('Should hold the value of a short entry as margin.', () => {
+      const backtestReport = new BacktestReport(1000);
+
+      backtestReport.markEntry(50, new Quote(1), 10, undefined, 'short');
+
+      expect(backtestReport.sharesOwned).toBe(0);
+      expect(backtestReport.sharesBorrowed).toBe(10);
+      expect(backtestReport.openShares).toBe(10);
+      expect(backtestReport.marginHeld).toBe(500);
+      expect(backtestReport.finalCapital).toBe(500);
+      expect(backtestReport.trades[0].side).toBe('short');
+    });
+
+    it('Should hold a fraction of the short value for a given margin.', () => {
+      const backtestReport = new BacktestReport(1000);
+
+      backtestReport.markEntry(50, new Quote(1), 10, undefined, 'short', 0.5);
+
+      expect(backtestReport.marginHeld).toBe(250);
+      expect(backtestReport.finalCapital).toBe(750);
+    });
+
+    it('Should profit when the price falls.', () => {
+      const backtestReport = new BacktestReport(1000);
+
+      backtestReport.markEntry(50, new Quote(1), 20, undefined, 'short');
+      backtestReport.markExit(40, new Quote(2));
+
+      // 1000 + 20 * (50 - 40)
+      expect(backtestReport.finalCapital).toBe(1200);
+      expect(backtestReport.profit).toBe(200);
+      expect(backtestReport.numberOfWinningTrades).toBe(1);
+      expect(backtestReport.sharesBorrowed).toBe(0);
+      expect(backtestReport.marginHeld).toBe(0);
+      expect(backtestReport.trades[1].side).toBe('short');
+    });
+
+    it('Should lose when the price rises.', () => {
+      const backtestReport = new BacktestReport(1000);
+
+      backtestReport.markEntry(50, new Quote(1), 10, undefined, 'short', 0.5);
+      backtestReport.markExit(60, new Quote(2));
+
+      expect(backtestReport.finalCapital).toBe(900);
+      expect(backtestReport.loss).toBe(100);
+      expect(backtestReport.numberOfLosingTrades).toBe(1);
+    });
+
+    it('Should only close the trade once all borrowed shares are bought back.', () => {
+      const backtestReport = new BacktestReport(1000);
+
+      backtestReport.markEntry(50, new Quote(1), 10, undefined, 'short');
+      backtestReport.markExit(40, new Quote(2), 'signal', undefined, 4);
+
+      // 500 + 4 * 50 margin + 4 * 10 profit
+      expect(backtestReport.finalCapital).toBe(740);
+      expect(backtestReport.sharesBorrowed).toBe(6);
+      expect(backtestReport.numberOfTrades).toBe(0);
+
+      backtestReport.markExit(45, new Quote(3));
+
+      expect(backtestReport.finalCapital).toBe(1070);
+      expect(backtestReport.numberOfTrades).toBe(1);
+    });
+
+    it('Should pay borrow fees and count them as costs.', () => {
+      const backtestReport = new BacktestReport(1000);
+
+      backtestReport.markEntry(50, new Quote(1), 10, undefined, 'short');
+      backtestReport.markBorrowFee(5);
+      backtestReport.markExit(50, new Quote(2));
+
+      expect(backtestReport.finalCapital).toBe(995);
+      expect(backtestReport.totalBorrowFees).toBe(5);
+      expect(backtestReport.totalCosts).toBe(5);
+      expect(backtestReport.numberOfLosingTrades).toBe(1);
+    });
+
+    it('Should pay interest on borrowed cash and count it as costs.', () => {
+      const backtestReport = new BacktestReport(1000);
+
+      backtestReport.markEntry(50, new Quote(1), 30);
+
+      expect(backtestReport.borrowedCash).toBe(500);
+
+      backtestReport.markInterest(5);
+      backtestReport.markExit(50, new Quote(2));
+
+      expect(backtestReport.finalCapital).toBe(995);
+      expect(backtestReport.totalInterest).toBe(5);
+      expect(backtestReport.totalCosts).toBe(5);
+      expect(backtestReport.borrowedCash).toBe(0);
+    });
+
+    it('Should record the liquidation of the open position.', () => {
+      const backtestReport = new BacktestReport(1000);
+      const quote = new Quote(2);
+
+      backtestReport.markEntry(50, new Quote(1), 30);
+      backtestReport.markLiquidation(quote, 30, 225);
+      backtestReport.markExit(30, quote, 'liquidation');
+
+      expect(backtestReport.liquidations).toStrictEqual([
+        {
+          quote,
+          index: 0,
+          side: 'long',
+          shares: 30,
+          price: 30,
+          equity: 400,
+          maintenanceMargin: 225,
+        },
+      ]);
+      expect(backtestReport.roundTrips[0].reason).toBe('liquidation');
+    });
+
+    it('Should credit dividends of long positions and pay those of short positions.', () => {
+      const longReport = new BacktestReport(1000);
+      const shortReport = new BacktestReport(1000);
+
+      longReport.markEntry(50, new Quote(1), 10);
+      shortReport.markEntry(50, new Quote(1), 10, undefined, 'short');
+
+      expect(longReport.markDividend(2)).toBe(20);
+      expect(shortReport.markDividend(2)).toBe(-20);
+
+      longReport.markExit(50, new Quote(2));
+
+      expect(longReport.dividendIncome).toBe(20);
+      expect(longReport.returns).toBe(20);
+      expect(shortReport.getEquity(50)).toBe(980);
+    });
+
+    it('Should convert the open position on a split.', () => {
+      const backtestReport = new BacktestReport(1000);
+
+      backtestReport.markEntry(50, new Quote(1), 10);
+      backtestReport.markSplit(2);
+
+      expect(backtestReport.sharesOwned).toBe(20);
+      expect(backtestReport.averageCost).toBe(25);
+      expect(backtestReport.getEquity(25)).toBe(1000);
+
+      backtestReport.markExit(30, new Quote(2));
+
+      expect(backtestReport.returns).toBe(100);
+      expect(backtestReport.roundTrips[0].entryPrice).toBe(25);
+      expect(backtestReport.roundTrips[0].shares).toBe(20);
+    });
+
+    it('Should split statistics into long and short trades.', () => {
+      const backtestReport = new BacktestReport(1000);
+
+      backtestReport.markEntry(50, new Quote(1), 10);
+      backtestReport.markExit(60, new Quote(2));
+      backtestReport.markEntry(60, new Quote(3), 10, undefined, 'short');
+      backtestReport.markExit(70, new Quote(4));
+      backtestReport.markEntry(70, new Quote(5), 10, undefined, 'short');
+      backtestReport.markExit(50, new Quote(6));
+
+      expect(backtestReport.numberOfTrades).toBe(3);
+      expect(backtestReport.long).toStrictEqual({
+        numberOfTrades: 1,
+        numberOfWinningTrades: 1,
+        numberOfLosingTrades: 0,
+        profit: 100,
+        loss: 0,
+        winningRate: 1,
+      });
+      expect(backtestReport.short).toStrictEqual({
+        numberOfTrades: 2,
+        numberOfWinningTrades: 1,
+        numberOfLosingTrades: 1,
+        profit: 200,
+        loss: 100,
+        winningRate: 0.5,
+      });
+    });
+  });
+
+  describe('markToMarket', () => {
+    it('Should record cash, position value and equity of a long position.', () => {
+      const backtestReport = new BacktestReport(1000);
+      const quote = new Quote(60);
+
+      backtestReport.markEntry(50, new Quote(50), 10);
+      const point = backtestReport.markToMarket(quote, 60);
+
+      expect(point).toStrictEqual({
+        quote,
+        index: 0,
+        price: 60,
+        cash: 500,
+        positionValue: 600,
+        equity: 1100,
+        exposure: (600 * 100) / 1100,
+        drawdown: 0,
+      });
+      expect(backtestReport.equityCurve).toStrictEqual([point]);
+    });
+
+    it('Should value a short position with its unrealised profit.', () => {
+      const backtestReport = new BacktestReport(1000);
+
+      backtestReport.markEntry(50, new Quote(50), 10, undefined, 'short');
+      const point = backtestReport.markToMarket(new Quote(40), 40);
+
+      expect(point.cash).toBe(500);
+      expect(point.positionValue).toBe(600);
+      expect(point.equity).toBe(1100);
+    });
+
+    it('Should measure the drawdown from the peak equity.', () => {
+      const backtestReport = new BacktestReport(1000);
+
+      backtestReport.markEntry(50, new Quote(50), 20);
+      backtestReport.markToMarket(new Quote(60), 60);
+      const point = backtestReport.markToMarket(new Quote(45), 45);
+
+      expect(backtestReport.peakEquity).toBe(1200);
+      expect(point.index).toBe(1);
+      expect(point.equity).toBe(900);
+      expect(point.drawdown).toBe(25);
+    });
+  });
+
+  describe('roundTrips', () => {
+    it('Should pair the entry with the exit of a long trade.', () => {
+      const backtestReport = new BacktestReport(1000);
+      const entryQuote = new Quote(10);
+      const exitQuote = new Quote(12);
+
+      backtestReport.markToMarket(new Quote(9), 9);
+      backtestReport.markEntry(10, entryQuote, 10);
+      // The range of the entry quote happened before the entry
+      backtestReport.markToMarket(entryQuote, 10, 1, 12, 8);
+      backtestReport.markToMarket(new Quote(11), 11, 2, 13, 9);
+      backtestReport.markExit(12, exitQuote, 'takeProfit');
+
+      expect(backtestReport.roundTrips).toStrictEqual([
+        {
+          side: 'long',
+          entryIndex: 1,
+          exitIndex: 3,
+          entryQuote,
+          exitQuote,
+          entryTimestamp: undefined,
+          exitTimestamp: undefined,
+          entryPrice: 10,
+          exitPrice: 12,
+          shares: 10,
+          barsHeld: 2,
+          pnl: 20,
+          returnPercentage: 20,
+          mae: 10,
+          mfe: 30,
+          reason: 'takeProfit',
+        },
+      ]);
+    });
+
+    it('Should measure the excursions of a short trade against its side.', () => {
+      const backtestReport = new BacktestReport(1000);
+
+      backtestReport.markEntry(10, new Quote(10), 10, undefined, 'short');
+      backtestReport.markToMarket(new Quote(10), 10, 0);
+      backtestReport.markToMarket(new Quote(11), 11, 1, 11.5, 9.5);
+      backtestReport.markExit(9, new Quote(9));
+
+      const [trip] = backtestReport.roundTrips;
+
+      expect(trip.side).toBe('short');
+      expect(trip.pnl).toBe(10);
+      expect(trip.mae).toBeCloseTo(15);
+      expect(trip.mfe).toBeCloseTo(10);
+    });
+
+    it('Should average the fills of partial entries and exits.', () => {
+      const backtestReport = new BacktestReport(1000);
+
+      backtestReport.markEntry(10, new Quote(10), 5);
+      backtestReport.markEntry(12, new Quote(12), 5);
+      backtestReport.markExit(14, new Quote(14), 'signal', undefined, 5);
+
+      expect(backtestReport.roundTrips).toHaveLength(0);
+
+      backtestReport.markExit(16, new Quote(16));
+
+      const [trip] = backtestReport.roundTrips;
+
+      expect(trip.entryPrice).toBe(11);
+      expect(trip.exitPrice).toBe(15);
+      expect(trip.shares).toBe(10);
+      expect(trip.pnl).toBe(40);
+    });
+  });
+
+  describe('lots', () => {
+    const scale = (report: BacktestReport) => {
+      report.markEntry(10, new Quote(10), 10, { commission: 2, slippage: 0 });
+      report.markEntry(20, new Quote(20), 10, { commission: 2, slippage: 0 });
+      report.markExit(30, new Quote(30), 'scaleOut', undefined, 5);
+
+      return report;
+    };
+
+    it('Should track the average cost of the open lots.', () => {
+      const backtestReport = scale(new BacktestReport(1000));
+
+      expect(backtestReport.trades[1].averageCost).toBe(15);
+      expect(backtestReport.lots.map((lot) => lot.shares)).toStrictEqual([
+        5, 10,
+      ]);
+      expect(backtestReport.averageCost).toBe(50 / 3);
+    });
+
+    it('Should realise partial exits first in first out.', () => {
+      const backtestReport = scale(new BacktestReport(1000));
+      const exit = backtestReport.trades[2];
+
+      // 5 shares of the first lot, with half of its commission
+      expect(exit.costBasis).toBe(10);
+      expect(exit.realizedPnl).toBe(5 * 20 - 1);
+      expect(exit.reason).toBe('scaleOut');
+      expect(backtestReport.openShares).toBe(15);
+      expect(backtestReport.numberOfTrades).toBe(0);
+    });
+
+    it('Should realise partial exits last in first out.', () => {
+      const backtestReport = scale(new BacktestReport(1000, {}, 'lifo'));
+
+      expect(backtestReport.trades[2].costBasis).toBe(20);
+      expect(backtestReport.trades[2].realizedPnl).toBe(5 * 10 - 1);
+      expect(backtestReport.lots.map((lot) => lot.shares)).toStrictEqual([
+        10, 5,
+      ]);
+    });
+
+    it('Should realise the whole trade once every lot is closed.', () => {
+      const backtestReport = scale(new BacktestReport(1000));
+
+      backtestReport.markExit(25, new Quote(25));
+
+      expect(backtestReport.lots).toStrictEqual([]);
+      expect(backtestReport.realizedPnl).toBeCloseTo(backtestReport.returns);
+      expect(backtestReport.numberOfTrades).toBe(1);
+      expect(backtestReport.roundTrips[0].shares).toBe(20);
+      expect(backtestReport.roundTrips[0].entryPrice).toBe(15);
+    });
+
+    it('Should realise short lots when buying them back.', () => {
+      const backtestReport = new BacktestReport(1000);
+
+      backtestReport.markEntry(50, new Quote(50), 10, undefined, 'short');
+      backtestReport.markExit(40, new Quote(40), 'scaleOut', undefined, 4);
+
+      expect(backtestReport.trades[1].realizedPnl).toBe(40);
+      expect(backtestReport.sharesBorrowed).toBe(6);
+    });
+  });
+
+  describe('append', () => {
+    it('Should continue with the trades and equity of a later back-test.', () => {
+      const first = new BacktestReport(100);
+      first.markEntry(10, new Quote(10), 10);
+      first.markToMarket(new Quote(10), 10);
+      first.markExit(12, new Quote(12));
+      first.markToMarket(new Quote(12), 12);
+
+      const second = new BacktestReport(first.finalCapital);
+      second.markEntry(6, new Quote(6), 20);
+      second.markToMarket(new Quote(6), 6);
+      second.markExit(5, new Quote(5), 'stopLoss');
+      second.markToMarket(new Quote(5), 5);
+
+      expect(first.append(second)).toBe(first);
+      expect(first.finalCapital).toBe(100);
+      expect(first.returns).toBe(0);
+      expect(first.numberOfTrades).toBe(2);
+      expect(first.numberOfWinningTrades).toBe(1);
+      expect(first.numberOfLosingTrades).toBe(1);
+      expect(first.winningRate).toBe(0.5);
+      expect(first.long.numberOfTrades).toBe(2);
+      expect(first.long.profit).toBe(20);
+      expect(first.long.loss).toBe(20);
+      expect(first.tradeResults).toStrictEqual([20, -20]);
+      expect(first.trades).toHaveLength(4);
+      expect(first.equityCurve.map((p) => p.index)).toStrictEqual([0, 1, 2, 3]);
+      expect(first.equityCurve.map((p) => p.equity)).toStrictEqual([
+        100, 120, 120, 100,
+      ]);
+      // Drawdown is measured from the peak of the first back-test
+      expect(first.equityCurve[3].drawdown).toBeCloseTo((20 * 100) / 120);
+      expect(first.roundTrips[1]).toMatchObject({
+        entryIndex: 2,
+        exitIndex: 3,
+        reason: 'stopLoss',
+      });
+    });
+  });
+
+  describe('markOrders', () => {
+    it('Should record order events.', () => {
+      const backtestReport = new BacktestReport(1000);
+      const order = new Order(1, 'buy', 10, { type: 'market' }, 0);
+
+      backtestReport.markOrders({ type: 'submitted', order, index: 0 });
+
+      expect(backtestReport.orders).toStrictEqual([
+        { type: 'submitted', order, index: 0 },
+      ]);
+    });
   });
 
   describe('markExit', () => {
@@ -56,8 +512,8 @@ describe('BacktestReport', () => {
       expect(backtestReport.returns).toBe(1000);
       expect(backtestReport.returnsPercentage).toBe(100);
       expect(backtestReport.trades).toStrictEqual([
-        { type: 'entry', quote: quote1, tradedValue: 50, shares: 20, currentCapital: 0 },
-        { type: 'exit', quote: quote2, tradedValue: 100, shares: 20, currentCapital: 2000 }
+        { type: 'entry', side: 'long', quote: quote1, timestamp: undefined, tradedValue: 50, shares: 20, currentCapital: 0, cash: 0, exposure: 100, commission: 0, slippage: 0, averageCost: 50 },
+        { type: 'exit', side: 'long', quote: quote2, timestamp: undefined, tradedValue: 100, shares: 20, currentCapital: 2000, commission: 0, slippage: 0, reason: 'signal', costBasis: 50, realizedPnl: 1000 }
       ])
     });
 
@@ -79,5 +535,82 @@ describe('BacktestReport', () => {
       expect(backtestReport.returns).toBe(-500);
       expect(backtestReport.returnsPercentage).toBe(-50);
     });
+
+    it('Should add the proceeds to the cash left over after a partial entry.', () => {
+      const backtestReport = new BacktestReport(1000);
+
+      backtestReport.markEntry(50, new Quote(1), 10);
+      backtestReport.markExit(60, new Quote(2));
+
+      expect(backtestReport.finalCapital).toBe(1100);
+      expect(backtestReport.profit).toBe(100);
+      expect(backtestReport.returnsPercentage).toBe(10);
+    });
+
+    it('Should break out gross and net returns after costs.', () => {
+      const backtestReport = new BacktestReport(1000);
+
+      backtestReport.markEntry(51, new Quote(1), 10, { commission: 5, slippage: 10 });
+      backtestReport.markExit(59, new Quote(2), 'signal', { commission: 5, slippage: 10 });
+
+      // 1000 - 510 - 5 + 590 - 5
+      expect(backtestReport.finalCapital).toBe(1070);
+      expect(backtestReport.returns).toBe(70);
+      expect(backtestReport.totalCommission).toBe(10);
+      expect(backtestReport.totalSlippage).toBe(20);
+      expect(backtestReport.totalCosts).toBe(30);
+      expect(backtestReport.grossReturns).toBe(100);
+      expect(backtestReport.trades[1].commission).toBe(5);
+    });
+
+    it('Should only close the trade once all shares are sold.', () => {
+      const backtestReport = new BacktestReport(1000);
+
+      backtestReport.markEntry(50, new Quote(1), 10);
+      backtestReport.markExit(60, new Quote(2), 'signal', undefined, 4);
+
+      expect(backtestReport.sharesOwned).toBe(6);
+      expect(backtestReport.numberOfTrades).toBe(0);
+
+      backtestReport.markExit(70, new Quote(3), 'signal', undefined, 6);
+
+      // 500 + 240 + 420
+      expect(backtestReport.sharesOwned).toBe(0);
+      expect(backtestReport.numberOfTrades).toBe(1);
+      expect(backtestReport.finalCapital).toBe(1160);
+      expect(backtestReport.profit).toBe(160);
+    });
+
+    it('Should record the rule that closed the trade.', () => {
+      const backtestReport = new BacktestReport(1000);
+
+      backtestReport.markEntry(50, new Quote(1));
+      backtestReport.markExit(45, new Quote(0), 'stopLoss');
+
+      expect(backtestReport.trades[1].reason).toBe('stopLoss');
+    });
+  });
+
+  describe('averageWin and averageLoss', () => {
+    it('Should return the average profit and loss per trade.', () => {
+      const backtestReport = new BacktestReport(1000);
+
+      backtestReport.markEntry(50, new Quote(1), 10);
+      backtestReport.markExit(60, new Quote(2));
+      backtestReport.markEntry(50, new Quote(3), 10);
+      backtestReport.markExit(40, new Quote(4));
+      backtestReport.markEntry(50, new Quote(5), 10);
+      backtestReport.markExit(70, new Quote(6));
+
+      expect(backtestReport.averageWin).toBe(150);
+      expect(backtestReport.averageLoss).toBe(100);
+    });
+
+    it('Should return 0 without trades.', () => {
+      const backtestReport = new BacktestReport(1000);
+
+      expect(backtestReport.averageWin).toBe(0);
+      expect(backtestReport.averageLoss).toBe(0);
+    });
   });
 });
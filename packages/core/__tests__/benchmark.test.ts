@@ -0,0 +1,114 @@
+// import '@types/jest';
+import { BacktestReport, Dataset } from '../src';
+import {
+  getBenchmarkCurve,
+  getBenchmarkMetrics,
+  getBenchmarkPrices,
+} from '../src/benchmark';
+import { Quote } from '../src/quote';
+
+const markCurve = (equity: number[], prices = equity) => {
+  const report = new BacktestReport<unknown>(100);
+
+  prices.forEach((price, i) => {
+    report.finalCapital = equity[i];
+    report.markToMarket(
+      new Quote({ close: price, date: Date.UTC(2024, 0, i + 1) }),
+      price
+    );
+  });
+
+  return report.equityCurve;
+};
+
+describe('benchmark', () => {
+  describe('getBenchmarkPrices', () => {
+    it('Should buy and hold the back-tested prices without a dataset.', () => {
+      const curve = markCurve([100, 100, 100], [10, 12, 9]);
+
+      expect(getBenchmarkPrices(curve)).toStrictEqual([10, 12, 9]);
+    });
+
+    it('Should align a benchmark dataset by date.', () => {
+      const curve = markCurve([100, 100, 100, 100]);
+      const dataset = new Dataset<unknown>([
+        { close: 50, date: Date.UTC(2024, 0, 1) },
+        { close: 55, date: Date.UTC(2024, 0, 3) },
+        { close: 60, date: Date.UTC(2024, 0, 4) },
+        { close: 65, date: Date.UTC(2024, 0, 5) },
+      ]);
+
+      // The second day has no benchmark quote and carries the first one
+      expect(getBenchmarkPrices(curve, { dataset })).toStrictEqual([
+        50, 50, 55, 60,
+      ]);
+    });
+
+    it('Should align a benchmark dataset without dates by index.', () => {
+      const curve = markCurve([100, 100, 100]);
+      const dataset = new Dataset<unknown>([{ price: 7 }, { price: 8 }]);
+
+      expect(
+        getBenchmarkPrices(curve, { dataset, attribute: 'price' })
+      ).toStrictEqual([7, 8, 8]);
+    });
+  });
+
+  describe('getBenchmarkCurve', () => {
+    it('Should invest the initial capital at the first price.', () => {
+      const curve = markCurve([100, 100, 100]);
+      const benchmark = getBenchmarkCurve(100, curve, [20, 25, 15]);
+
+      expect(benchmark.map((p) => p.equity)).toStrictEqual([100, 125, 75]);
+      expect(benchmark[1].quote).toBe(curve[1].quote);
+      expect(benchmark[1].price).toBe(25);
+    });
+  });
+
+  describe('getBenchmarkMetrics', () => {
+    it('Should match a benchmark that is the back-test itself.', () => {
+      const curve = markCurve([100, 110, 99, 120]);
+      const benchmark = getBenchmarkCurve(100, curve, [100, 110, 99, 120]);
+      const metrics = getBenchmarkMetrics(100, curve, benchmark);
+
+      expect(metrics.excessReturn).toBeCloseTo(0);
+      expect(metrics.alpha).toBeCloseTo(0);
+      expect(metrics.beta).toBeCloseTo(1);
+      expect(metrics.correlation).toBeCloseTo(1);
+      expect(metrics.trackingError).toBeCloseTo(0);
+      expect(metrics.informationRatio).toBe(0);
+      expect(metrics.upCapture).toBeCloseTo(100);
+      expect(metrics.downCapture).toBeCloseTo(100);
+    });
+
+    it('Should measure a back-test twice as volatile as its benchmark.', () => {
+      // Returns of 20%, -20% and 20% against 10%, -10% and 10%
+      const curve = markCurve([100, 120, 96, 115.2]);
+      const benchmark = getBenchmarkCurve(100, curve, [100, 110, 99, 108.9]);
+      const metrics = getBenchmarkMetrics(100, curve, benchmark, {
+        barsPerYear: 4,
+      });
+
+      expect(metrics.excessReturn).toBeCloseTo(6.3);
+      expect(metrics.alpha).toBeCloseTo(0);
+      expect(metrics.beta).toBeCloseTo(2);
+      expect(metrics.correlation).toBeCloseTo(1);
+      expect(metrics.trackingError).toBeGreaterThan(0);
+      expect(metrics.informationRatio).toBeGreaterThan(0);
+      expect(metrics.upCapture).toBeCloseTo(200);
+      expect(metrics.downCapture).toBeCloseTo(200);
+    });
+
+    it('Should return 0 ratios against a flat benchmark.', () => {
+      const curve = markCurve([100, 110, 120]);
+      const benchmark = getBenchmarkCurve(100, curve, [10, 10, 10]);
+      const metrics = getBenchmarkMetrics(100, curve, benchmark);
+
+      expect(metrics.excessReturn).toBeCloseTo(20);
+      expect(metrics.beta).toBe(0);
+      expect(metrics.correlation).toBe(0);
+      expect(metrics.upCapture).toBe(0);
+      expect(metrics.downCapture).toBe(0);
+    });
+  });
+});
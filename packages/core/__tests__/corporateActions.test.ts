@@ -0,0 +1,144 @@
+// import '@types/jest';
+import {
+  adjustForCorporateActions,
+  adjustQuoteValue,
+  getCorporateActionEvents,
+} from '../src/corporateActions';
+import { Quote } from '../src/quote';
+
+describe('Corporate actions', () => {
+  const quotes = [
+    { date: '2024-01-01', close: 100, volume: 10 },
+    { date: '2024-01-02', close: 104, volume: 10 },
+    { date: '2024-01-04', close: 26, volume: 40 },
+    { date: '2024-01-05', close: 27, volume: 40 },
+  ].map((value) => new Quote(value));
+
+  describe('getCorporateActionEvents', () => {
+    it('Should align actions with the first quote on or after their date.', () => {
+      const events = getCorporateActionEvents(quotes, [
+        { date: '2024-01-03', split: 4 },
+        { date: new Date('2024-01-05'), dividend: 0.5 },
+      ]);
+
+      expect([...events.values()]).toStrictEqual([
+        { index: 2, split: 4, dividend: 0 },
+        { index: 3, split: 1, dividend: 0.5 },
+      ]);
+    });
+
+    it('Should merge the actions of the same ex-date.', () => {
+      const events = getCorporateActionEvents(quotes, [
+        { date: '2024-01-04', split: 2 },
+        { date: Date.parse('2024-01-04'), split: 2, dividend: 1 },
+      ]);
+
+      expect(events.get(2)).toStrictEqual({ index: 2, split: 4, dividend: 1 });
+    });
+
+    it('Should ignore actions without quotes to adjust.', () => {
+      const events = getCorporateActionEvents(quotes, [
+        { date: '2023-12-01', split: 2 },
+        { date: '2024-01-01', split: 2 },
+        { date: '2024-02-01', split: 2 },
+      ]);
+
+      expect(events.size).toBe(0);
+      expect(
+        getCorporateActionEvents(
+          [new Quote(1), new Quote(2)],
+          [{ date: '2024-01-01', split: 2 }]
+        ).size
+      ).toBe(0);
+    });
+
+    it('Should read the date of the quotes from a given attribute.', () => {
+      const events = getCorporateActionEvents(
+        [new Quote({ time: 1000 }), new Quote({ time: 2000 })],
+        [{ date: 1500, dividend: 1 }],
+        'time'
+      );
+
+      expect(events.get(1)?.dividend).toBe(1);
+    });
+
+    it('Should throw for invalid actions.', () => {
+      expect(() =>
+        getCorporateActionEvents(quotes, [{ date: '2024-01-03', split: 0 }])
+      ).toThrow('Invalid split ratio: 0.');
+      expect(() =>
+        getCorporateActionEvents(quotes, [{ date: '2024-01-03', dividend: -1 }])
+      ).toThrow('Invalid dividend: -1.');
+      expect(() =>
+        getCorporateActionEvents(quotes, [{ date: 'never', split: 2 }])
+      ).toThrow('Invalid corporate action date: never.');
+    });
+  });
+
+  describe('adjustQuoteValue', () => {
+    it('Should scale the prices and the volume of object values.', () => {
+      expect(
+        adjustQuoteValue(
+          {
+            date: '2024-01-01',
+            open: 8,
+            high: 12,
+            low: 4,
+            close: 10,
+            volume: 5,
+          },
+          0.5,
+          2
+        )
+      ).toStrictEqual({
+        date: '2024-01-01',
+        open: 4,
+        high: 6,
+        low: 2,
+        close: 5,
+        volume: 10,
+      });
+    });
+
+    it('Should scale numeric values and mapped attributes.', () => {
+      expect(adjustQuoteValue(10, 0.5, 2)).toBe(5);
+      expect(
+        adjustQuoteValue({ c: 10, v: 5 }, 0.5, 2, { close: 'c', volume: 'v' })
+      ).toStrictEqual({ c: 5, v: 10 });
+    });
+  });
+
+  describe('adjustForCorporateActions', () => {
+    it('Should back-adjust the prices and volumes before a split.', () => {
+      const values = adjustForCorporateActions(quotes, [
+        { date: '2024-01-03', split: 4 },
+      ]);
+
+      expect(values.map((v) => v.close)).toStrictEqual([25, 26, 26, 27]);
+      expect(values.map((v) => v.volume)).toStrictEqual([40, 40, 40, 40]);
+      expect(values[0]).not.toBe(quotes[0].value);
+    });
+
+    it('Should back-adjust the prices before a dividend by the close before its ex-date.', () => {
+      const values = adjustForCorporateActions(quotes, [
+        { date: '2024-01-05', dividend: 0.52 },
+      ]);
+
+      // 1 - 0.52 / 26
+      expect(values[2].close).toBeCloseTo(25.48);
+      expect(values[0].close).toBeCloseTo(98);
+      expect(values[3].close).toBe(27);
+      expect(values[0].volume).toBe(10);
+    });
+
+    it('Should compound the adjustments of several actions.', () => {
+      const values = adjustForCorporateActions(quotes, [
+        { date: '2024-01-03', split: 4 },
+        { date: '2024-01-05', dividend: 0.52 },
+      ]);
+
+      expect(values[0].close).toBeCloseTo(24.5);
+      expect(values[2].close).toBeCloseTo(25.48);
+    });
+  });
+});
@@ -0,0 +1,86 @@
+// import '@types/jest';
+import { getAffordableShares, getCommission, getSlippage } from '../src/costs';
+import { Quote } from '../src/quote';
+
+describe('Costs', () => {
+  describe('getCommission', () => {
+    it('Should return 0 without a commission model.', () => {
+      expect(getCommission(undefined, 10, 50)).toBe(0);
+    });
+
+    it('Should charge per share with a minimum.', () => {
+      expect(getCommission({ type: 'per-share', value: 0.01, minimum: 1 }, 500, 50)).toBe(5);
+      expect(getCommission({ type: 'per-share', value: 0.01, minimum: 1 }, 10, 50)).toBe(1);
+    });
+
+    it('Should charge a flat fee per trade.', () => {
+      expect(getCommission({ type: 'per-trade', value: 4.95 }, 10, 50)).toBe(4.95);
+    });
+
+    it('Should charge a percentage of the notional.', () => {
+      expect(getCommission({ type: 'percentage', value: 0.1 }, 10, 50)).toBeCloseTo(0.5);
+    });
+
+    it('Should charge the rate of the tier the notional fits.', () => {
+      const model = {
+        type: 'tiered' as const,
+        tiers: [
+          { upTo: 1000, rate: 0.5 },
+          { upTo: 10000, rate: 0.2 },
+          { rate: 0.1 },
+        ],
+      };
+
+      expect(getCommission(model, 10, 50)).toBeCloseTo(2.5);
+      expect(getCommission(model, 100, 50)).toBeCloseTo(10);
+      expect(getCommission(model, 1000, 50)).toBeCloseTo(50);
+    });
+  });
+
+  describe('getSlippage', () => {
+    const quote = new Quote({ high: 52, low: 48, close: 50, volume: 10000 });
+
+    it('Should return 0 without a slippage model.', () => {
+      expect(getSlippage(undefined, 10, 50, quote)).toBe(0);
+    });
+
+    it('Should slip a fixed number of basis points.', () => {
+      expect(getSlippage({ type: 'bps', value: 10 }, 10, 50, quote)).toBeCloseTo(0.05);
+    });
+
+    it('Should slip a fraction of the high-low range.', () => {
+      expect(getSlippage({ type: 'spread', value: 0.25 }, 10, 50, quote)).toBe(1);
+    });
+
+    it('Should read the range from the given attributes.', () => {
+      const quote2 = new Quote({ h: 51, l: 49, c: 50 });
+
+      expect(
+        getSlippage({ type: 'spread', value: 0.5 }, 10, 50, quote2, { high: 'h', low: 'l' })
+      ).toBe(1);
+    });
+
+    it('Should slip with the square root of the volume participation.', () => {
+      // 1% of 50 times sqrt(100 / 10000)
+      expect(getSlippage({ type: 'volume', value: 1 }, 100, 50, quote)).toBeCloseTo(0.05);
+    });
+
+    it('Should not slip on volume if the quote has no volume.', () => {
+      expect(getSlippage({ type: 'volume', value: 1 }, 100, 50, new Quote(50))).toBe(0);
+    });
+  });
+
+  describe('getAffordableShares', () => {
+    it('Should return the shares if they fit the cash.', () => {
+      expect(getAffordableShares(10, 50, 1000, { type: 'per-trade', value: 5 })).toBe(10);
+    });
+
+    it('Should reduce the shares to leave cash for the commission.', () => {
+      expect(getAffordableShares(20, 50, 1000, { type: 'per-trade', value: 10 })).toBeCloseTo(19.8);
+    });
+
+    it('Should not return negative shares.', () => {
+      expect(getAffordableShares(1, 50, 5, { type: 'per-trade', value: 10 })).toBe(0);
+    });
+  });
+});
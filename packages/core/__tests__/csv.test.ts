@@ -0,0 +1,145 @@
+// import '@types/jest';
+import { CSVValue, Dataset, formatCSV, parseCSV, readCSV } from '../src';
+
+describe('CSV', () => {
+  describe('parseCSV', () => {
+    it('Should read every column under its header name.', () => {
+      const values = parseCSV(
+        'date,open,close,symbol\n2024-01-02,10,11.5,AAPL\n2024-01-03,11.5,12,AAPL\n'
+      );
+
+      expect(values).toStrictEqual([
+        {
+          date: new Date('2024-01-02T00:00:00Z'),
+          open: 10,
+          close: 11.5,
+          symbol: 'AAPL',
+        },
+        {
+          date: new Date('2024-01-03T00:00:00Z'),
+          open: 11.5,
+          close: 12,
+          symbol: 'AAPL',
+        },
+      ]);
+    });
+
+    it('Should map columns by header name or position.', () => {
+      const text = 'Date;Close;Adj Close\n2024-01-02;10;9\n';
+
+      expect(
+        parseCSV(text, {
+          delimiter: ';',
+          columns: { date: 'Date', close: 'Adj Close', raw: 1 },
+        })
+      ).toStrictEqual([
+        { date: new Date('2024-01-02T00:00:00Z'), close: 9, raw: 10 },
+      ]);
+      expect(
+        parseCSV('2024-01-02,10\n', {
+          header: false,
+          columns: { date: 0, close: 1 },
+        })
+      ).toStrictEqual([{ date: new Date('2024-01-02T00:00:00Z'), close: 10 }]);
+    });
+
+    it('Should read quoted fields, CRLF line breaks and blank rows.', () => {
+      const values = parseCSV(
+        '\uFEFFname,note\r\n"Doe, J","said ""hi""\nthen left"\r\n\r\nSmith,\r\n'
+      );
+
+      expect(values).toStrictEqual([
+        { name: 'Doe, J', note: 'said "hi"\nthen left' },
+        { name: 'Smith' },
+      ]);
+    });
+
+    it('Should read dates of a given format and time zone.', () => {
+      const read = (text: string, dateFormat?: string, timezone?: string) =>
+        parseCSV(`date\n${text}\n`, { dateFormat, timezone })[0].date;
+
+      expect(read('02/01/2024 09:30', 'DD/MM/YYYY HH:mm')).toStrictEqual(
+        new Date('2024-01-02T09:30:00Z')
+      );
+      expect(read('2024-01-02 09:30', undefined, '+05:30')).toStrictEqual(
+        new Date('2024-01-02T04:00:00Z')
+      );
+      expect(
+        read('2024-01-02 09:30', undefined, 'America/New_York')
+      ).toStrictEqual(new Date('2024-01-02T14:30:00Z'));
+      expect(
+        read('2024-07-02 09:30', undefined, 'America/New_York')
+      ).toStrictEqual(new Date('2024-07-02T13:30:00Z'));
+      expect(
+        read('2024-01-02T09:30:00+01:00', undefined, 'America/New_York')
+      ).toStrictEqual(new Date('2024-01-02T08:30:00Z'));
+      expect(read('1704153600', 'X')).toStrictEqual(
+        new Date('2024-01-02T00:00:00Z')
+      );
+    });
+
+    it('Should throw on invalid dates, columns and time zones.', () => {
+      expect(() => parseCSV('date\n2024-01-02\nsoon\n')).toThrow(
+        'Invalid date in CSV row 3: soon.'
+      );
+      expect(() =>
+        parseCSV('date\n2024/01/02\n', { dateFormat: 'YYYY-MM-DD' })
+      ).toThrow('Invalid date in CSV row 2: 2024/01/02.');
+      expect(() => parseCSV('date\n', { columns: { close: 'Close' } })).toThrow(
+        'Unknown CSV column: Close.'
+      );
+      expect(() => parseCSV('1,2\n', { header: false })).toThrow(
+        'CSV columns are required without a header.'
+      );
+      expect(() => parseCSV('date\n', { timezone: 'Mars/Olympus' })).toThrow(
+        'Invalid time zone: Mars/Olympus.'
+      );
+    });
+  });
+
+  describe('readCSV', () => {
+    it('Should read rows split across chunks.', async () => {
+      async function* chunks() {
+        yield 'close,no';
+        yield 'te\n10,"a\n';
+        yield new TextEncoder().encode('b"\n11,c');
+      }
+      const values: CSVValue[] = [];
+
+      for await (const value of readCSV(chunks())) {
+        values.push(value);
+      }
+
+      expect(values).toStrictEqual([
+        { close: 10, note: 'a\nb' },
+        { close: 11, note: 'c' },
+      ]);
+    });
+  });
+
+  describe('formatCSV', () => {
+    it('Should write a line for the header and every quote.', () => {
+      const dataset = new Dataset([
+        { date: new Date('2024-01-02T00:00:00Z'), close: 10, note: 'a,b' },
+        { date: new Date('2024-01-03T00:00:00Z'), close: NaN, note: 'c' },
+      ]);
+
+      expect([...formatCSV(dataset)]).toStrictEqual([
+        'date,close,note\n',
+        '2024-01-02T00:00:00.000Z,10,"a,b"\n',
+        '2024-01-03T00:00:00.000Z,,c\n',
+      ]);
+      expect([
+        ...formatCSV(dataset, { columns: ['close'], delimiter: '\t' }),
+      ]).toStrictEqual(['close\n', '10\n', '\n']);
+    });
+
+    it('Should write numeric quotes as a value column.', () => {
+      expect([...formatCSV(new Dataset([1, 2]))]).toStrictEqual([
+        'value\n',
+        '1\n',
+        '2\n',
+      ]);
+    });
+  });
+});
@@ -114,6 +114,35 @@ describe('Dataset', () => {
       expect(dataset.quotes[1].value).toBe(2);
     });
 
+    it('Should throw on out-of-order timestamps, but keep duplicates.', () => {
+      const dataset = new Dataset([{ date: '2024-01-02' }]);
+
+      expect(() => dataset.add(new Quote({ date: '2024-01-01' }))).toThrow(
+        'Out-of-order quote timestamp: 2024-01-01T00:00:00.000Z.'
+      );
+      expect(dataset.length).toBe(1);
+
+      dataset.add(new Quote({ date: '2024-01-02' }));
+      dataset.add(new Quote({ date: '2024-01-03' }));
+
+      expect(dataset.timestamps).toStrictEqual([
+        Date.parse('2024-01-02'),
+        Date.parse('2024-01-02'),
+        Date.parse('2024-01-03'),
+      ]);
+    });
+
+    it('Should extend the time index of a dataset with indicators.', () => {
+      const dataset = new Dataset([{ date: '2024-01-02', close: 1 }]);
+      dataset.apply(new Indicator('close', (ds) => ds.valueAt(-1, 'close')));
+      const { timestamps } = dataset;
+
+      dataset.add(new Quote({ date: '2024-01-03', close: 2 }));
+
+      expect(dataset.timestamps).toBe(timestamps);
+      expect(timestamps).toHaveLength(2);
+    });
+
     it('Should apply an indicator to the new Quote if exists', () => {
       const dataset = new Dataset([1]);
       const sma2 = new Indicator('sma2', sampleIndicatorFn);
@@ -144,6 +173,23 @@ describe('Dataset', () => {
 
       expect(dataset.quotes[1].getStrategy('sample-strategy')?.position.value).toBe('hold');
     });
+
+    it('Should exit the position of the new Quote when its stop-loss is hit', () => {
+      const dataset = new Dataset([100]);
+      dataset.prepare(
+        new Strategy('stop-strategy', {
+          entryWhen: () => true,
+          exitWhen: () => false,
+          stopLoss: { type: 'absolute', value: 5 },
+        })
+      );
+
+      dataset.add(new Quote(94));
+
+      const position = dataset.at(-1)?.getStrategy('stop-strategy')?.position;
+      expect(position?.value).toBe('exit');
+      expect(position?.options?.exitReason).toBe('stopLoss');
+    });
   });
 
   describe('apply', () => {
@@ -217,6 +263,271 @@ describe('Dataset', () => {
     });
   });
 
+  describe('prepare with long and short rules', () => {
+    it('Should reverse positions between the sides.', () => {
+      const dataset = new Dataset([10, 12, 15, 13, 9, 11]);
+      const strategy = new Strategy('long-short', {
+        entryWhen: (quote) => quote.getValue() === 12,
+        exitWhen: () => false,
+        entryShortWhen: (quote) => quote.getValue() === 15,
+        exitShortWhen: (quote) => quote.getValue() === 9,
+      });
+      dataset.prepare(strategy);
+
+      expect(
+        dataset.quotes.map((q) => q.getStrategy('long-short')?.position.value)
+      ).toStrictEqual(['idle', 'entry', 'reverse', 'hold', 'exit', 'idle']);
+      expect(
+        dataset.quotes.map((q) => q.getStrategy('long-short')?.position.side)
+      ).toStrictEqual(['flat', 'long', 'short', 'short', 'flat', 'flat']);
+    });
+
+    it('Should keep reversing when quotes are added.', () => {
+      const dataset = new Dataset([10, 12]);
+      dataset.prepare(
+        new Strategy('long-short', {
+          entryWhen: (quote) => quote.getValue() === 12,
+          exitWhen: () => false,
+          entryShortWhen: (quote) => quote.getValue() === 15,
+          exitShortWhen: () => false,
+        })
+      );
+
+      dataset.add(new Quote(15));
+      dataset.add(new Quote(14));
+
+      expect(dataset.at(-2)?.getStrategy('long-short')?.position.value).toBe('reverse');
+      expect(dataset.at(-1)?.getStrategy('long-short')?.position.value).toBe('hold');
+      expect(dataset.at(-1)?.getStrategy('long-short')?.position.side).toBe('short');
+    });
+  });
+
+  describe('indexOf', () => {
+    const dataset = new Dataset([
+      { date: '2024-01-02', close: 1 },
+      { date: '2024-01-03', close: 2 },
+      { date: '2024-01-05', close: 3 },
+    ]);
+
+    it('Should find the position of the quote of a date.', () => {
+      expect(dataset.indexOf('2024-01-03')).toBe(1);
+      expect(dataset.indexOf(new Date('2024-01-05'))).toBe(2);
+      expect(dataset.indexOf('2024-01-04')).toBe(-1);
+      expect(dataset.atDate(Date.parse('2024-01-02'))?.value.close).toBe(1);
+      expect(dataset.atDate('2024-01-06')).toBeUndefined();
+    });
+
+    it('Should throw on invalid dates and quotes without a date.', () => {
+      expect(() => dataset.indexOf('soon')).toThrow('Invalid date: soon.');
+      expect(() => new Dataset([1]).indexOf(0)).toThrow(
+        'Quote without a timestamp: 0.'
+      );
+      expect(() =>
+        new Dataset([{ date: '2024-01-03' }, { date: '2024-01-02' }]).indexOf(
+          '2024-01-02'
+        )
+      ).toThrow('Out-of-order quote timestamp: 2024-01-02T00:00:00.000Z.');
+    });
+  });
+
+  describe('between', () => {
+    it('Should copy the quotes between two dates, both included.', () => {
+      const dataset = new Dataset([
+        { date: '2024-01-02', close: 1 },
+        { date: '2024-01-03', close: 2 },
+        { date: '2024-01-05', close: 3 },
+        { date: '2024-01-08', close: 4 },
+      ]);
+
+      expect(
+        dataset.between('2024-01-03', '2024-01-05').flatten('close')
+      ).toStrictEqual([2, 3]);
+      expect(
+        dataset.between('2024-01-04', '2024-01-31').flatten('close')
+      ).toStrictEqual([3, 4]);
+      expect(dataset.between('2024-02-01', '2024-02-02').length).toBe(0);
+    });
+
+    it('Should index quotes by a given date attribute or their own timestamp.', () => {
+      const byDay = new Dataset([{ day: 1000 }, { day: 2000 }, { day: 3000 }], {
+        date: 'day',
+      });
+      const stamped = new Dataset([new Quote(1, 1000), new Quote(2, 2000)]);
+
+      expect(byDay.between(1500, 3000).timestamps).toStrictEqual([2000, 3000]);
+      expect(byDay.quotes[0].timestamp).toBe(1000);
+      expect(stamped.between(2000, 2000).flatten()).toStrictEqual([2]);
+    });
+  });
+
+  describe('clone', () => {
+    it('Should copy the quote values without indicators or strategies.', () => {
+      const dataset = new Dataset([1, 2, 3]);
+      dataset.apply(new Indicator('double', (d) => d.valueAt(-1) * 2));
+
+      const clone = dataset.clone();
+
+      expect(clone.flatten()).toStrictEqual([1, 2, 3]);
+      expect(clone.quotes[0]).not.toBe(dataset.quotes[0]);
+      expect(clone.quotes[0].indicators).toStrictEqual({});
+      expect(clone.indicators).toStrictEqual([]);
+    });
+  });
+
+  describe('slice', () => {
+    it('Should copy the quote values between two positions.', () => {
+      const dataset = new Dataset([1, 2, 3, 4]);
+
+      expect(dataset.slice(1, 3).flatten()).toStrictEqual([2, 3]);
+      expect(dataset.slice(2).flatten()).toStrictEqual([3, 4]);
+      expect(dataset.slice(1, 3).quotes[0]).not.toBe(dataset.quotes[1]);
+    });
+  });
+
+  describe('adjust', () => {
+    it('Should copy the quotes back-adjusted for corporate actions.', () => {
+      const dataset = new Dataset([
+        { date: '2024-01-01', close: 100 },
+        { date: '2024-01-02', close: 25 },
+      ]);
+      const adjusted = dataset.adjust([{ date: '2024-01-02', split: 4 }]);
+
+      expect(adjusted.flatten('close')).toStrictEqual([25, 25]);
+      expect(dataset.flatten('close')).toStrictEqual([100, 25]);
+    });
+
+    it('Should read the prices and dates of mapped attributes.', () => {
+      const dataset = new Dataset([
+        { day: 1000, price: 100 },
+        { day: 2000, price: 50 },
+      ]);
+      const adjusted = dataset.adjust([{ date: 2000, split: 2 }], {
+        close: 'price',
+        date: 'day',
+      });
+
+      expect(adjusted.flatten('price')).toStrictEqual([50, 50]);
+    });
+  });
+
+  describe('resample', () => {
+    it('Should create a dataset of coarser bars.', () => {
+      const dataset = new Dataset(
+        [0, 1, 2, 3].map((minute) => ({ time: minute * 60000, price: minute })),
+        { close: 'price', date: 'time' }
+      );
+      const resampled = dataset.resample({ interval: '2m' });
+
+      expect(resampled.flatten('price')).toStrictEqual([1, 3]);
+      expect(resampled.flatten('high')).toStrictEqual([1, 3]);
+      expect(resampled.timestamps).toStrictEqual([0, 120000]);
+      expect(resampled.attributes).toStrictEqual({ close: 'price', date: 'time' });
+    });
+  });
+
+  describe('validate', () => {
+    it('Should check the quotes with the attributes of the dataset.', () => {
+      const dataset = new Dataset(
+        [
+          { time: 0, price: 10 },
+          { time: 120000, price: -1 },
+        ],
+        { close: 'price', date: 'time' }
+      );
+      const report = dataset.validate({ interval: '1m' });
+
+      expect(
+        report.issues.map((issue) => [issue.type, issue.index, issue.field])
+      ).toStrictEqual([
+        ['gap', 1, undefined],
+        ['negative', 1, 'close'],
+      ]);
+    });
+  });
+
+  describe('repair', () => {
+    it('Should create a dataset of repaired quotes.', () => {
+      const dataset = new Dataset(
+        [
+          { time: 0, price: 10 },
+          { time: 120000, price: -1 },
+        ],
+        { close: 'price', date: 'time' }
+      );
+      const { dataset: repaired, report } = dataset.repair({
+        interval: '1m',
+        policy: { negative: 'clamp', gap: 'forward-fill' },
+      });
+
+      expect(repaired.flatten('price')).toStrictEqual([10, 10, 0]);
+      expect(repaired.flatten('time')).toStrictEqual([0, 60000, 120000]);
+      expect(repaired.attributes).toStrictEqual(dataset.attributes);
+      expect(report.valid).toBe(true);
+      expect(dataset.flatten('price')).toStrictEqual([10, -1]);
+    });
+  });
+
+  describe('fromCSV', () => {
+    it('Should create a quote for every row.', () => {
+      const dataset = Dataset.fromCSV('date,close\n2024-01-02,10\n2024-01-03,11\n');
+
+      expect(dataset.length).toBe(2);
+      expect(dataset.flatten('close')).toStrictEqual([10, 11]);
+      expect(dataset.at(1)?.getTimestamp()).toBe(Date.parse('2024-01-03'));
+    });
+  });
+
+  describe('fromCSVStream', () => {
+    it('Should create a quote for every streamed row.', async () => {
+      async function* chunks() {
+        yield 'close\n1';
+        yield '0\n11\n';
+      }
+      const dataset = await Dataset.fromCSVStream(chunks());
+
+      expect(dataset.flatten('close')).toStrictEqual([10, 11]);
+    });
+
+    it('Should load the rows like fromCSV, even out of order.', async () => {
+      const text = 'date,close\n2024-01-02,10\n2024-01-02,11\n2024-01-01,12\n';
+      async function* chunks() {
+        yield text;
+      }
+      const dataset = await Dataset.fromCSVStream(chunks(), { date: 'date' });
+
+      expect(dataset.quotes).toStrictEqual(
+        Dataset.fromCSV(text, { date: 'date' }).quotes
+      );
+      expect(dataset.validate().counts).toStrictEqual({
+        'out-of-order': 1,
+        duplicate: 1,
+      });
+    });
+  });
+
+  describe('toCSV', () => {
+    it('Should write the indicator values and strategy positions.', () => {
+      const dataset = new Dataset([1, 2]);
+
+      dataset.prepare(sampleStrategy('sample'));
+
+      expect(dataset.toCSV()).toBe('value\n1\n2\n');
+      expect(dataset.toCSV({ indicators: true, strategies: true })).toBe(
+        'value,indicator1,sample.position\n1,5,entry\n2,10,hold\n'
+      );
+    });
+
+    it('Should read back the CSV it writes.', () => {
+      const dataset = new Dataset([
+        { date: new Date('2024-01-02T00:00:00Z'), close: 10, note: 'a "b"' },
+      ]);
+
+      expect(Dataset.fromCSV(dataset.toCSV()).quotes[0].value).toStrictEqual(
+        dataset.quotes[0].value
+      );
+    });
+  });
+
   describe('flatten', () => {
     it('Should flatten the dataset over any attribute.', () => {
       const dataset = new Dataset([
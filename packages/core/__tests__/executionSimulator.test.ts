@@ -0,0 +1,171 @@
+// import '@types/jest';
+import { ExecutionSimulator } from '../src/executionSimulator';
+import { Quote } from '../src/quote';
+
+type Bar = {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+};
+
+const bar = (
+  open: number,
+  high: number,
+  low: number,
+  close: number,
+  volume = 1000
+) => new Quote<Bar>({ open, high, low, close, volume });
+
+describe('ExecutionSimulator', () => {
+  describe('submit', () => {
+    it('Should submit an active order.', () => {
+      const simulator = new ExecutionSimulator<Bar>();
+      const event = simulator.submit('buy', 10, { type: 'market' }, 0);
+
+      expect(event.type).toBe('submitted');
+      expect(event.order.id).toBe(1);
+      expect(simulator.activeOrders).toStrictEqual([event.order]);
+    });
+  });
+
+  describe('cancelAll', () => {
+    it('Should cancel active orders of a given side.', () => {
+      const simulator = new ExecutionSimulator<Bar>();
+      simulator.submit('buy', 10, { type: 'market' }, 0);
+      simulator.submit('sell', 10, { type: 'market' }, 0);
+
+      const events = simulator.cancelAll(1, 'buy');
+
+      expect(events).toHaveLength(1);
+      expect(events[0].type).toBe('cancelled');
+      expect(simulator.activeOrders).toHaveLength(1);
+    });
+  });
+
+  describe('process', () => {
+    it('Should not fill an order on the quote it was submitted on.', () => {
+      const simulator = new ExecutionSimulator<Bar>();
+      simulator.submit('buy', 10, { type: 'market' }, 0);
+
+      expect(simulator.process(bar(10, 11, 9, 10), 0)).toStrictEqual([]);
+    });
+
+    it('Should fill market orders at the open of the next quote.', () => {
+      const simulator = new ExecutionSimulator<Bar>();
+      simulator.submit('buy', 10, { type: 'market' }, 0);
+
+      const [event] = simulator.process(bar(12, 13, 11, 12.5), 1);
+
+      expect(event.type).toBe('filled');
+      expect(event.price).toBe(12);
+      expect(event.shares).toBe(10);
+    });
+
+    it('Should fill market-on-close orders at the close.', () => {
+      const simulator = new ExecutionSimulator<Bar>();
+      simulator.submit('sell', 10, { type: 'market-on-close' }, 0);
+
+      expect(simulator.process(bar(12, 13, 11, 12.5), 1)[0].price).toBe(12.5);
+    });
+
+    it('Should fill limit orders only if the price is touched.', () => {
+      const simulator = new ExecutionSimulator<Bar>();
+      simulator.submit('buy', 10, { type: 'limit', limitPrice: 10 }, 0);
+
+      expect(simulator.process(bar(12, 13, 11, 12), 1)).toStrictEqual([]);
+      expect(simulator.process(bar(11, 12, 9.5, 10), 2)[0].price).toBe(10);
+    });
+
+    it('Should fill limit orders at the open if the quote gaps through the limit.', () => {
+      const simulator = new ExecutionSimulator<Bar>();
+      simulator.submit('sell', 10, { type: 'limit', limitPrice: 10 }, 0);
+
+      expect(simulator.process(bar(11, 12, 10.5, 11), 1)[0].price).toBe(11);
+    });
+
+    it('Should fill stop orders at the stop, or at the open on a gap.', () => {
+      const simulator = new ExecutionSimulator<Bar>();
+      simulator.submit('sell', 10, { type: 'stop', stopPrice: 10 }, 0);
+      simulator.submit('sell', 10, { type: 'stop', stopPrice: 10 }, 1);
+
+      expect(simulator.process(bar(11, 12, 9, 9.5), 1)[0].price).toBe(10);
+      expect(simulator.process(bar(8, 9, 7, 8), 2)[0].price).toBe(8);
+    });
+
+    it('Should trigger stop-limit orders and fill them within the limit.', () => {
+      const simulator = new ExecutionSimulator<Bar>();
+      const { order } = simulator.submit(
+        'buy',
+        10,
+        { type: 'stop-limit', stopPrice: 10, limitPrice: 10.5 },
+        0
+      );
+
+      // Gaps above the limit, triggers but does not fill
+      expect(simulator.process(bar(11, 12, 10.8, 11), 1)).toStrictEqual([]);
+      expect(order.triggered).toBe(true);
+      // Comes back to the limit
+      expect(simulator.process(bar(10.8, 11, 10.2, 10.4), 2)[0].price).toBe(
+        10.5
+      );
+    });
+
+    it('Should partially fill orders by the volume participation.', () => {
+      const simulator = new ExecutionSimulator<Bar>(0.1);
+      const { order } = simulator.submit('buy', 150, { type: 'market' }, 0);
+
+      const [first] = simulator.process(bar(10, 11, 9, 10, 1000), 1);
+      const [second] = simulator.process(bar(10, 11, 9, 10, 1000), 2);
+
+      expect(first.type).toBe('partially-filled');
+      expect(first.shares).toBe(100);
+      expect(second.type).toBe('filled');
+      expect(second.shares).toBe(50);
+      expect(order.status).toBe('filled');
+    });
+
+    it('Should not fill orders on quotes without volume under a participation cap.', () => {
+      const simulator = new ExecutionSimulator<Bar>(0.1);
+      const { order } = simulator.submit('buy', 150, { type: 'market' }, 0);
+
+      expect(simulator.process(bar(10, 11, 9, 10, 0), 1)).toStrictEqual([]);
+      expect(order.status).toBe('pending');
+    });
+
+    it('Should cap fills with the given function.', () => {
+      const simulator = new ExecutionSimulator<Bar>();
+      simulator.submit('buy', 150, { type: 'market' }, 0);
+
+      const [event] = simulator.process(bar(10, 11, 9, 10), 1, () => 20);
+
+      expect(event.type).toBe('partially-filled');
+      expect(event.shares).toBe(20);
+    });
+
+    it('Should expire orders after their last bar.', () => {
+      const simulator = new ExecutionSimulator<Bar>();
+      simulator.submit(
+        'buy',
+        10,
+        { type: 'limit', limitPrice: 5, expiresAfter: 1 },
+        0
+      );
+
+      expect(simulator.process(bar(10, 11, 9, 10), 1)).toStrictEqual([]);
+
+      const [event] = simulator.process(bar(10, 11, 4, 10), 2);
+
+      expect(event.type).toBe('expired');
+      expect(simulator.activeOrders).toHaveLength(0);
+    });
+
+    it('Should use primitive quotes as every price.', () => {
+      const simulator = new ExecutionSimulator();
+      simulator.submit('buy', 10, { type: 'market' }, 0);
+
+      expect(simulator.process(new Quote(42), 1)[0].price).toBe(42);
+    });
+  });
+});
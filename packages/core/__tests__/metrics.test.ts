@@ -0,0 +1,159 @@
+// import '@types/jest';
+import { BacktestReport } from '../src';
+import {
+  covariance,
+  getMaxDrawdown,
+  getMetrics,
+  getProfitFactor,
+  getReturns,
+  getSharpeRatio,
+  getSortinoRatio,
+  getStreaks,
+  mean,
+  standardDeviation,
+} from '../src/metrics';
+import { Quote } from '../src/quote';
+
+describe('metrics', () => {
+  describe('mean', () => {
+    it('Should return the average of the values.', () => {
+      expect(mean([1, 2, 3, 6])).toBe(3);
+      expect(mean([])).toBe(0);
+    });
+  });
+
+  describe('standardDeviation', () => {
+    it('Should return the sample standard deviation.', () => {
+      expect(standardDeviation([2, 4, 4, 4, 5, 5, 7, 9])).toBeCloseTo(2.138, 3);
+      expect(standardDeviation([5])).toBe(0);
+    });
+  });
+
+  describe('covariance', () => {
+    it('Should return the sample covariance of two series.', () => {
+      expect(covariance([1, 2, 3], [2, 4, 6])).toBeCloseTo(2);
+      expect(covariance([1, 2, 3], [3, 2, 1])).toBeCloseTo(-1);
+      expect(covariance([5], [5])).toBe(0);
+    });
+  });
+
+  describe('getReturns', () => {
+    it('Should return the returns between consecutive values.', () => {
+      const returns = getReturns([100, 110, 99]);
+
+      expect(returns[0]).toBeCloseTo(0.1);
+      expect(returns[1]).toBeCloseTo(-0.1);
+    });
+  });
+
+  describe('getSharpeRatio', () => {
+    it('Should annualise the mean excess return over its deviation.', () => {
+      const returns = [0.01, -0.005, 0.02, 0.0];
+      const expected =
+        (mean(returns) / standardDeviation(returns)) * Math.sqrt(252);
+
+      expect(getSharpeRatio(returns)).toBeCloseTo(expected);
+    });
+
+    it('Should subtract the risk-free rate per quote.', () => {
+      const returns = [0.01, -0.005, 0.02, 0.0];
+      const expected =
+        ((mean(returns) - 0.12 / 12) / standardDeviation(returns)) *
+        Math.sqrt(12);
+
+      expect(
+        getSharpeRatio(returns, { riskFreeRate: 12, barsPerYear: 12 })
+      ).toBeCloseTo(expected);
+    });
+
+    it('Should return 0 for constant returns.', () => {
+      expect(getSharpeRatio([0.01, 0.01])).toBe(0);
+    });
+  });
+
+  describe('getSortinoRatio', () => {
+    it('Should only penalise the downside.', () => {
+      const returns = [0.02, -0.01, 0.03, -0.02];
+      const downside = Math.sqrt((0.01 ** 2 + 0.02 ** 2) / 4);
+
+      expect(getSortinoRatio(returns)).toBeCloseTo(
+        (mean(returns) / downside) * Math.sqrt(252)
+      );
+      expect(getSortinoRatio([0.01, 0.02])).toBe(0);
+    });
+  });
+
+  describe('getMaxDrawdown', () => {
+    it('Should return the deepest drawdown and the longest time below a peak.', () => {
+      expect(getMaxDrawdown([100, 120, 90, 100, 130, 117, 130])).toStrictEqual({
+        maxDrawdown: 25,
+        maxDrawdownDuration: 2,
+      });
+    });
+  });
+
+  describe('getStreaks', () => {
+    it('Should count the longest winning and losing streaks.', () => {
+      expect(getStreaks([10, 5, -2, 3, 4, 6, -1, -1])).toStrictEqual({
+        maxConsecutiveWins: 3,
+        maxConsecutiveLosses: 2,
+      });
+    });
+  });
+
+  describe('getProfitFactor', () => {
+    it('Should divide the gross profit by the gross loss.', () => {
+      expect(getProfitFactor(300, 100)).toBe(3);
+      expect(getProfitFactor(300, 0)).toBe(Infinity);
+      expect(getProfitFactor(0, 0)).toBe(0);
+    });
+  });
+
+  describe('getMetrics', () => {
+    const report = new BacktestReport(100, { barsPerYear: 4 });
+
+    report.markToMarket(new Quote(1), 1);
+    report.markEntry(10, new Quote(10), 10);
+    report.markToMarket(new Quote(11), 11);
+    report.markToMarket(new Quote(9), 9);
+    report.markExit(12, new Quote(12));
+    report.markToMarket(new Quote(12), 12);
+
+    it('Should calculate the metrics of a back-test.', () => {
+      const metrics = getMetrics(100, report.equityCurve, [20], {
+        barsPerYear: 4,
+      });
+
+      // A year of quotes growing the equity from 100 to 120
+      expect(metrics.cagr).toBeCloseTo(20);
+      expect(metrics.maxDrawdown).toBeCloseTo((20 * 100) / 110);
+      expect(metrics.maxDrawdownDuration).toBe(1);
+      expect(metrics.calmar).toBeCloseTo(20 / ((20 * 100) / 110));
+      expect(metrics.timeInMarket).toBe(50);
+      expect(metrics.expectancy).toBe(20);
+      expect(metrics.largestWin).toBe(20);
+      expect(metrics.largestLoss).toBe(0);
+      expect(metrics.profitFactor).toBe(Infinity);
+      expect(metrics.ulcerIndex).toBeCloseTo(
+        Math.sqrt(((20 * 100) / 110) ** 2 / 4)
+      );
+    });
+
+    it('Should be available on the report.', () => {
+      expect(report.tradeResults).toStrictEqual([20]);
+      expect(report.metrics).toStrictEqual(
+        getMetrics(100, report.equityCurve, [20], { barsPerYear: 4 })
+      );
+    });
+
+    it('Should return neutral metrics without quotes or trades.', () => {
+      const metrics = new BacktestReport(100).metrics;
+
+      expect(metrics.cagr).toBe(0);
+      expect(metrics.sharpe).toBe(0);
+      expect(metrics.maxDrawdown).toBe(0);
+      expect(metrics.profitFactor).toBe(0);
+      expect(metrics.timeInMarket).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,142 @@
+// import '@types/jest';
+import { BacktestReport } from '../src';
+import { createRandom, getPercentile, runMonteCarlo } from '../src/monteCarlo';
+import { Quote } from '../src/quote';
+
+// One round trip per pair of prices, fully invested
+const createReport = (trades: [number, number][]) => {
+  const report = new BacktestReport(100);
+
+  trades.forEach(([entry, exit]) => {
+    report.markEntry(entry, new Quote(entry), report.finalCapital / entry);
+    report.markToMarket(new Quote(entry), entry);
+    report.markExit(exit, new Quote(exit));
+    report.markToMarket(new Quote(exit), exit);
+  });
+
+  return report;
+};
+
+describe('monteCarlo', () => {
+  const report = createReport([
+    [10, 11],
+    [10, 9],
+    [10, 12],
+    [10, 8],
+    [10, 10.5],
+  ]);
+
+  describe('createRandom', () => {
+    it('Should repeat the same numbers for the same seed.', () => {
+      const a = createRandom(42);
+      const b = createRandom(42);
+      const numbers = [a(), a(), a()];
+
+      expect([b(), b(), b()]).toStrictEqual(numbers);
+      expect(numbers.every((n) => n >= 0 && n < 1)).toBe(true);
+      expect(createRandom(7)()).not.toBe(numbers[0]);
+    });
+  });
+
+  describe('getPercentile', () => {
+    it('Should interpolate between the closest ranks.', () => {
+      expect(getPercentile([1, 2, 3, 4, 5], 50)).toBe(3);
+      expect(getPercentile([1, 2, 3, 4], 50)).toBe(2.5);
+      expect(getPercentile([1, 2, 3, 4], 0)).toBe(1);
+      expect(getPercentile([1, 2, 3, 4], 100)).toBe(4);
+      expect(getPercentile([], 50)).toBeNaN();
+    });
+  });
+
+  describe('runMonteCarlo', () => {
+    it('Should end every shuffled path at the final equity of the back-test.', () => {
+      const result = runMonteCarlo(report, { iterations: 200 });
+
+      expect(result.method).toBe('shuffle');
+      expect(result.iterations).toBe(200);
+      expect(result.finalEquity.values).toHaveLength(200);
+      expect(result.finalEquity.min).toBeCloseTo(report.finalCapital);
+      expect(result.finalEquity.max).toBeCloseTo(report.finalCapital);
+      // The order of the trades changes the drawdown
+      expect(result.maxDrawdown.min).toBeLessThan(result.maxDrawdown.max);
+      expect(result.maxDrawdown.max).toBeCloseTo((1 - 0.9 * 0.8) * 100);
+    });
+
+    it('Should report sorted values and the requested percentiles.', () => {
+      const result = runMonteCarlo(report, {
+        method: 'bootstrap',
+        iterations: 500,
+        percentiles: [10, 50, 90],
+      });
+      const { values, percentiles } = result.finalEquity;
+
+      expect(values).toStrictEqual([...values].sort((a, b) => a - b));
+      expect(Object.keys(percentiles)).toStrictEqual(['10', '50', '90']);
+      expect(percentiles[10]).toBeLessThanOrEqual(percentiles[50]);
+      expect(percentiles[50]).toBeLessThanOrEqual(percentiles[90]);
+      expect(result.finalEquity.min).toBeLessThan(result.finalEquity.max);
+    });
+
+    it('Should give the same distributions for the same seed.', () => {
+      const a = runMonteCarlo(report, { method: 'bootstrap', seed: 3 });
+      const b = runMonteCarlo(report, { method: 'bootstrap', seed: 3 });
+      const c = runMonteCarlo(report, { method: 'bootstrap', seed: 4 });
+
+      expect(a).toStrictEqual(b);
+      expect(a.finalEquity.values).not.toStrictEqual(c.finalEquity.values);
+    });
+
+    it('Should resample blocks of the equity curve returns.', () => {
+      const result = runMonteCarlo(report, {
+        method: 'block',
+        blockSize: 10,
+        iterations: 50,
+      });
+
+      // A block as long as the curve can only replay the back-test
+      expect(result.finalEquity.mean).toBeCloseTo(report.finalCapital);
+      expect(result.maxDrawdown.mean).toBeCloseTo(report.metrics.maxDrawdown);
+    });
+
+    it('Should annualise the growth rate over the quotes of the back-test.', () => {
+      const result = runMonteCarlo(report, {
+        iterations: 10,
+        metrics: { barsPerYear: 10 },
+      });
+
+      expect(result.cagr.mean).toBeCloseTo(report.finalCapital - 100);
+    });
+
+    it('Should count the paths falling to the equity floor as ruined.', () => {
+      expect(runMonteCarlo(report).probabilityOfRuin).toBe(0);
+      expect(
+        runMonteCarlo(report, { ruinEquity: 1000 }).probabilityOfRuin
+      ).toBe(100);
+      expect(
+        runMonteCarlo(report, { method: 'bootstrap', ruinEquity: 80 })
+          .probabilityOfRuin
+      ).toBeGreaterThan(0);
+    });
+
+    it('Should ruin the paths losing half of the initial capital by default.', () => {
+      const losing = createReport([
+        [10, 4],
+        [10, 12],
+      ]);
+
+      expect(runMonteCarlo(losing).probabilityOfRuin).toBe(100);
+      expect(runMonteCarlo(losing, { ruinEquity: 30 }).probabilityOfRuin).toBe(
+        0
+      );
+    });
+
+    it('Should throw for invalid options.', () => {
+      expect(() => runMonteCarlo(report, { iterations: 0 })).toThrow(
+        'Invalid number of iterations: 0.'
+      );
+      expect(() =>
+        runMonteCarlo(report, { method: 'block', blockSize: 0 })
+      ).toThrow('Invalid block size: 0.');
+    });
+  });
+});
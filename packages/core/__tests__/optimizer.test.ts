@@ -0,0 +1,169 @@
+// import '@types/jest';
+import { Dataset, Strategy } from '../src';
+import { Optimizer, getParameterValues } from '../src/optimizer';
+
+type Thresholds = { buyBelow: number; sellAbove: number };
+
+describe('Optimizer', () => {
+  const data = [20, 25, 22, 28, 35, 30, 25, 18, 15, 24, 32, 26];
+  const runner = {
+    config: { capital: 100 },
+    onEntry: (quote) => quote.value * 1,
+    onExit: (quote) => quote.value * 1,
+  };
+  const factory = ({ buyBelow, sellAbove }: Thresholds) =>
+    new Strategy('thresholds', {
+      entryWhen: (quote) => quote.getValue() < buyBelow,
+      exitWhen: (quote) => quote.getValue() > sellAbove,
+    });
+  const optimizer = new Optimizer<Thresholds>(factory, {
+    space: {
+      buyBelow: { from: 16, to: 24, step: 4 },
+      sellAbove: [25, 30],
+    },
+    constraints: [(p) => p.buyBelow < p.sellAbove],
+    objective: (report) => report.returnsPercentage,
+  });
+
+  describe('getParameterValues', () => {
+    it('Should step through a range including both ends.', () => {
+      expect(getParameterValues({ from: 5, to: 20, step: 5 })).toStrictEqual([
+        5, 10, 15, 20,
+      ]);
+      expect(
+        getParameterValues({ from: 0.1, to: 0.3, step: 0.1 })
+      ).toStrictEqual([0.1, 0.2, 0.3]);
+      expect(getParameterValues({ from: 1, to: 3 })).toStrictEqual([1, 2, 3]);
+    });
+
+    it('Should keep categorical choices.', () => {
+      expect(getParameterValues(['close', 'open'])).toStrictEqual([
+        'close',
+        'open',
+      ]);
+    });
+
+    it('Should throw for invalid ranges.', () => {
+      expect(() => getParameterValues({ from: 1, to: 3, step: 0 })).toThrow(
+        'Invalid parameter range: 1 to 3 by 0.'
+      );
+      expect(() => getParameterValues({ from: 3, to: 1 })).toThrow(
+        'Invalid parameter range: 3 to 1 by 1.'
+      );
+    });
+  });
+
+  describe('getParameterSets', () => {
+    it('Should combine every value that meets the constraints.', () => {
+      const sets = new Optimizer<Thresholds>(factory, {
+        space: {
+          buyBelow: { from: 20, to: 30, step: 5 },
+          sellAbove: [25, 30],
+        },
+        constraints: [(p) => p.buyBelow < p.sellAbove],
+      }).getParameterSets();
+
+      expect(sets).toStrictEqual([
+        { buyBelow: 20, sellAbove: 25 },
+        { buyBelow: 20, sellAbove: 30 },
+        { buyBelow: 25, sellAbove: 30 },
+      ]);
+    });
+  });
+
+  describe('run', () => {
+    it('Should rank the back-tests of every parameter set by the objective.', () => {
+      const dataset = new Dataset(data);
+      const report = optimizer.run(dataset, runner);
+
+      expect(report.results).toHaveLength(6);
+      expect(report.results.map((r) => r.rank)).toStrictEqual([
+        1, 2, 3, 4, 5, 6,
+      ]);
+      report.results.slice(1).forEach((result, i) => {
+        expect(result.score).toBeLessThanOrEqual(report.results[i].score);
+        expect(result.score).toBe(result.report.returnsPercentage);
+      });
+      expect(report.best).toBe(report.results[0]);
+      // Back-tests run over copies of the dataset
+      expect(dataset.strategies).toStrictEqual([]);
+      expect(dataset.quotes[0].strategies).toStrictEqual({});
+    });
+
+    it('Should match a single back-test of the best parameters.', () => {
+      const { best } = optimizer.run(new Dataset(data), runner);
+      const single = factory(best.parameters).backtest(
+        new Dataset(data),
+        runner
+      );
+
+      expect(best.score).toBe(single.returnsPercentage);
+    });
+
+    it('Should rank lower scores first when minimizing a metric.', () => {
+      const report = new Optimizer<Thresholds>(factory, {
+        ...optimizer.options,
+        objective: 'maxDrawdown',
+        minimize: true,
+      }).run(new Dataset(data), runner);
+
+      report.results.slice(1).forEach((result, i) => {
+        expect(result.score).toBeGreaterThanOrEqual(report.results[i].score);
+        expect(result.score).toBe(result.report.metrics.maxDrawdown);
+      });
+    });
+  });
+
+  describe('OptimizationReport', () => {
+    const report = optimizer.run(new Dataset(data), runner);
+
+    it('Should flatten the results into rows.', () => {
+      const [row] = report.toRows();
+
+      expect(row).toMatchObject({
+        rank: 1,
+        score: report.best.score,
+        ...report.best.parameters,
+        returnsPercentage: report.best.report.returnsPercentage,
+        numberOfTrades: report.best.report.numberOfTrades,
+        sharpe: report.best.report.metrics.sharpe,
+      });
+      expect(JSON.parse(JSON.stringify(report.toRows()))).toHaveLength(6);
+    });
+
+    it('Should diagnose the overfitting of the results.', () => {
+      const diagnostics = report.getOverfittingDiagnostics({ blocks: 4 });
+
+      expect(diagnostics.deflatedSharpe.trials).toBe(6);
+      expect(diagnostics.overfitting.combinations).toBe(6);
+    });
+
+    it('Should slice the scores over two parameters.', () => {
+      const heatmap = report.getHeatmap('sellAbove', 'buyBelow');
+      const score = (buyBelow: number, sellAbove: number) =>
+        report.results.find(
+          (r) =>
+            r.parameters.buyBelow === buyBelow &&
+            r.parameters.sellAbove === sellAbove
+        )?.score;
+
+      expect(heatmap.x).toStrictEqual([25, 30]);
+      expect(heatmap.y).toStrictEqual([16, 20, 24]);
+      expect(heatmap.z[1][0]).toBe(score(20, 25));
+      expect(heatmap.z[2][1]).toBe(score(24, 30));
+    });
+
+    it('Should slice at fixed values of other parameters.', () => {
+      const heatmap = report.getHeatmap('buyBelow', 'buyBelow', {
+        sellAbove: 30,
+      });
+
+      expect(heatmap.z[0][0]).toBe(
+        report.results.find(
+          (r) => r.parameters.buyBelow === 16 && r.parameters.sellAbove === 30
+        )?.score
+      );
+      expect(heatmap.z[0][1]).toBeNaN();
+    });
+  });
+});
@@ -0,0 +1,60 @@
+// import '@types/jest';
+import { Order } from '../src/order';
+
+describe('Order', () => {
+  describe('constructor', () => {
+    it('Should create a pending order.', () => {
+      const order = new Order(1, 'buy', 10, { type: 'market' }, 3);
+
+      expect(order.status).toBe('pending');
+      expect(order.submittedAt).toBe(3);
+      expect(order.expiresAt).toBeUndefined();
+      expect(order.remainingShares).toBe(10);
+      expect(order.isActive).toBe(true);
+    });
+
+    it('Should expire after a given number of bars.', () => {
+      const order = new Order(
+        1,
+        'buy',
+        10,
+        { type: 'limit', limitPrice: 5, expiresAfter: 2 },
+        3
+      );
+
+      expect(order.expiresAt).toBe(5);
+    });
+
+    it('Should throw if a limit order has no limit price.', () => {
+      expect(() => new Order(1, 'buy', 10, { type: 'limit' }, 0)).toThrow();
+      expect(
+        () => new Order(1, 'buy', 10, { type: 'stop-limit', stopPrice: 5 }, 0)
+      ).toThrow();
+    });
+
+    it('Should throw if a stop order has no stop price.', () => {
+      expect(() => new Order(1, 'sell', 10, { type: 'stop' }, 0)).toThrow();
+      expect(
+        () => new Order(1, 'sell', 10, { type: 'stop-limit', limitPrice: 5 }, 0)
+      ).toThrow();
+    });
+  });
+
+  describe('isActive', () => {
+    it('Should not be active once filled, cancelled or expired.', () => {
+      const order = new Order(1, 'buy', 10, { type: 'market' }, 0);
+
+      order.status = 'partially-filled';
+      expect(order.isActive).toBe(true);
+
+      order.status = 'filled';
+      expect(order.isActive).toBe(false);
+
+      order.status = 'cancelled';
+      expect(order.isActive).toBe(false);
+
+      order.status = 'expired';
+      expect(order.isActive).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,136 @@
+// import '@types/jest';
+import { BacktestReport } from '../src';
+import { createRandom } from '../src/monteCarlo';
+import {
+  getBacktestOverfitting,
+  getDeflatedSharpeRatio,
+  getOverfittingDiagnostics,
+  inverseNormalCdf,
+  normalCdf,
+} from '../src/overfitting';
+import { Quote } from '../src/quote';
+
+// Report whose equity compounds the given per-quote returns
+const createReport = (returns: number[]) => {
+  const report = new BacktestReport(100);
+  let equity = 100;
+
+  returns.forEach((r) => {
+    equity *= 1 + r;
+    report.finalCapital = equity;
+    report.markToMarket(new Quote(equity), equity);
+  });
+
+  return report;
+};
+
+const createTrials = (count: number, drift: (trial: number) => number) => {
+  const random = createRandom(11);
+
+  return Array.from({ length: count }, (_, trial) =>
+    createReport(
+      Array.from(
+        { length: 160 },
+        () => drift(trial) + (random() + random() + random() - 1.5) / 50
+      )
+    )
+  );
+};
+
+describe('overfitting', () => {
+  describe('normalCdf', () => {
+    it('Should return the standard normal probabilities.', () => {
+      expect(normalCdf(0)).toBeCloseTo(0.5);
+      expect(normalCdf(1.96)).toBeCloseTo(0.975, 4);
+      expect(normalCdf(-1.96)).toBeCloseTo(0.025, 4);
+    });
+  });
+
+  describe('inverseNormalCdf', () => {
+    it('Should invert the standard normal probabilities.', () => {
+      expect(inverseNormalCdf(0.5)).toBeCloseTo(0);
+      expect(inverseNormalCdf(0.975)).toBeCloseTo(1.96, 2);
+      expect(inverseNormalCdf(0.01)).toBeCloseTo(-2.326, 3);
+      expect(inverseNormalCdf(0)).toBe(-Infinity);
+      expect(inverseNormalCdf(1)).toBe(Infinity);
+    });
+  });
+
+  describe('getDeflatedSharpeRatio', () => {
+    it('Should not deflate a single trial.', () => {
+      const [report] = createTrials(1, () => 0.002);
+      const deflated = getDeflatedSharpeRatio([report]);
+
+      expect(deflated.trials).toBe(1);
+      expect(deflated.expectedMaxSharpe).toBe(0);
+      expect(deflated.sharpe).toBeCloseTo(report.metrics.sharpe);
+      expect(deflated.probability).toBeGreaterThan(0.5);
+    });
+
+    it('Should deflate the best Sharpe ratio of many trials.', () => {
+      const trials = createTrials(20, () => 0);
+      const deflated = getDeflatedSharpeRatio(trials);
+      const best = Math.max(...trials.map((r) => r.metrics.sharpe));
+      const [alone] = trials.filter((r) => r.metrics.sharpe === best);
+
+      expect(deflated.trials).toBe(20);
+      expect(deflated.sharpe).toBeCloseTo(best);
+      expect(deflated.expectedMaxSharpe).toBeGreaterThan(0);
+      expect(deflated.probability).toBeLessThan(
+        getDeflatedSharpeRatio([alone]).probability
+      );
+    });
+  });
+
+  describe('getBacktestOverfitting', () => {
+    it('Should rarely overfit when one trial has an edge.', () => {
+      const trials = createTrials(10, (trial) => (trial === 3 ? 0.01 : 0));
+      const overfitting = getBacktestOverfitting(trials, { blocks: 8 });
+
+      expect(overfitting.combinations).toBe(70);
+      expect(overfitting.logits).toHaveLength(70);
+      expect(overfitting.probability).toBe(0);
+      expect(overfitting.degradation.probabilityOfLoss).toBe(0);
+    });
+
+    it('Should often overfit trials without any edge.', () => {
+      const trials = createTrials(10, () => 0);
+      const { probability, degradation } = getBacktestOverfitting(trials);
+
+      expect(probability).toBeGreaterThan(0.2);
+      expect(probability).toBeLessThan(0.8);
+      expect(degradation.outOfSampleSharpe).toBeLessThan(
+        degradation.inSampleSharpe
+      );
+      expect(degradation.probabilityOfLoss).toBeGreaterThan(0);
+    });
+
+    it('Should throw for invalid trials or blocks.', () => {
+      const trials = createTrials(3, () => 0);
+
+      expect(() => getBacktestOverfitting(trials, { blocks: 5 })).toThrow(
+        'Invalid number of blocks: 5.'
+      );
+      expect(() => getBacktestOverfitting(trials.slice(0, 1))).toThrow(
+        'Not enough trials or quotes to cross-validate: 1 trials of 160 quotes.'
+      );
+      expect(() =>
+        getBacktestOverfitting([...trials, createReport([0.01, 0.02])])
+      ).toThrow('Equity curves of different lengths: 2 and 160.');
+    });
+  });
+
+  describe('getOverfittingDiagnostics', () => {
+    it('Should combine the deflated Sharpe ratio and the overfitting.', () => {
+      const trials = createTrials(4, () => 0);
+      const diagnostics = getOverfittingDiagnostics(trials, { blocks: 4 });
+
+      expect(diagnostics.deflatedSharpe).toStrictEqual(
+        getDeflatedSharpeRatio(trials)
+      );
+      expect(diagnostics.overfitting).toStrictEqual(
+        getBacktestOverfitting(trials, { blocks: 4 })
+      );
+    });
+  });
+});
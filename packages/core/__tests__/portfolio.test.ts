@@ -0,0 +1,163 @@
+// import '@types/jest';
+import { Dataset, PortfolioBacktest, PortfolioRunner, Strategy } from '../src';
+
+type Bar = { date: string; close: number };
+
+describe('PortfolioBacktest', () => {
+  const bars = (closes: number[], start = 1) =>
+    new Dataset<Bar>(
+      closes.map((close, i) => ({
+        date: `2024-01-0${start + i}`,
+        close,
+      }))
+    );
+  const strategy = new Strategy<unknown, Bar>('portfolio-strategy', {
+    entryWhen: (quote) => quote.getValue('close') === 10,
+    exitWhen: (quote) => quote.getValue('close') === 12,
+  });
+  const runner: Omit<PortfolioRunner<Bar>, 'config'> = {
+    onEntry: (quote) => quote.value.close,
+    onExit: (quote) => quote.value.close,
+  };
+  const portfolio = () =>
+    new PortfolioBacktest(
+      { A: bars([10, 11, 12, 13]), B: bars([10, 9, 12, 11]) },
+      strategy
+    );
+
+  describe('run', () => {
+    it('Should trade every symbol from the shared cash.', () => {
+      const report = portfolio().run({
+        ...runner,
+        config: { capital: 1000, maxWeight: 50 },
+      });
+
+      expect(
+        report.trades.map((t) => [t.symbol, t.type, t.shares])
+      ).toStrictEqual([
+        ['A', 'entry', 50],
+        ['B', 'entry', 50],
+        ['A', 'exit', 50],
+        ['B', 'exit', 50],
+      ]);
+      expect(report.equityCurve.map((p) => p.equity)).toStrictEqual([
+        1000, 1000, 1200, 1200,
+      ]);
+      expect(report.equityCurve[0].cash).toBe(0);
+      expect(report.equityCurve[0].exposure).toBe(100);
+      expect(report.finalCapital).toBe(1200);
+      expect(report.numberOfTrades).toBe(2);
+      expect(report.long.numberOfWinningTrades).toBe(2);
+      expect(report.tradeResults).toStrictEqual([100, 100]);
+    });
+
+    it('Should break the returns down by symbol.', () => {
+      const report = portfolio().run({
+        ...runner,
+        config: { capital: 1000, maxWeight: 50 },
+      });
+
+      expect(Object.keys(report.symbols)).toStrictEqual(['A', 'B']);
+      expect(report.symbols.A.returns).toBe(100);
+      expect(report.symbols.B.returns).toBe(100);
+      expect(report.symbols.B.equityCurve[1].equity).toBe(950);
+      expect(report.roundTrips.map((t) => t.symbol)).toStrictEqual(['A', 'B']);
+    });
+
+    it('Should cap the number of positions held at once.', () => {
+      const report = portfolio().run({
+        ...runner,
+        config: { capital: 1000, maxPositions: 1 },
+      });
+
+      expect(report.symbols.A.trades[0].shares).toBe(100);
+      expect(report.symbols.B.trades).toHaveLength(0);
+      expect(report.finalCapital).toBe(1200);
+    });
+
+    it('Should keep the cash reserve out of the positions.', () => {
+      const report = portfolio().run({
+        ...runner,
+        config: { capital: 1000, cashReserve: 20 },
+      });
+
+      expect(report.symbols.A.trades[0].shares).toBe(80);
+      expect(report.symbols.B.trades).toHaveLength(0);
+      expect(report.equityCurve[0].cash).toBe(200);
+    });
+
+    it('Should align the symbols by date and value them at their last quote.', () => {
+      const report = new PortfolioBacktest(
+        {
+          A: new Dataset<Bar>([
+            { date: '2024-01-01', close: 10 },
+            { date: '2024-01-03', close: 11 },
+          ]),
+          B: bars([11, 10, 12], 2),
+        },
+        () => strategy
+      ).run({ ...runner, config: { capital: 1000, maxWeight: 50 } });
+
+      // A closes at its last quote, then B enters with half of the 1050 equity
+      expect(report.equityCurve).toHaveLength(4);
+      expect(report.equityCurve[1].equity).toBe(1000);
+      expect(report.symbols.A.trades[1].reason).toBe('end');
+      expect(report.roundTrips[0]).toMatchObject({
+        symbol: 'A',
+        entryIndex: 0,
+        exitIndex: 2,
+        barsHeld: 1,
+      });
+      expect(report.roundTrips[1]).toMatchObject({
+        symbol: 'B',
+        entryIndex: 2,
+        exitIndex: 3,
+      });
+      expect(report.symbols.B.trades[0].shares).toBe(52.5);
+      expect(report.finalCapital).toBe(1155);
+    });
+
+    it('Should only trade and mark the dates after the warm-up.', () => {
+      const report = portfolio().run({
+        ...runner,
+        config: { capital: 1000, warmUp: 1 },
+      });
+
+      expect(report.equityCurve).toHaveLength(3);
+      expect(report.equityCurve[0].index).toBe(0);
+      expect(report.symbols.A.equityCurve[0].index).toBe(0);
+      expect(report.trades).toHaveLength(0);
+    });
+
+    it('Should throw for quotes without a date or invalid constraints.', () => {
+      expect(() =>
+        new PortfolioBacktest(
+          { A: new Dataset([1, 2]) },
+          new Strategy('s', {
+            entryWhen: () => false,
+            exitWhen: () => false,
+          })
+        ).run({
+          config: { capital: 1000 },
+          onEntry: (quote) => quote.value,
+          onExit: (quote) => quote.value,
+        })
+      ).toThrow('Quote without a date in the dataset of A: 0.');
+      expect(() =>
+        portfolio().run({
+          ...runner,
+          config: { capital: 1000, maxPositions: 0 },
+        })
+      ).toThrow('Invalid maximum number of positions: 0.');
+      expect(() =>
+        portfolio().run({ ...runner, config: { capital: 1000, maxWeight: 0 } })
+      ).toThrow('Invalid maximum weight: 0.');
+      expect(() =>
+        portfolio().run({
+          ...runner,
+          config: { capital: 1000, cashReserve: 100 },
+        })
+      ).toThrow('Invalid cash reserve: 100.');
+    });
+  });
+});
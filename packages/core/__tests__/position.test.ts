@@ -1,5 +1,5 @@
 // import '@types/jest';
-import { TradePosition } from '../src/position';
+import { TradePosition, getTrailingStop } from '../src/position';
 
 describe('Position', () => {
   describe('constructor', () => {
@@ -153,6 +153,115 @@ describe('Position', () => {
         });
       });
 
+      describe('if the new position is reverse', () => {
+        it('and current position is open', () => {
+          expect(
+            TradePosition.update(
+              new TradePosition('entry'),
+              new TradePosition('reverse')
+            ).value
+          ).toBe('reverse');
+          expect(
+            TradePosition.update(
+              new TradePosition('hold'),
+              new TradePosition('reverse')
+            ).value
+          ).toBe('reverse');
+        });
+
+        it('and current position is flat', () => {
+          expect(
+            TradePosition.update(
+              new TradePosition('idle'),
+              new TradePosition('reverse')
+            ).value
+          ).toBe('entry');
+          expect(
+            TradePosition.update(
+              new TradePosition('exit'),
+              new TradePosition('reverse')
+            ).value
+          ).toBe('entry');
+        });
+      });
+
+      describe('if current position is reverse', () => {
+        it('Should hold the new side or exit it.', () => {
+          expect(
+            TradePosition.update(
+              new TradePosition('reverse'),
+              new TradePosition('idle')
+            ).value
+          ).toBe('hold');
+          expect(
+            TradePosition.update(
+              new TradePosition('reverse'),
+              new TradePosition('exit')
+            ).value
+          ).toBe('exit');
+          expect(
+            TradePosition.update(
+              new TradePosition('reverse'),
+              new TradePosition('reverse')
+            ).value
+          ).toBe('reverse');
+        });
+      });
+
+      describe('if the new position is scaled', () => {
+        it('and current position is open', () => {
+          ['entry', 'hold', 'reverse', 'scale-in', 'scale-out'].forEach(
+            (value) => {
+              const current = new TradePosition(value as 'entry');
+
+              expect(
+                TradePosition.update(current, new TradePosition('scale-in'))
+                  .value
+              ).toBe('scale-in');
+              expect(
+                TradePosition.update(current, new TradePosition('scale-out'))
+                  .value
+              ).toBe('scale-out');
+            }
+          );
+        });
+
+        it('and current position is flat', () => {
+          ['idle', 'exit'].forEach((value) => {
+            const current = new TradePosition(value as 'idle');
+
+            expect(
+              TradePosition.update(current, new TradePosition('scale-in')).value
+            ).toBe('idle');
+            expect(
+              TradePosition.update(current, new TradePosition('scale-out'))
+                .value
+            ).toBe('idle');
+          });
+        });
+      });
+
+      describe('if current position is scaled', () => {
+        it('Should hold the position or exit it.', () => {
+          expect(
+            TradePosition.update(
+              new TradePosition('scale-in'),
+              new TradePosition('idle')
+            ).value
+          ).toBe('hold');
+          expect(
+            TradePosition.update(
+              new TradePosition('scale-out'),
+              new TradePosition('exit')
+            ).value
+          ).toBe('exit');
+          expect(new TradePosition('scale-out').isOpen).toBe(true);
+          expect(new TradePosition('scale-in', { short: true }).side).toBe(
+            'short'
+          );
+        });
+      });
+
       describe('options', () => {
         it('it retains old position options', () => {
           const updatedPosition = TradePosition.update<{ stoploss?: number }>(
@@ -180,4 +289,171 @@ describe('Position', () => {
       });
     });
   });
+
+  describe('side', () => {
+    it('Should be flat if the position is not open.', () => {
+      expect(new TradePosition('idle').side).toBe('flat');
+      expect(new TradePosition('exit', { short: true }).side).toBe('flat');
+    });
+
+    it('Should return the side of an open position.', () => {
+      expect(new TradePosition('entry').side).toBe('long');
+      expect(new TradePosition('hold', { short: true }).side).toBe('short');
+      expect(new TradePosition('reverse', { short: true }).side).toBe('short');
+    });
+  });
+
+  describe('shouldStopOut', () => {
+    it('Should return true if price is at or below the stop-loss for long positions.', () => {
+      const position = new TradePosition('hold', { stopLoss: 95 });
+
+      expect(position.shouldStopOut(96)).toBe(false);
+      expect(position.shouldStopOut(95)).toBe(true);
+      expect(position.shouldStopOut(90)).toBe(true);
+    });
+
+    it('Should return true if price is at or above the stop-loss for short positions.', () => {
+      const position = new TradePosition('hold', {
+        short: true,
+        stopLoss: 105,
+      });
+
+      expect(position.shouldStopOut(104)).toBe(false);
+      expect(position.shouldStopOut(105)).toBe(true);
+    });
+
+    it('Should return false if no stop-loss is set.', () => {
+      expect(new TradePosition('hold').shouldStopOut(0)).toBe(false);
+    });
+  });
+
+  describe('shouldTakeProfit', () => {
+    it('Should return true if price is at or above the take-profit for long positions.', () => {
+      const position = new TradePosition('hold', { takeProfit: 110 });
+
+      expect(position.shouldTakeProfit(109)).toBe(false);
+      expect(position.shouldTakeProfit(110)).toBe(true);
+    });
+
+    it('Should return true if price is at or below the take-profit for short positions.', () => {
+      const position = new TradePosition('hold', {
+        short: true,
+        takeProfit: 90,
+      });
+
+      expect(position.shouldTakeProfit(91)).toBe(false);
+      expect(position.shouldTakeProfit(90)).toBe(true);
+    });
+
+    it('Should return false if no take-profit is set.', () => {
+      expect(new TradePosition('hold').shouldTakeProfit(1000)).toBe(false);
+    });
+  });
+
+  describe('shouldTrailOut', () => {
+    it('Should return true if price is at or below the trailing stop for long positions.', () => {
+      const position = new TradePosition('hold', { trailingStop: 95 });
+
+      expect(position.shouldTrailOut(96)).toBe(false);
+      expect(position.shouldTrailOut(95)).toBe(true);
+    });
+
+    it('Should return true if price is at or above the trailing stop for short positions.', () => {
+      const position = new TradePosition('hold', {
+        short: true,
+        trailingStop: 105,
+      });
+
+      expect(position.shouldTrailOut(104)).toBe(false);
+      expect(position.shouldTrailOut(106)).toBe(true);
+    });
+  });
+
+  describe('getTrailingStop', () => {
+    it('Should trail a percentage below the high-water mark.', () => {
+      const entry = getTrailingStop(
+        { type: 'percentage', value: 10 },
+        undefined,
+        100,
+        100,
+        {}
+      );
+      const next = getTrailingStop(
+        { type: 'percentage', value: 10 },
+        entry,
+        120,
+        110,
+        {}
+      );
+
+      expect(entry).toStrictEqual({
+        highWaterMark: 100,
+        trailingStop: 90,
+        accelerationFactor: undefined,
+      });
+      expect(next.highWaterMark).toBe(120);
+      expect(next.trailingStop).toBe(108);
+    });
+
+    it('Should never move the trailing stop against the position.', () => {
+      const state = getTrailingStop(
+        { type: 'chandelier', value: 2, indicator: 'atr' },
+        { highWaterMark: 120, trailingStop: 110 },
+        115,
+        112,
+        { atr: 8 }
+      );
+
+      expect(state.highWaterMark).toBe(120);
+      expect(state.trailingStop).toBe(110);
+    });
+
+    it('Should trail a multiple of ATR below the high-water mark for chandelier exits.', () => {
+      const state = getTrailingStop(
+        { type: 'chandelier', value: 3, indicator: 'atr' },
+        { highWaterMark: 100, trailingStop: 90 },
+        110,
+        105,
+        { atr: 2 }
+      );
+
+      expect(state.trailingStop).toBe(104);
+    });
+
+    it('Should trail above the low-water mark for short positions.', () => {
+      const state = getTrailingStop(
+        { type: 'percentage', value: 10 },
+        { highWaterMark: 100, trailingStop: 110 },
+        80,
+        85,
+        {},
+        true
+      );
+
+      expect(state.highWaterMark).toBe(80);
+      expect(state.trailingStop).toBeCloseTo(88);
+    });
+
+    it('Should accelerate the parabolic trail on every new high-water mark.', () => {
+      const rule = { type: 'parabolic' as const, step: 0.1, max: 0.2 };
+      const entry = getTrailingStop(rule, undefined, 100, 90, {});
+      const first = getTrailingStop(rule, entry, 110, 105, {});
+      const second = getTrailingStop(rule, first, 120, 115, {});
+      const third = getTrailingStop(rule, second, 118, 115, {});
+
+      expect(entry).toStrictEqual({
+        highWaterMark: 100,
+        trailingStop: 90,
+        accelerationFactor: 0.1,
+      });
+      // 90 + 0.2 * (110 - 90)
+      expect(first.trailingStop).toBeCloseTo(94);
+      expect(first.accelerationFactor).toBe(0.2);
+      // Capped at max: 94 + 0.2 * (120 - 94)
+      expect(second.trailingStop).toBeCloseTo(99.2);
+      expect(second.accelerationFactor).toBe(0.2);
+      // No new high: 99.2 + 0.2 * (120 - 99.2)
+      expect(third.trailingStop).toBeCloseTo(103.36);
+    });
+  });
 });
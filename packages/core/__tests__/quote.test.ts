@@ -51,6 +51,47 @@ describe('Quote', () => {
     });
   });
 
+  describe('getTimestamp', () => {
+    it('Should read dates, date strings and timestamps.', () => {
+      const time = Date.UTC(2024, 0, 2);
+
+      expect(new Quote({ date: new Date(time) }).getTimestamp()).toBe(time);
+      expect(new Quote({ date: '2024-01-02T00:00:00Z' }).getTimestamp()).toBe(time);
+      expect(new Quote({ time }).getTimestamp('time')).toBe(time);
+    });
+
+    it('Should prefer the timestamp the quote was created with.', () => {
+      const time = Date.UTC(2024, 0, 2);
+
+      expect(new Quote(5, time).getTimestamp()).toBe(time);
+      expect(new Quote(5, '2024-01-02T00:00:00Z').timestamp).toBe(time);
+      expect(new Quote({ date: '2023-01-01' }, new Date(time)).timestamp).toBe(
+        time
+      );
+      expect(() => new Quote(5, 'soon')).toThrow('Invalid quote timestamp: soon.');
+    });
+
+    it('Should return undefined without a valid date.', () => {
+      expect(new Quote(5).getTimestamp()).toBeUndefined();
+      expect(new Quote({ close: 5 }).getTimestamp()).toBeUndefined();
+      expect(new Quote({ date: 'not a date' }).getTimestamp()).toBeUndefined();
+    });
+  });
+
+  describe('getValue', () => {
+    it('Should return the value of a primitive quote.', () => {
+      expect(new Quote(5).getValue()).toBe(5);
+      expect(new Quote(5).getValue('close')).toBe(5);
+    });
+
+    it('Should return the value of a given attribute for object quotes.', () => {
+      const quote = new Quote({ high: 6, close: 5 });
+
+      expect(quote.getValue('close')).toBe(5);
+      expect(quote.getValue('high')).toBe(6);
+    });
+  });
+
   describe('getIndicator', () => {
     it('Should return an indicator value if exists.', () => {
       const dataset = new Dataset([1, 2]);
@@ -0,0 +1,165 @@
+// import '@types/jest';
+import {
+  Dataset,
+  RebalanceRunner,
+  Rebalancer,
+  RebalancerOptions,
+} from '../src';
+
+type Bar = { date: string; close: number };
+
+describe('Rebalancer', () => {
+  const bars = (closes: number[], dates: string[]) =>
+    new Dataset<Bar>(closes.map((close, i) => ({ date: dates[i], close })));
+  const runner: Omit<RebalanceRunner<Bar>, 'config'> = {
+    onEntry: (quote) => quote.value.close,
+    onExit: (quote) => quote.value.close,
+  };
+  const equalWeights: RebalancerOptions<Bar>['weights'] = () => ({
+    A: 0.5,
+    B: 0.5,
+  });
+  const rebalancer = (
+    a: number[],
+    b: number[],
+    dates: string[],
+    options: Partial<RebalancerOptions<Bar>> = {}
+  ) =>
+    new Rebalancer(
+      { A: bars(a, dates), B: bars(b, dates) },
+      { weights: equalWeights, ...options }
+    );
+
+  describe('run', () => {
+    it('Should rebalance to the target weights every month.', () => {
+      const report = rebalancer(
+        [10, 20, 20, 20],
+        [10, 10, 10, 10],
+        ['2024-01-01', '2024-01-02', '2024-02-01', '2024-02-02']
+      ).run({ ...runner, config: { capital: 1000 } });
+
+      expect(report.rebalances.map((r) => r.index)).toStrictEqual([0, 2]);
+      expect(
+        report.trades.map((t) => [t.symbol, t.type, t.shares])
+      ).toStrictEqual([
+        ['A', 'entry', 50],
+        ['B', 'entry', 50],
+        ['A', 'exit', 12.5],
+        ['B', 'entry', 25],
+        ['A', 'exit', 37.5],
+        ['B', 'exit', 75],
+      ]);
+      expect(report.equityCurve.map((p) => p.equity)).toStrictEqual([
+        1000, 1500, 1500, 1500,
+      ]);
+      expect(report.finalCapital).toBe(1500);
+    });
+
+    it('Should track the turnover of every rebalancing.', () => {
+      const report = rebalancer(
+        [10, 20, 20, 20],
+        [10, 10, 10, 10],
+        ['2024-01-01', '2024-01-02', '2024-02-01', '2024-02-02']
+      ).run({ ...runner, config: { capital: 1000 } });
+
+      expect(report.rebalances[0].turnover).toBe(100);
+      expect(report.rebalances[1].turnover).toBeCloseTo(100 / 3);
+      expect(report.rebalances[1].weights).toStrictEqual({ A: 0.5, B: 0.5 });
+      expect(report.turnover).toBeCloseTo(400 / 3);
+    });
+
+    it('Should rebalance on the first date of every week or on every date.', () => {
+      const dates = ['2024-01-01', '2024-01-05', '2024-01-08', '2024-01-09'];
+      const weekly = rebalancer([10, 10, 10, 10], [10, 10, 10, 10], dates, {
+        schedule: { type: 'weekly' },
+      }).run({ ...runner, config: { capital: 1000 } });
+      const daily = rebalancer([10, 10, 10, 10], [10, 10, 10, 10], dates, {
+        schedule: { type: 'daily' },
+      }).run({ ...runner, config: { capital: 1000 } });
+
+      expect(weekly.rebalances.map((r) => r.index)).toStrictEqual([0, 2]);
+      expect(daily.rebalances.map((r) => r.index)).toStrictEqual([0, 1, 2]);
+      expect(daily.rebalances[1].turnover).toBe(0);
+    });
+
+    it('Should rebalance once the weights drift past the threshold.', () => {
+      const report = rebalancer(
+        [10, 20, 21, 21],
+        [10, 10, 10, 10],
+        ['2024-01-01', '2024-01-02', '2024-01-03', '2024-01-04'],
+        { schedule: { type: 'drift', threshold: 0.1 } }
+      ).run({ ...runner, config: { capital: 1000 } });
+
+      expect(report.rebalances.map((r) => r.index)).toStrictEqual([0, 1]);
+      expect(report.symbols.A.openShares).toBe(0);
+      expect(report.symbols.A.trades[1].shares).toBe(12.5);
+    });
+
+    it('Should keep the rest of the weights in cash and sell symbols left out.', () => {
+      const report = rebalancer(
+        [10, 10, 10],
+        [10, 10, 10],
+        ['2024-01-01', '2024-01-02', '2024-01-03'],
+        {
+          schedule: { type: 'daily' },
+          weights: ({ index }): Record<string, number> =>
+            index ? { A: 0.5 } : { A: 0.25, B: 0.25 },
+        }
+      ).run({ ...runner, config: { capital: 1000 } });
+
+      expect(report.equityCurve[0].cash).toBe(500);
+      expect(
+        report.trades.map((t) => [t.symbol, t.type, t.shares, t.reason])
+      ).toStrictEqual([
+        ['A', 'entry', 25, undefined],
+        ['B', 'entry', 25, undefined],
+        ['A', 'entry', 25, undefined],
+        ['B', 'exit', 25, 'rebalance'],
+        ['A', 'exit', 50, 'end'],
+      ]);
+    });
+
+    it('Should pay the costs of every fill from the shared cash.', () => {
+      const report = rebalancer(
+        [10, 10],
+        [10, 10],
+        ['2024-01-01', '2024-01-02'],
+        { weights: () => ({ A: 1 }) }
+      ).run({
+        ...runner,
+        config: {
+          capital: 1000,
+          costs: { commission: { type: 'per-trade', value: 2 } },
+        },
+      });
+
+      expect(report.symbols.A.trades[0].shares).toBeCloseTo(99.8);
+      expect(report.finalCapital).toBeCloseTo(996);
+    });
+
+    it('Should throw on invalid target weights.', () => {
+      const dates = ['2024-01-01', '2024-01-02'];
+      const run = (weights: Record<string, number>) =>
+        rebalancer([10, 10], [10, 10], dates, { weights: () => weights }).run({
+          ...runner,
+          config: { capital: 1000 },
+        });
+
+      expect(() => run({ C: 1 })).toThrow('Unknown symbol: C.');
+      expect(() => run({ A: -0.5 })).toThrow(
+        'Invalid target weight of A: -0.5.'
+      );
+      expect(() => run({ A: 0.6, B: 0.6 })).toThrow(
+        'Target weights add up to more than 1: 1.2.'
+      );
+    });
+
+    it('Should throw on an invalid drift threshold.', () => {
+      expect(() =>
+        rebalancer([10], [10], ['2024-01-01'], {
+          schedule: { type: 'drift', threshold: 0 },
+        })
+      ).toThrow('Invalid drift threshold: 0.');
+    });
+  });
+});
@@ -0,0 +1,197 @@
+// import '@types/jest';
+import { Quote, Resampler, resample } from '../src';
+
+type Bar = {
+  date: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+};
+
+describe('Resampler', () => {
+  const minute = (time: string, close: number, volume = 10): Quote<Bar> =>
+    new Quote({
+      date: `2024-01-02T${time}:00.000Z`,
+      open: close - 1,
+      high: close + 2,
+      low: close - 2,
+      close,
+      volume,
+    });
+
+  describe('resample', () => {
+    it('Should aggregate the prices and volumes of every interval.', () => {
+      const bars = resample(
+        [
+          minute('09:30', 10),
+          minute('09:31', 12, 20),
+          minute('09:32', 11),
+          minute('09:34', 9, 5),
+        ],
+        { interval: '2m' }
+      );
+
+      expect(bars.map((bar) => bar.value)).toStrictEqual([
+        {
+          date: '2024-01-02T09:30:00.000Z',
+          open: 9,
+          high: 14,
+          low: 8,
+          close: 12,
+          volume: 30,
+        },
+        {
+          date: '2024-01-02T09:32:00.000Z',
+          open: 10,
+          high: 13,
+          low: 9,
+          close: 11,
+          volume: 10,
+        },
+        {
+          date: '2024-01-02T09:34:00.000Z',
+          open: 8,
+          high: 11,
+          low: 7,
+          close: 9,
+          volume: 5,
+        },
+      ]);
+      expect(bars[1].timestamp).toBe(Date.parse('2024-01-02T09:32:00Z'));
+    });
+
+    it('Should use the close of quotes without other prices.', () => {
+      const bars = resample(
+        [
+          new Quote({ time: 0, price: 10 }),
+          new Quote({ time: 1000, price: 12 }),
+          new Quote({ time: 2000, price: 8 }),
+        ],
+        { interval: '1m', attributes: { close: 'price', date: 'time' } }
+      );
+
+      expect(bars.map((bar) => bar.value)).toStrictEqual([
+        { time: 0, price: 8, open: 10, high: 12, low: 8 },
+      ]);
+    });
+
+    it('Should start days at the session start of a time zone.', () => {
+      const quote = (date: string, close: number) =>
+        new Quote({ date: new Date(date), close });
+      const bars = resample(
+        [
+          quote('2024-01-02T14:30:00Z', 10),
+          quote('2024-01-02T20:59:00Z', 11),
+          quote('2024-01-03T14:00:00Z', 12),
+          quote('2024-01-03T14:30:00Z', 13),
+        ],
+        { interval: '1d', timezone: 'America/New_York', sessionStart: '09:30' }
+      );
+
+      expect(bars.map((bar) => bar.value.date)).toStrictEqual([
+        new Date('2024-01-02T14:30:00Z'),
+        new Date('2024-01-03T14:30:00Z'),
+      ]);
+      expect(bars.map((bar) => bar.value.close)).toStrictEqual([12, 13]);
+    });
+
+    it('Should start weeks on Monday.', () => {
+      const bars = resample(
+        [
+          new Quote({ date: '2024-01-05', close: 1 }),
+          new Quote({ date: '2024-01-07', close: 2 }),
+          new Quote({ date: '2024-01-08', close: 3 }),
+        ],
+        { interval: '1w' }
+      );
+
+      expect(bars.map((bar) => bar.value)).toStrictEqual([
+        {
+          date: '2024-01-01T00:00:00.000Z',
+          close: 2,
+          open: 1,
+          high: 2,
+          low: 1,
+        },
+        {
+          date: '2024-01-08T00:00:00.000Z',
+          close: 3,
+          open: 3,
+          high: 3,
+          low: 3,
+        },
+      ]);
+    });
+
+    it('Should include the end of right-closed intervals and label bars with it.', () => {
+      const bars = resample(
+        [
+          minute('09:31', 10),
+          minute('09:32', 11),
+          minute('09:33', 12),
+          minute('09:34', 13),
+        ],
+        { interval: '2m', closed: 'right', label: 'end' }
+      );
+
+      expect(
+        bars.map((bar) => [bar.value.date, bar.value.close])
+      ).toStrictEqual([
+        ['2024-01-02T09:32:00.000Z', 11],
+        ['2024-01-02T09:34:00.000Z', 13],
+      ]);
+    });
+  });
+
+  describe('push', () => {
+    it('Should complete a bar once a quote of the next interval arrives.', () => {
+      const resampler = new Resampler<Bar>({ interval: '15m' });
+
+      expect(resampler.push(minute('09:30', 10))).toStrictEqual([]);
+      expect(resampler.push(minute('09:44', 11))).toStrictEqual([]);
+      expect(resampler.current?.value.close).toBe(11);
+
+      const bars = resampler.push(minute('09:45', 12));
+
+      expect(bars).toHaveLength(1);
+      expect(bars[0].value.volume).toBe(20);
+      expect(resampler.current?.value.volume).toBe(10);
+      expect(resampler.flush()[0].value.close).toBe(12);
+      expect(resampler.current).toBeUndefined();
+      expect(resampler.flush()).toStrictEqual([]);
+    });
+
+    it('Should throw on quotes that cannot be resampled.', () => {
+      const resampler = new Resampler<Bar>({ interval: '1h' });
+
+      resampler.push(minute('10:00', 10));
+
+      expect(() => resampler.push(minute('09:59', 10))).toThrow(
+        'Out-of-order quote timestamp: 2024-01-02T09:59:00.000Z.'
+      );
+      expect(() =>
+        new Resampler<number>({ interval: '1h' }).push(new Quote(5, 0))
+      ).toThrow('Invalid quote value to resample: 5.');
+      expect(() =>
+        new Resampler({ interval: '1h' }).push(new Quote({ close: 5 }))
+      ).toThrow('Quote without a timestamp.');
+    });
+
+    it('Should throw on invalid options.', () => {
+      expect(() => new Resampler({ interval: '15 minutes' })).toThrow(
+        'Invalid interval: 15 minutes.'
+      );
+      expect(() => new Resampler({ interval: '0h' })).toThrow(
+        'Invalid interval: 0h.'
+      );
+      expect(
+        () => new Resampler({ interval: '1d', sessionStart: '25:00' })
+      ).toThrow('Invalid session start: 25:00.');
+      expect(
+        () => new Resampler({ interval: '1d', timezone: 'Mars/Olympus' })
+      ).toThrow('Invalid time zone: Mars/Olympus.');
+    });
+  });
+});
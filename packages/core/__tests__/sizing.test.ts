@@ -0,0 +1,100 @@
+// import '@types/jest';
+import { getKellyFraction, getPositionSize, PositionSizingContext } from '../src/sizing';
+
+describe('Sizing', () => {
+  const context: PositionSizingContext = {
+    price: 50,
+    cash: 1000,
+    equity: 1000,
+    indicators: { atr: 2 },
+    stopLoss: 45,
+    winningRate: 0,
+    averageWin: 0,
+    averageLoss: 0,
+    numberOfWinningTrades: 0,
+    numberOfLosingTrades: 0,
+  };
+
+  describe('getKellyFraction', () => {
+    it('Should return the Kelly fraction for a given win rate and payoff.', () => {
+      // 0.6 - 0.4 / 2
+      expect(getKellyFraction(0.6, 200, 100)).toBeCloseTo(0.4);
+    });
+
+    it('Should not return a negative fraction.', () => {
+      expect(getKellyFraction(0.2, 100, 100)).toBe(0);
+    });
+  });
+
+  describe('getPositionSize', () => {
+    it('Should use all available cash if no sizing is given.', () => {
+      expect(getPositionSize(undefined, context)).toBe(20);
+    });
+
+    it('Should return a fixed number of shares.', () => {
+      expect(getPositionSize({ type: 'shares', value: 5 }, context)).toBe(5);
+    });
+
+    it('Should return shares for a fixed cash amount.', () => {
+      expect(getPositionSize({ type: 'cash', value: 250 }, context)).toBe(5);
+    });
+
+    it('Should return shares for a fraction of equity.', () => {
+      expect(getPositionSize({ type: 'fraction', value: 0.5 }, context)).toBe(10);
+    });
+
+    it('Should return shares risking a fraction of equity until the stop-loss.', () => {
+      // 1% of 1000 = 10 risked over a stop distance of 5
+      expect(getPositionSize({ type: 'risk', value: 0.01 }, context)).toBe(2);
+    });
+
+    it('Should return no shares if risk based sizing has no stop-loss.', () => {
+      expect(
+        getPositionSize({ type: 'risk', value: 0.01 }, { ...context, stopLoss: undefined })
+      ).toBe(0);
+    });
+
+    it('Should return no shares if the stop-loss is not known yet.', () => {
+      expect(
+        getPositionSize({ type: 'risk', value: 0.01 }, { ...context, stopLoss: NaN })
+      ).toBe(0);
+    });
+
+    it('Should return shares risking a fraction of equity per ATR.', () => {
+      expect(
+        getPositionSize({ type: 'volatility', value: 0.01, indicator: 'atr' }, context)
+      ).toBe(5);
+    });
+
+    it('Should use the fallback fraction for Kelly sizing without trade history.', () => {
+      expect(getPositionSize({ type: 'kelly', fallback: 0.1 }, context)).toBe(2);
+    });
+
+    it('Should return shares for half Kelly from the running win rate.', () => {
+      const size = getPositionSize(
+        { type: 'kelly', fraction: 0.5 },
+        {
+          ...context,
+          winningRate: 0.6,
+          averageWin: 200,
+          averageLoss: 100,
+          numberOfWinningTrades: 3,
+          numberOfLosingTrades: 2,
+        }
+      );
+
+      // 0.4 * 0.5 of 1000 at 50
+      expect(size).toBeCloseTo(4);
+    });
+
+    it('Should cap the size by the available cash.', () => {
+      expect(getPositionSize({ type: 'shares', value: 100 }, context)).toBe(20);
+    });
+
+    it('Should return 0 if the size can not be calculated.', () => {
+      expect(
+        getPositionSize({ type: 'volatility', value: 0.01, indicator: 'missing' }, context)
+      ).toBe(0);
+    });
+  });
+});
@@ -24,6 +24,66 @@ describe('Strategy', () => {
       (ds: Dataset) => ds.valueAt(-1) + 1
     );
 
+    describe('with long and short rules', () => {
+      const strategy = new Strategy('long-short', {
+        entryWhen: (quote) => quote.getValue() === 12,
+        exitWhen: () => false,
+        entryShortWhen: (quote) => quote.getValue() === 15,
+        exitShortWhen: (quote) => quote.getValue() === 9,
+      });
+
+      it('Should enter either side from a flat position', () => {
+        expect(strategy.apply(new Quote(12)).position.side).toBe('long');
+        expect(strategy.apply(new Quote(15)).position.side).toBe('short');
+        expect(
+          strategy.apply(new Quote(12), new TradePosition('exit', { short: true }))
+            .position.side
+        ).toBe('long');
+      });
+
+      it('Should reverse a long position on the short entry rule', () => {
+        const { position } = strategy.apply(
+          new Quote(15),
+          new TradePosition('hold', { short: false, entryPrice: 12 })
+        );
+
+        expect(position.value).toBe('reverse');
+        expect(position.side).toBe('short');
+        expect(position.options?.entryPrice).toBe(15);
+      });
+
+      it('Should reverse a short position on the long entry rule', () => {
+        const { position } = strategy.apply(
+          new Quote(12),
+          new TradePosition('hold', { short: true, entryPrice: 15 })
+        );
+
+        expect(position.value).toBe('reverse');
+        expect(position.side).toBe('long');
+      });
+
+      it('Should exit a short position on the short exit rule', () => {
+        const { position } = strategy.apply(
+          new Quote(9),
+          new TradePosition('hold', { short: true })
+        );
+
+        expect(position.value).toBe('exit');
+      });
+    });
+
+    it('Should enter a short position for strategies without long rules', () => {
+      const strategy = new Strategy('strategy', {
+        entryShortWhen: () => true,
+        exitShortWhen: () => false,
+      });
+
+      const { position } = strategy.apply(new Quote(10));
+
+      expect(position.value).toBe('entry');
+      expect(position.options?.short).toBe(true);
+    });
+
     it('Should update quote with entry when last-quote position was idle and entryWhen returns true', () => {
       const entryFn = jest.fn();
       const strategy = new Strategy('strategy', {
@@ -70,6 +130,277 @@ describe('Strategy', () => {
 
       expect(strategy.apply(quote)).toStrictEqual(new StrategyValue(new TradePosition('idle', {})))
     });
+
+    describe('stop-loss and take-profit', () => {
+      const strategy = new Strategy('risk-strategy', {
+        entryWhen: () => true,
+        exitWhen: () => false,
+        stopLoss: { type: 'percentage', value: 10 },
+        takeProfit: { type: 'absolute', value: 20 },
+      });
+
+      it('Should set entry price and levels on entry.', () => {
+        const { position } = strategy.apply(new Quote(100));
+
+        expect(position.value).toBe('entry');
+        expect(position.options?.entryPrice).toBe(100);
+        expect(position.options?.stopLoss).toBe(90);
+        expect(position.options?.takeProfit).toBe(120);
+      });
+
+      it('Should not reset levels while the position is open.', () => {
+        const entry = strategy.apply(new Quote(100)).position;
+        const { position } = strategy.apply(new Quote(110), entry);
+
+        expect(position.value).toBe('hold');
+        expect(position.options?.entryPrice).toBe(100);
+      });
+
+      it('Should exit on stop-loss before exitWhen is consulted.', () => {
+        const exitFn = jest.fn().mockReturnValue(true);
+        const strategy2 = new Strategy('risk-strategy', {
+          entryWhen: () => true,
+          exitWhen: exitFn,
+          stopLoss: { type: 'percentage', value: 10 },
+        });
+        const entry = strategy2.apply(new Quote(100)).position;
+        const { position } = strategy2.apply(new Quote(85), entry);
+
+        expect(exitFn).not.toHaveBeenCalled();
+        expect(position.value).toBe('exit');
+        expect(position.options?.exitReason).toBe('stopLoss');
+        expect(position.options?.exitPrice).toBe(85);
+      });
+
+      it('Should exit on take-profit.', () => {
+        const entry = strategy.apply(new Quote(100)).position;
+        const { position } = strategy.apply(new Quote(125), entry);
+
+        expect(position.value).toBe('exit');
+        expect(position.options?.exitReason).toBe('takeProfit');
+        expect(position.options?.exitPrice).toBe(125);
+      });
+
+      it('Should record signal as exit reason when exitWhen closes the trade.', () => {
+        const strategy2 = new Strategy('risk-strategy', {
+          entryWhen: () => false,
+          exitWhen: () => true,
+        });
+        const { position } = strategy2.apply(
+          new Quote(100),
+          new TradePosition('hold', { entryPrice: 100 })
+        );
+
+        expect(position.value).toBe('exit');
+        expect(position.options?.exitReason).toBe('signal');
+      });
+
+      it('Should check intrabar high and low and fill at the level.', () => {
+        const strategy2 = new Strategy<unknown, { high: number; low: number; close: number }>(
+          'ohlc-strategy',
+          {
+            entryWhen: () => true,
+            exitWhen: () => false,
+            stopLoss: { type: 'absolute', value: 5 },
+            attributes: { high: 'high', low: 'low', close: 'close' },
+          }
+        );
+        const entry = strategy2.apply(
+          new Quote({ high: 101, low: 99, close: 100 })
+        ).position;
+        const { position } = strategy2.apply(
+          new Quote({ high: 100, low: 94, close: 98 }),
+          entry
+        );
+
+        expect(position.options?.exitReason).toBe('stopLoss');
+        expect(position.options?.exitPrice).toBe(95);
+      });
+
+      describe('with quotes closing beyond the level', () => {
+        type Bar = { open: number; high: number; low: number; close: number };
+        const strategy2 = new Strategy<unknown, Bar>('ohlc-strategy', {
+          entryWhen: () => true,
+          exitWhen: () => false,
+          stopLoss: { type: 'absolute', value: 5 },
+          takeProfit: { type: 'absolute', value: 5 },
+          attributes: {
+            open: 'open',
+            high: 'high',
+            low: 'low',
+            close: 'close',
+          },
+        });
+        const entry = strategy2.apply(
+          new Quote({ open: 100, high: 101, low: 99, close: 100 })
+        ).position;
+        const exit = (bar: Bar) =>
+          strategy2.apply(new Quote(bar), entry).position;
+
+        it('Should fill stop-losses at the level.', () => {
+          const { options } = exit({ open: 99, high: 100, low: 90, close: 92 });
+
+          expect(options?.exitReason).toBe('stopLoss');
+          expect(options?.exitPrice).toBe(95);
+        });
+
+        it('Should fill take-profits at the level.', () => {
+          const { options } = exit({
+            open: 101,
+            high: 110,
+            low: 100,
+            close: 108,
+          });
+
+          expect(options?.exitReason).toBe('takeProfit');
+          expect(options?.exitPrice).toBe(105);
+        });
+
+        it('Should fill at the open of a quote gapping through the level.', () => {
+          expect(
+            exit({ open: 93, high: 94, low: 90, close: 92 }).options?.exitPrice
+          ).toBe(93);
+          expect(
+            exit({ open: 107, high: 110, low: 106, close: 108 }).options
+              ?.exitPrice
+          ).toBe(107);
+        });
+      });
+
+      it('Should place ATR based levels using the indicator of the entry quote.', () => {
+        const strategy2 = new Strategy('atr-strategy', {
+          entryWhen: () => true,
+          exitWhen: () => false,
+          stopLoss: { type: 'atr', value: 2, indicator: 'atr' },
+        });
+        const quote = new Quote(100).setIndicator('atr', 3);
+
+        expect(strategy2.apply(quote).position.options?.stopLoss).toBe(94);
+      });
+
+      it('Should carry the high-water mark and trailing stop across hold states.', () => {
+        const strategy2 = new Strategy('trailing-strategy', {
+          entryWhen: () => true,
+          exitWhen: () => false,
+          trailingStop: { type: 'percentage', value: 10 },
+        });
+        const entry = strategy2.apply(new Quote(100)).position;
+        const hold = strategy2.apply(new Quote(120), entry).position;
+        const stillHold = strategy2.apply(new Quote(110), hold).position;
+
+        expect(entry.options?.trailingStop).toBe(90);
+        expect(hold.value).toBe('hold');
+        expect(hold.options?.highWaterMark).toBe(120);
+        expect(hold.options?.trailingStop).toBe(108);
+        expect(stillHold.options?.highWaterMark).toBe(120);
+        expect(stillHold.options?.trailingStop).toBe(108);
+
+        const { position } = strategy2.apply(new Quote(107), stillHold);
+
+        expect(position.value).toBe('exit');
+        expect(position.options?.exitReason).toBe('trailingStop');
+        expect(position.options?.exitPrice).toBe(107);
+      });
+
+      it('Should place the levels from another entry price.', () => {
+        const quote = new Quote(100);
+        const entry = strategy.apply(quote).position;
+        const { value, options } = strategy.anchor(entry, 110, quote);
+
+        expect(value).toBe('entry');
+        expect(options?.entryPrice).toBe(110);
+        expect(options?.stopLoss).toBe(99);
+        expect(options?.takeProfit).toBe(130);
+      });
+
+      it('Should place levels above the entry price for short positions.', () => {
+        const shortStrategy = new Strategy('short-strategy', {
+          entryShortWhen: () => true,
+          exitShortWhen: () => false,
+          stopLoss: { type: 'percentage', value: 10 },
+          takeProfit: { type: 'absolute', value: 20 },
+        });
+        const { position } = shortStrategy.apply(
+          new Quote(100),
+          new TradePosition('idle', { short: true })
+        );
+
+        expect(position.options?.stopLoss).toBe(110);
+        expect(position.options?.takeProfit).toBe(80);
+      });
+    });
+  });
+
+  describe('scaling', () => {
+    const strategy = new Strategy('scaling-strategy', {
+      entryWhen: (quote) => quote.getValue() === 100,
+      exitWhen: () => false,
+      scaleInWhen: (quote) => quote.getValue() < 100,
+      scaleOutWhen: (quote, position) =>
+        quote.getValue() > (position.options?.entryPrice ?? Infinity),
+      scaleOutFraction: 0.25,
+      maxTranches: 2,
+      stopLoss: { type: 'percentage', value: 50 },
+    });
+
+    it('Should count the tranches of a scaled in position.', () => {
+      const entry = strategy.apply(new Quote(100)).position;
+      const scaled = strategy.apply(new Quote(90), entry).position;
+      const capped = strategy.apply(new Quote(80), scaled).position;
+
+      expect(entry.options?.tranches).toBe(1);
+      expect(scaled.value).toBe('scale-in');
+      expect(scaled.options?.tranches).toBe(2);
+      // Levels stay at those of the first entry
+      expect(scaled.options?.entryPrice).toBe(100);
+      expect(scaled.options?.stopLoss).toBe(50);
+      expect(capped.value).toBe('hold');
+      expect(capped.options?.tranches).toBe(2);
+    });
+
+    it('Should scale out a fraction of the position.', () => {
+      const entry = strategy.apply(new Quote(100)).position;
+      const { position } = strategy.apply(new Quote(110), entry);
+
+      expect(position.value).toBe('scale-out');
+      expect(position.options?.exitFraction).toBe(0.25);
+      expect(position.options?.scaleOuts).toBe(1);
+    });
+
+    it('Should reset the scaling of a new entry.', () => {
+      const scaled = strategy.apply(
+        new Quote(90),
+        strategy.apply(new Quote(100)).position
+      ).position;
+      const exit = new TradePosition('exit', scaled.options);
+      const { position } = strategy.apply(new Quote(100), exit);
+
+      expect(position.value).toBe('entry');
+      expect(position.options?.tranches).toBe(1);
+      expect(position.options?.scaleOuts).toBe(0);
+    });
+
+    it('Should throw for an invalid scale-out fraction.', () => {
+      expect(
+        () =>
+          new Strategy('invalid', {
+            entryWhen: () => true,
+            exitWhen: () => false,
+            scaleOutFraction: 1.5,
+          })
+      ).toThrow('Invalid scale-out fraction: 1.5.');
+    });
+
+    it('Should throw for a scale-out fraction closing the whole position.', () => {
+      expect(
+        () =>
+          new Strategy('invalid', {
+            entryWhen: () => true,
+            exitWhen: () => false,
+            scaleOutFraction: 1,
+          })
+      ).toThrow('Invalid scale-out fraction: 1.');
+    });
   });
 
   describe('backtest', () => {
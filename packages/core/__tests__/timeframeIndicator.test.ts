@@ -0,0 +1,88 @@
+// import '@types/jest';
+import {
+  Dataset,
+  Indicator,
+  Quote,
+  Strategy,
+  TimeframeIndicator,
+} from '../src';
+
+type Bar = { date: string; close: number };
+
+describe('TimeframeIndicator', () => {
+  const hourly = () =>
+    new Dataset<Bar>([
+      { date: '2024-01-02T10:00:00Z', close: 10 },
+      { date: '2024-01-02T16:00:00Z', close: 12 },
+      { date: '2024-01-03T10:00:00Z', close: 20 },
+      { date: '2024-01-03T16:00:00Z', close: 22 },
+      { date: '2024-01-04T10:00:00Z', close: 30 },
+    ]);
+  const lastClose = () =>
+    new Indicator<unknown, Bar>('close', (ds) => ds.valueAt(-1, 'close'));
+  const dailyClose = () =>
+    new TimeframeIndicator('daily-close', lastClose(), { interval: '1d' });
+
+  describe('spread', () => {
+    it('Should only see the bars completed before every quote.', () => {
+      const dataset = hourly().apply(dailyClose());
+
+      expect(
+        dataset.quotes.map((quote) => quote.getIndicator('daily-close'))
+      ).toStrictEqual([NaN, NaN, 12, 12, 22]);
+    });
+
+    it('Should complete right-closed bars with the quote at their end.', () => {
+      const dataset = new Dataset<Bar>([
+        { date: '2024-01-02T12:00:00Z', close: 10 },
+        { date: '2024-01-03T00:00:00Z', close: 12 },
+        { date: '2024-01-03T12:00:00Z', close: 20 },
+      ]).apply(
+        new TimeframeIndicator('daily-close', lastClose(), {
+          interval: '1d',
+          closed: 'right',
+        })
+      );
+
+      expect(
+        dataset.quotes.map((quote) => quote.getIndicator('daily-close'))
+      ).toStrictEqual([NaN, 12, 12]);
+    });
+  });
+
+  describe('calculate', () => {
+    it('Should calculate the value for quotes added to the dataset.', () => {
+      const dataset = hourly();
+      const indicator = dailyClose();
+
+      dataset.apply(indicator);
+      dataset.add(new Quote({ date: '2024-01-04T16:00:00Z', close: 32 }));
+      dataset.add(new Quote({ date: '2024-01-05T10:00:00Z', close: 40 }));
+
+      expect(dataset.at(-2)?.getIndicator('daily-close')).toBe(22);
+      expect(dataset.at(-1)?.getIndicator('daily-close')).toBe(32);
+      expect(indicator.calculate(hourly().slice(0, 3))).toBe(12);
+      expect(indicator.params).toStrictEqual({ interval: '1d' });
+    });
+  });
+
+  describe('strategy', () => {
+    it('Should let strategies read the value like any indicator.', () => {
+      const dataset = hourly();
+
+      dataset.prepare(
+        new Strategy<unknown, Bar>('daily-trend', {
+          entryWhen: (quote) => (quote.getIndicator('daily-close') ?? 0) > 15,
+          exitWhen: () => false,
+          indicators: [dailyClose()],
+        })
+      );
+
+      expect(
+        dataset.quotes.map(
+          (quote) => quote.getStrategy('daily-trend')?.position.value
+        )
+      ).toStrictEqual(['idle', 'idle', 'idle', 'idle', 'entry']);
+    });
+  });
+});
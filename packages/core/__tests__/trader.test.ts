@@ -1,5 +1,5 @@
 // import '@types/jest';
-import { Dataset, Indicator, Strategy, Trader } from '../src';
+import { Dataset, Indicator, Quote, Strategy, Trader } from '../src';
 
 describe('Trader', () => {
   const dataset = new Dataset([20, 25, 22, 28, 35, 30, 25, 18, 15]);
@@ -35,6 +35,74 @@ describe('Trader', () => {
   });
 
   describe('tick', () => {
+    it('Should reverse the position of a long and short strategy.', async () => {
+      const trader = new Trader(
+        new Dataset([10, 12]),
+        new Strategy('long-short', {
+          entryWhen: (quote) => quote.getValue() === 12,
+          exitWhen: () => false,
+          entryShortWhen: (quote) => quote.getValue() === 15,
+          exitShortWhen: () => false,
+        })
+      );
+
+      const strategyValue = await trader.tick(15);
+
+      expect(strategyValue?.position.value).toBe('reverse');
+      expect(strategyValue?.position.side).toBe('short');
+    });
+
+    it('Should only apply the strategy to completed bars pushed when resampling.', async () => {
+      type Bar = { date: string; close: number };
+      const bars: Quote<Bar>[] = [];
+      const trader = new Trader(
+        new Dataset<Bar>([{ date: '2024-01-02T09:00:00Z', close: 10 }]),
+        new Strategy<unknown, Bar>('breakout', {
+          entryWhen: (quote) => quote.getValue('close') > 10,
+          exitWhen: () => false,
+        }),
+        {
+          resample: { interval: '15m' },
+          onBar: (bar) => bars.push(bar),
+        }
+      );
+
+      expect(
+        await trader.push({ date: '2024-01-02T09:15:00Z', close: 9 })
+      ).toBeUndefined();
+      expect(
+        await trader.push({ date: '2024-01-02T09:29:00Z', close: 12 })
+      ).toBeUndefined();
+
+      const strategyValue = await trader.push({
+        date: '2024-01-02T09:30:00Z',
+        close: 8,
+      });
+
+      expect(strategyValue?.position.value).toBe('entry');
+      expect(bars.map((bar) => bar.value)).toStrictEqual([
+        {
+          date: '2024-01-02T09:15:00.000Z',
+          close: 12,
+          open: 9,
+          high: 12,
+          low: 9,
+        },
+      ]);
+      expect(trader.dataset.length).toBe(2);
+      expect((await trader.flush())?.position.value).toBe('hold');
+      expect(trader.dataset.at(-1)?.value.close).toBe(8);
+      await expect(
+        trader.tick({ date: '2024-01-02T09:45:00Z', close: 8 })
+      ).rejects.toThrow('Resampled ticks should be pushed.');
+    });
+
+    it('Should only push ticks when resampling.', async () => {
+      await expect(new Trader(dataset, strategy).push(40)).rejects.toThrow(
+        'Ticks are only pushed with resampling.'
+      );
+    });
+
     it('Should calculate a new position for a new quote.', () => {
       const trader = new Trader(dataset, strategy);
 
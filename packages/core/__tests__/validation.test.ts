@@ -0,0 +1,397 @@
+// import '@types/jest';
+import { Quote, repairQuotes, validateQuotes } from '../src';
+
+type Bar = {
+  date: string;
+  open?: number;
+  high?: number;
+  low?: number;
+  close: number;
+  volume?: number;
+};
+
+describe('Validation', () => {
+  const bar = (date: string, close: number, fields: Partial<Bar> = {}) =>
+    new Quote<Bar>({
+      date,
+      open: close,
+      high: close + 1,
+      low: close - 1,
+      close,
+      volume: 100,
+      ...fields,
+    });
+  const closes = (values: number[], dates?: string[]) =>
+    values.map(
+      (close, i) =>
+        new Quote<Bar>({
+          date: dates?.[i] ?? `2024-01-${String(i + 1).padStart(2, '0')}`,
+          close,
+        })
+    );
+  const spiking = [
+    100, 101, 100.5, 101.5, 100.8, 101.2, 150, 101, 100.7, 101.3,
+  ];
+
+  describe('validateQuotes', () => {
+    it('Should report no issues for clean quotes.', () => {
+      expect(
+        validateQuotes(
+          [
+            bar('2024-01-01', 10),
+            bar('2024-01-02', 11),
+            bar('2024-01-03', 10.5),
+          ],
+          { interval: '1d' }
+        )
+      ).toStrictEqual({ valid: true, issues: [], counts: {} });
+    });
+
+    it('Should report missing, non-finite and negative fields.', () => {
+      const report = validateQuotes([
+        bar('2024-01-01', 10),
+        bar('2024-01-02', 10, { close: NaN }),
+        bar('2024-01-03', 10, { volume: undefined }),
+        bar('2024-01-04', 10, { open: -1, low: -2 }),
+      ]);
+
+      expect(
+        report.issues.map((issue) => [
+          issue.type,
+          issue.index,
+          issue.field,
+          issue.message,
+        ])
+      ).toStrictEqual([
+        ['non-finite', 1, 'close', 'Non-finite close: NaN.'],
+        ['missing', 2, 'volume', 'Missing volume.'],
+        ['negative', 3, 'open', 'Negative open: -1.'],
+        ['negative', 3, 'low', 'Negative low: -2.'],
+      ]);
+      expect(report.valid).toBe(false);
+      expect(report.counts).toStrictEqual({
+        'non-finite': 1,
+        missing: 1,
+        negative: 2,
+      });
+    });
+
+    it('Should report bars without volume.', () => {
+      const report = validateQuotes([
+        bar('2024-01-01', 10),
+        bar('2024-01-02', 10, { volume: 0 }),
+      ]);
+
+      expect(report.issues).toStrictEqual([
+        {
+          type: 'zero-volume',
+          index: 1,
+          timestamp: Date.parse('2024-01-02'),
+          field: 'volume',
+          message: 'Zero volume.',
+        },
+      ]);
+      expect(
+        validateQuotes([bar('2024-01-01', 10, { volume: 0 })], {
+          fields: ['close'],
+        }).valid
+      ).toBe(true);
+    });
+
+    it('Should report prices outside the range of the high and the low.', () => {
+      const report = validateQuotes([
+        bar('2024-01-01', 10, { high: 8, low: 9 }),
+        bar('2024-01-02', 10, { high: 9.5 }),
+        bar('2024-01-03', 10, { open: 11, low: 10.5, high: 12 }),
+      ]);
+
+      expect(
+        report.issues.map((issue) => [issue.type, issue.index, issue.message])
+      ).toStrictEqual([
+        ['ohlc', 0, 'High 8 below low 9.'],
+        ['ohlc', 1, 'Open 10 above high 9.5.'],
+        ['ohlc', 2, 'Close 10 below low 10.5.'],
+      ]);
+    });
+
+    it('Should report duplicate, out-of-order and missing dates.', () => {
+      const report = validateQuotes([
+        bar('2024-01-02', 10),
+        bar('2024-01-02', 10),
+        bar('2024-01-01', 10),
+        bar('', 10),
+        bar('2024-01-03', 10),
+      ]);
+
+      expect(report.issues).toStrictEqual([
+        {
+          type: 'duplicate',
+          index: 1,
+          timestamp: Date.parse('2024-01-02'),
+          message: 'Duplicate quote timestamp: 2024-01-02T00:00:00.000Z.',
+        },
+        {
+          type: 'out-of-order',
+          index: 2,
+          timestamp: Date.parse('2024-01-01'),
+          message: 'Out-of-order quote timestamp: 2024-01-01T00:00:00.000Z.',
+        },
+        {
+          type: 'missing',
+          index: 3,
+          timestamp: undefined,
+          field: 'date',
+          message: 'Missing date.',
+        },
+      ]);
+    });
+
+    it('Should report gaps against the bar interval, with or without weekends.', () => {
+      const quotes = closes(
+        [10, 10, 10, 10],
+        ['2024-01-04', '2024-01-05', '2024-01-08', '2024-01-10']
+      );
+      const gaps = (options = {}) =>
+        validateQuotes(quotes, { interval: '1d', ...options }).issues.map(
+          (issue) => [issue.type, issue.index, issue.missing, issue.message]
+        );
+
+      expect(gaps()).toStrictEqual([
+        ['gap', 2, 2, 'Missing bars before 2024-01-08T00:00:00.000Z: 2.'],
+        ['gap', 3, 1, 'Missing bars before 2024-01-10T00:00:00.000Z: 1.'],
+      ]);
+      expect(gaps({ weekends: false })).toStrictEqual([
+        ['gap', 3, 1, 'Missing bars before 2024-01-10T00:00:00.000Z: 1.'],
+      ]);
+      expect(validateQuotes(quotes).valid).toBe(true);
+    });
+
+    it('Should only expect bars within the trading session.', () => {
+      const quotes = closes(
+        [10, 10, 10],
+        ['2024-01-05T20:30:00Z', '2024-01-08T14:30:00Z', '2024-01-08T15:30:00Z']
+      );
+      const session = {
+        interval: '30m',
+        timezone: 'America/New_York',
+        sessionStart: '09:30',
+        sessionLength: '390m',
+        weekends: false,
+      };
+      const { issues } = validateQuotes(quotes, session);
+      const { quotes: filled } = repairQuotes(quotes, {
+        ...session,
+        policy: 'forward-fill',
+      });
+
+      // From Friday 15:30 to Monday 09:30 in New York, then 10:00 is missing
+      expect(
+        issues.map((issue) => [issue.type, issue.index, issue.missing])
+      ).toStrictEqual([['gap', 2, 1]]);
+      expect(filled.map((quote) => quote.timestamp)).toStrictEqual([
+        Date.parse('2024-01-05T20:30:00Z'),
+        Date.parse('2024-01-08T14:30:00Z'),
+        Date.parse('2024-01-08T15:00:00Z'),
+        Date.parse('2024-01-08T15:30:00Z'),
+      ]);
+      expect(
+        validateQuotes(quotes, { ...session, sessionLength: '1d' }).issues
+      ).toHaveLength(2);
+    });
+
+    it('Should report price spikes, but not lasting moves.', () => {
+      const report = validateQuotes(closes(spiking));
+      const moves = closes([100, 101, 100.5, 101.5, 150, 151, 150.5, 151.5]);
+
+      expect(report.issues).toStrictEqual([
+        {
+          type: 'outlier',
+          index: 6,
+          timestamp: Date.parse('2024-01-07'),
+          field: 'close',
+          message: 'Price spike: close 150.',
+        },
+      ]);
+      expect(validateQuotes(moves).valid).toBe(true);
+      expect(
+        validateQuotes(closes(spiking), { outlierThreshold: 100 }).valid
+      ).toBe(true);
+    });
+
+    it('Should read numeric quotes as closes.', () => {
+      const report = validateQuotes([1, NaN, 3].map((v) => new Quote(v)));
+
+      expect(
+        report.issues.map((issue) => [issue.type, issue.index, issue.field])
+      ).toStrictEqual([['non-finite', 1, 'close']]);
+    });
+
+    it('Should throw on an invalid interval or session.', () => {
+      expect(() => validateQuotes([], { interval: 'daily' })).toThrow(
+        'Invalid interval: daily.'
+      );
+      expect(() => validateQuotes([], { sessionLength: '2d' })).toThrow(
+        'Invalid session length: 2d.'
+      );
+      expect(() => validateQuotes([], { sessionStart: '9:30' })).toThrow(
+        'Invalid session start: 9:30.'
+      );
+    });
+  });
+
+  describe('repairQuotes', () => {
+    it('Should drop the quotes with issues.', () => {
+      const { quotes, repaired, report } = repairQuotes(
+        [
+          bar('2024-01-01', 10),
+          bar('2024-01-02', 10, { close: NaN }),
+          bar('2024-01-03', 10),
+          bar('2024-01-03', 11),
+          bar('2024-01-04', 10, { high: 9 }),
+          bar('2024-01-05', 10),
+        ],
+        { policy: 'drop' }
+      );
+
+      expect(quotes.map((quote) => quote.value.date)).toStrictEqual([
+        '2024-01-01',
+        '2024-01-03',
+        '2024-01-05',
+      ]);
+      expect(repaired.map((issue) => [issue.type, issue.index])).toStrictEqual([
+        ['non-finite', 1],
+        ['duplicate', 3],
+        ['ohlc', 4],
+      ]);
+      expect(report.valid).toBe(true);
+    });
+
+    it('Should forward-fill or interpolate fields in time.', () => {
+      const quotes = closes(
+        [10, NaN, 16, -1, 20],
+        ['2024-01-01', '2024-01-02', '2024-01-04', '2024-01-05', '2024-01-06']
+      );
+      const repair = (policy: 'forward-fill' | 'interpolate') =>
+        repairQuotes(quotes, { policy }).quotes.map((q) => q.value.close);
+
+      expect(repair('forward-fill')).toStrictEqual([10, 10, 16, 16, 20]);
+      expect(repair('interpolate')).toStrictEqual([10, 12, 16, 18, 20]);
+      expect(quotes[1].value.close).toBeNaN();
+    });
+
+    it('Should clamp negative values and the high and the low.', () => {
+      const { quotes, report } = repairQuotes(
+        [
+          bar('2024-01-01', 10, { volume: -5 }),
+          bar('2024-01-02', 10, { high: 9.5, low: 10.2 }),
+        ],
+        { policy: 'clamp' }
+      );
+
+      expect(quotes.map((quote) => quote.value)).toStrictEqual([
+        {
+          date: '2024-01-01',
+          open: 10,
+          high: 11,
+          low: 9,
+          close: 10,
+          volume: 0,
+        },
+        {
+          date: '2024-01-02',
+          open: 10,
+          high: 10.2,
+          low: 9.5,
+          close: 10,
+          volume: 100,
+        },
+      ]);
+      // Clamped volumes are left without volume
+      expect(report.issues.map((issue) => issue.type)).toStrictEqual([
+        'zero-volume',
+      ]);
+    });
+
+    it('Should forward-fill bars without volume.', () => {
+      const { quotes, report } = repairQuotes(
+        [bar('2024-01-01', 10), bar('2024-01-02', 11, { volume: 0 })],
+        { policy: { 'zero-volume': 'forward-fill' } }
+      );
+
+      expect(quotes[1].value.volume).toBe(100);
+      expect(report.valid).toBe(true);
+    });
+
+    it('Should repair the close of outliers.', () => {
+      const repair = (policy: 'clamp' | 'interpolate') =>
+        repairQuotes(closes(spiking), { policy }).quotes[6].value.close;
+
+      expect(repair('clamp')).toBe(101.2);
+      expect(repair('interpolate')).toBeCloseTo(101.1);
+    });
+
+    it('Should fill gaps with bars dated like the quotes.', () => {
+      const quotes = [bar('2024-01-01', 10), bar('2024-01-04', 16)];
+      const filled = repairQuotes(quotes, {
+        interval: '1d',
+        policy: 'forward-fill',
+      });
+      const interpolated = repairQuotes(quotes, {
+        interval: '1d',
+        policy: 'interpolate',
+      });
+
+      expect(filled.quotes.map((quote) => quote.value)).toStrictEqual([
+        quotes[0].value,
+        {
+          date: '2024-01-02T00:00:00.000Z',
+          open: 10,
+          high: 10,
+          low: 10,
+          close: 10,
+          volume: 0,
+        },
+        {
+          date: '2024-01-03T00:00:00.000Z',
+          open: 10,
+          high: 10,
+          low: 10,
+          close: 10,
+          volume: 0,
+        },
+        quotes[1].value,
+      ]);
+      expect(filled.quotes[1].timestamp).toBe(Date.parse('2024-01-02'));
+      expect(filled.repaired.map((issue) => issue.type)).toStrictEqual(['gap']);
+      expect(filled.report.valid).toBe(true);
+      expect(
+        interpolated.quotes.map((quote) => quote.value.close)
+      ).toStrictEqual([10, 12, 14, 16]);
+    });
+
+    it('Should leave the issues without a policy or valid quotes to repair them with.', () => {
+      const { quotes, repaired, report } = repairQuotes(
+        closes(
+          [NaN, 10, 11, -3],
+          ['2024-01-01', '2024-01-02', '2024-01-02', '2024-01-03']
+        ),
+        { policy: { 'non-finite': 'forward-fill', duplicate: 'interpolate' } }
+      );
+
+      expect(quotes.map((quote) => quote.value.close)).toStrictEqual([
+        NaN,
+        10,
+        -3,
+      ]);
+      expect(repaired.map((issue) => [issue.type, issue.index])).toStrictEqual([
+        ['duplicate', 2],
+      ]);
+      expect(
+        report.issues.map((issue) => [issue.type, issue.index])
+      ).toStrictEqual([
+        ['non-finite', 0],
+        ['negative', 2],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,173 @@
+// import '@types/jest';
+import { Dataset, Strategy } from '../src';
+import { Optimizer } from '../src/optimizer';
+import { WalkForward } from '../src/walkForward';
+import { SMA } from './mocks/mock-sma';
+
+type Bands = { below: number; above: number };
+
+describe('WalkForward', () => {
+  // Swings around a rising trend
+  const data = [
+    20, 24, 19, 23, 18, 22, 26, 21, 25, 20, 24, 28, 23, 27, 22, 26, 21, 25, 29,
+    24, 28, 23, 27, 31,
+  ];
+  const runner = {
+    config: { capital: 100, metrics: { barsPerYear: 24 } },
+    onEntry: (quote) => quote.value * 1,
+    onExit: (quote) => quote.value * 1,
+  };
+  // Trades the price against its 3 quote average
+  const optimizer = new Optimizer<Bands>(
+    ({ below, above }) =>
+      new Strategy('bands', {
+        indicators: [new SMA('sma3', { period: 3 })],
+        entryWhen: (quote) =>
+          quote.getValue() < (quote.getIndicator('sma3') ?? 0) - below,
+        exitWhen: (quote) =>
+          quote.getValue() > (quote.getIndicator('sma3') ?? 0) + above,
+      }),
+    {
+      space: { below: [0, 1, 2], above: [0, 1, 2] },
+      objective: (report) => report.returnsPercentage,
+    }
+  );
+
+  describe('constructor', () => {
+    it('Should throw for invalid windows.', () => {
+      expect(
+        () => new WalkForward(optimizer, { inSample: 0, outOfSample: 2 })
+      ).toThrow('Invalid walk-forward window: 0.');
+      expect(
+        () => new WalkForward(optimizer, { inSample: 4, outOfSample: 1.5 })
+      ).toThrow('Invalid walk-forward window: 1.5.');
+      expect(
+        () =>
+          new WalkForward(optimizer, {
+            inSample: 4,
+            outOfSample: 2,
+            warmUp: -1,
+          })
+      ).toThrow('Invalid warm-up: -1.');
+    });
+  });
+
+  describe('getWindows', () => {
+    it('Should roll the in-sample window forward.', () => {
+      const walkForward = new WalkForward(optimizer, {
+        inSample: 4,
+        outOfSample: 3,
+      });
+
+      expect(walkForward.getWindows(12)).toStrictEqual([
+        {
+          inSampleStart: 0,
+          inSampleEnd: 4,
+          outOfSampleStart: 4,
+          outOfSampleEnd: 7,
+        },
+        {
+          inSampleStart: 3,
+          inSampleEnd: 7,
+          outOfSampleStart: 7,
+          outOfSampleEnd: 10,
+        },
+        {
+          inSampleStart: 6,
+          inSampleEnd: 10,
+          outOfSampleStart: 10,
+          outOfSampleEnd: 12,
+        },
+      ]);
+    });
+
+    it('Should anchor the in-sample window at the first quote.', () => {
+      const walkForward = new WalkForward(optimizer, {
+        inSample: 4,
+        outOfSample: 3,
+        anchored: true,
+      });
+
+      expect(
+        walkForward.getWindows(10).map((w) => [w.inSampleStart, w.inSampleEnd])
+      ).toStrictEqual([
+        [0, 4],
+        [0, 7],
+      ]);
+    });
+  });
+
+  describe('run', () => {
+    const walkForward = new WalkForward(optimizer, {
+      inSample: 8,
+      outOfSample: 4,
+    });
+
+    it('Should stitch the out-of-sample windows into one report.', () => {
+      const dataset = new Dataset(data);
+      const { results, report } = walkForward.run(dataset, runner);
+
+      expect(results).toHaveLength(4);
+      expect(report.numberOfTrades).toBeGreaterThan(0);
+      expect(report.equityCurve).toHaveLength(data.length - 8);
+      expect(report.equityCurve.map((p) => p.quote.value)).toStrictEqual(
+        data.slice(8)
+      );
+      expect(report.numberOfTrades).toBe(
+        results.reduce((sum, r) => sum + r.outOfSampleReport.numberOfTrades, 0)
+      );
+      expect(report.finalCapital).toBeCloseTo(
+        results[3].outOfSampleReport.finalCapital
+      );
+      // Every window trades the capital the previous one ended with
+      results.slice(1).forEach((result, i) => {
+        expect(result.outOfSampleReport.initialCapital).toBe(
+          results[i].outOfSampleReport.finalCapital
+        );
+      });
+      expect(dataset.strategies).toStrictEqual([]);
+    });
+
+    it('Should trade the best in-sample parameters out of sample.', () => {
+      const { results } = walkForward.run(new Dataset(data), runner);
+
+      results.forEach((result) => {
+        expect(result.parameters).toStrictEqual(
+          result.optimization.best.parameters
+        );
+        expect(result.inSampleReport).toBe(result.optimization.best.report);
+        expect(result.inSampleReport.equityCurve).toHaveLength(8);
+      });
+    });
+
+    it('Should warm up the indicators on the preceding quotes.', () => {
+      const { results } = walkForward.run(new Dataset(data), runner);
+      const [first] = results[0].outOfSampleReport.equityCurve;
+
+      expect(first.quote.getIndicator('sma3')).toBeCloseTo(
+        (data[6] + data[7] + data[8]) / 3
+      );
+    });
+
+    it('Should report the walk-forward efficiency.', () => {
+      const { results, report, efficiency, profitableWindows } =
+        walkForward.run(new Dataset(data), runner);
+      const inSample =
+        results.reduce((sum, r) => sum + r.inSampleReport.metrics.cagr, 0) /
+        results.length;
+
+      expect(efficiency).toBeGreaterThan(0);
+      expect(efficiency).toBeCloseTo((report.metrics.cagr * 100) / inSample);
+      expect(profitableWindows).toBe(
+        (results.filter((r) => r.outOfSampleReport.returns > 0).length * 100) /
+          results.length
+      );
+      results.forEach((result) => {
+        expect(result.efficiency).toBeCloseTo(
+          (result.outOfSampleReport.metrics.cagr * 100) /
+            result.inSampleReport.metrics.cagr
+        );
+      });
+    });
+  });
+});
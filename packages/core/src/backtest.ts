@@ -1,10 +1,72 @@
 import { Dataset, Strategy } from './';
-import { BacktestReport } from './backtestReport';
-import { Quote } from './quote';
+import { BacktestReport, LotMethod, TradeSide } from './backtestReport';
+import { BenchmarkOptions, getBenchmarkPrices } from './benchmark';
+import {
+  CorporateAction,
+  CorporateActionEvent,
+  getCorporateActionEvents,
+} from './corporateActions';
+import {
+  CostModel,
+  getAffordableShares,
+  getCommission,
+  getSlippage,
+} from './costs';
+import { ExecutionOptions, ExecutionSimulator } from './executionSimulator';
+import { Order, OrderEvent } from './order';
+import { MetricsOptions } from './metrics';
+import { ExitReason, TradePosition } from './position';
+import { Quote, QuoteAttributes } from './quote';
+import { PositionSizing, getPositionSize } from './sizing';
 
+/**
+ * Defines how short positions are financed.
+ * - `margin` - fraction of the short value held from the cash, e.g. 0.5 for 50%, 1 by default.
+ * - `borrowFee` - percent of the short value paid on every quote the position is held, e.g. 0.01 for 0.01%.
+ */
+export type ShortSellingOptions = {
+  margin?: number;
+  borrowFee?: number;
+};
+
+/**
+ * Defines a margin account that trades with borrowed cash.
+ * - `initialMargin` - fraction of the position value funded by the equity on entry, e.g. 0.5 for 50%, 1 by default.
+ * - `maintenanceMargin` - fraction of the position value the equity has to cover while it is held, 0 by default.
+ * The position is liquidated on the first quote its equity falls below it.
+ * - `maxLeverage` - cap on the position value as a multiple of the equity, `1 / initialMargin` by default.
+ * - `interestRate` - percent of the borrowed cash paid on every quote, e.g. 0.01 for 0.01%.
+ */
+export type MarginAccountOptions = {
+  initialMargin?: number;
+  maintenanceMargin?: number;
+  maxLeverage?: number;
+  interestRate?: number;
+};
+
+/**
+ * Configures a back-test.
+ * - `short` - `ShortSellingOptions`, the margin of short positions is that of the account by default.
+ * - `account` - `MarginAccountOptions`, a fully funded cash account if not given.
+ * - `corporateActions` - splits and dividends applied to the open position on their ex-dates,
+ * matched with the dates of the quotes, for datasets of raw prices. Strategy levels such as stops are not adjusted.
+ * - `warmUp` - number of leading quotes that only warm up the indicators, never traded or marked, 0 by default.
+ * - `lots` - `LotMethod` realising the profit or loss of partial exits, `fifo` by default.
+ */
 export interface BacktestConfiguration {
   capital: number;
   name?: string;
+  sizing?: PositionSizing;
+  costs?: CostModel;
+  attributes?: QuoteAttributes;
+  execution?: ExecutionOptions;
+  short?: ShortSellingOptions;
+  account?: MarginAccountOptions;
+  metrics?: MetricsOptions;
+  benchmark?: BenchmarkOptions;
+  corporateActions?: CorporateAction[];
+  warmUp?: number;
+  lots?: LotMethod;
 }
 
 export type BacktestTrigger<T> = (
@@ -12,10 +74,15 @@ export type BacktestTrigger<T> = (
   index: number,
   quotes: Quote<T>[]
 ) => number;
+/**
+ * Defines the back-test configuration and the prices trades are filled at.
+ * `onMark` prices the open position for the equity curve, borrow fees and margin calls, at the close of the quote by default.
+ */
 export type BacktestRunner<T> = {
   config: BacktestConfiguration;
   onEntry: BacktestTrigger<T>;
   onExit: BacktestTrigger<T>;
+  onMark?: BacktestTrigger<T>;
 };
 
 /**
@@ -46,30 +113,835 @@ export class Backtest<P = unknown, T = number, O = unknown> {
   }
 
   /**
-   * Runs the back-test over a dataset with the given configuration and returns report.
-   * @param configuration - `BacktestConfiguration` with trading quantity and capital.
-   * @returns `BacktestReport`.
+   * Calculates the leverage of the margin account.
+   * @param config - `BacktestConfiguration`.
+   * @returns maximum position value as a multiple of the equity, 1 for a cash account.
+   */
+  protected getLeverage(config: BacktestConfiguration) {
+    const { initialMargin = 1, maxLeverage = Infinity } = config.account ?? {};
+
+    return Math.min(1 / initialMargin, maxLeverage);
+  }
+
+  /**
+   * Calculates the fraction of the position value funded by the equity on entry.
+   * @param config - `BacktestConfiguration`.
+   * @param side - `long` or `short`.
+   * @returns margin, e.g. 0.5 for 50%.
+   */
+  protected getMargin(config: BacktestConfiguration, side: TradeSide) {
+    const margin = 1 / this.getLeverage(config);
+
+    return side === 'short' ? config.short?.margin ?? margin : margin;
+  }
+
+  /**
+   * Calculates the number of shares to enter with for the configured sizing policy.
+   * @param report - `BacktestReport` with the running capital.
+   * @param config - `BacktestConfiguration`.
+   * @param price - Entry price before slippage.
+   * @param quote - `Quote` of the entry.
+   * @param position - `TradePosition` of the entry.
+   * @param equity - Cash available to the entry, the running capital if not given.
+   * @returns number of shares.
+   */
+  protected getSize(
+    report: BacktestReport<T>,
+    config: BacktestConfiguration,
+    price: number,
+    quote: Quote<T>,
+    position: TradePosition,
+    equity = report.finalCapital
+  ) {
+    const margin = this.getMargin(
+      config,
+      position.options?.short ? 'short' : 'long'
+    );
+    const { stopLoss, trailingStop } = position.options ?? {};
+
+    return getPositionSize(config.sizing, {
+      price,
+      cash: equity / margin,
+      equity,
+      indicators: quote.indicators,
+      stopLoss: isFinite(stopLoss ?? NaN) ? stopLoss : trailingStop ?? stopLoss,
+      winningRate: report.winningRate,
+      averageWin: report.averageWin,
+      averageLoss: report.averageLoss,
+      numberOfWinningTrades: report.numberOfWinningTrades,
+      numberOfLosingTrades: report.numberOfLosingTrades,
+    });
+  }
+
+  /**
+   * Calculates how many of the given shares the available cash can enter with after costs.
+   * @param report - `BacktestReport` with the running capital.
+   * @param config - `BacktestConfiguration`.
+   * @param price - Price before slippage.
+   * @param quote - `Quote` of the fill.
+   * @param shares - Number of shares to enter with.
+   * @param side - `long` or `short`.
+   * @returns number of shares.
+   */
+  protected getAffordable(
+    report: BacktestReport<T>,
+    config: BacktestConfiguration,
+    price: number,
+    quote: Quote<T>,
+    shares: number,
+    side: TradeSide = 'long'
+  ) {
+    const { costs, attributes } = config;
+    const slippage = getSlippage(
+      costs?.slippage,
+      shares,
+      price,
+      quote,
+      attributes
+    );
+
+    return getAffordableShares(
+      shares,
+      side === 'short' ? price - slippage : price + slippage,
+      this.getBuyingPower(report, config, price, side),
+      costs?.commission
+    );
+  }
+
+  /**
+   * Calculates the cash an entry can trade with, borrowing included.
+   * @param report - `BacktestReport` with the running capital.
+   * @param config - `BacktestConfiguration`.
+   * @param price - Price of the entry.
+   * @param side - `long` or `short`.
+   * @returns buying power.
+   */
+  protected getBuyingPower(
+    report: BacktestReport<T>,
+    config: BacktestConfiguration,
+    price: number,
+    side: TradeSide = 'long'
+  ) {
+    const margin = this.getMargin(config, side);
+
+    if (side === 'short') {
+      return report.finalCapital / margin;
+    }
+
+    // Borrowing extends the cash by the buying power the equity has left
+    return report.finalCapital + report.getEquity(price) * (1 / margin - 1);
+  }
+
+  /**
+   * Buys shares of a long position, or sells borrowed shares of a short one, paying slippage and commission.
+   * @param report - `BacktestReport` to mark.
+   * @param config - `BacktestConfiguration`.
+   * @param price - Price before slippage.
+   * @param quote - `Quote` of the fill.
+   * @param size - Number of shares to enter with, capped by the available cash.
+   * @param side - `long` or `short`.
+   */
+  protected enter(
+    report: BacktestReport<T>,
+    config: BacktestConfiguration,
+    price: number,
+    quote: Quote<T>,
+    size: number,
+    side: TradeSide = 'long'
+  ) {
+    const { costs, attributes } = config;
+    const shares = this.getAffordable(report, config, price, quote, size, side);
+    const slippage = getSlippage(
+      costs?.slippage,
+      shares,
+      price,
+      quote,
+      attributes
+    );
+    const fillPrice = side === 'short' ? price - slippage : price + slippage;
+
+    if (shares > 0) {
+      report.markEntry(
+        fillPrice,
+        quote,
+        shares,
+        {
+          commission: getCommission(costs?.commission, shares, fillPrice),
+          slippage: slippage * shares,
+        },
+        side,
+        this.getMargin(config, side)
+      );
+    }
+  }
+
+  /**
+   * Sells shares of a long position, or buys back shares of a short one, paying slippage and commission.
+   * @param report - `BacktestReport` to mark.
+   * @param config - `BacktestConfiguration`.
+   * @param price - Price before slippage.
+   * @param quote - `Quote` of the fill.
+   * @param reason - Rule that closed the trade.
+   * @param shares - Number of shares to exit, all shares of the open position if not given.
+   */
+  protected exit(
+    report: BacktestReport<T>,
+    config: BacktestConfiguration,
+    price: number,
+    quote: Quote<T>,
+    reason?: ExitReason,
+    shares = report.openShares
+  ) {
+    const { costs, attributes } = config;
+    const slippage = getSlippage(
+      costs?.slippage,
+      shares,
+      price,
+      quote,
+      attributes
+    );
+    const fillPrice =
+      report.side === 'short' ? price + slippage : price - slippage;
+
+    report.markExit(
+      fillPrice,
+      quote,
+      reason,
+      {
+        commission: getCommission(costs?.commission, shares, fillPrice),
+        slippage: slippage * shares,
+      },
+      shares
+    );
+  }
+
+  /**
+   * Prices a quote with `onMark`, or at its close without one.
+   * @param runner - `BacktestRunner`.
+   * @param quote - `Quote` to price.
+   * @param index - Index of the quote.
+   * @param quotes - All quotes of the dataset.
+   * @returns price of the quote.
+   */
+  protected getMark(
+    { config, onMark }: BacktestRunner<T>,
+    quote: Quote<T>,
+    index: number,
+    quotes: Quote<T>[]
+  ) {
+    return onMark
+      ? onMark(quote, index, quotes)
+      : quote.getValue(config.attributes?.close ?? 'close');
+  }
+
+  /**
+   * Prices the open position of a quote for its borrow fee and margin call.
+   * @param report - `BacktestReport` with the open position.
+   * @param runner - `BacktestRunner`.
+   * @param quote - `Quote` to price.
+   * @param index - Index of the quote.
+   * @param quotes - All quotes of the dataset.
+   * @returns price of the quote, `NaN` without an open short or margin position.
+   */
+  protected getMarkPrice(
+    report: BacktestReport<T>,
+    runner: BacktestRunner<T>,
+    quote: Quote<T>,
+    index: number,
+    quotes: Quote<T>[]
+  ) {
+    if (
+      report.openShares === 0 ||
+      (report.side !== 'short' && !runner.config.account)
+    ) {
+      return NaN;
+    }
+
+    return this.getMark(runner, quote, index, quotes);
+  }
+
+  /**
+   * Pays the borrow fee of an open short position for a quote.
+   * @param report - `BacktestReport` to mark.
+   * @param config - `BacktestConfiguration`.
+   * @param price - Price the short value is measured at.
+   */
+  protected accrueBorrowFee(
+    report: BacktestReport<T>,
+    config: BacktestConfiguration,
+    price: number
+  ) {
+    const borrowFee = config.short?.borrowFee;
+
+    if (borrowFee && report.sharesBorrowed > 0) {
+      report.markBorrowFee((report.sharesBorrowed * price * borrowFee) / 100);
+    }
+  }
+
+  /**
+   * Pays the interest on the cash borrowed from the margin account for a quote.
+   * @param report - `BacktestReport` to mark.
+   * @param config - `BacktestConfiguration`.
+   */
+  protected accrueInterest(
+    report: BacktestReport<T>,
+    config: BacktestConfiguration
+  ) {
+    const interestRate = config.account?.interestRate;
+
+    if (interestRate && report.borrowedCash > 0) {
+      report.markInterest((report.borrowedCash * interestRate) / 100);
+    }
+  }
+
+  /**
+   * Pays the dividend and splits the shares of the open position on an ex-date.
+   * @param report - `BacktestReport` to mark.
+   * @param event - `CorporateActionEvent` of the quote, if any.
+   */
+  protected applyCorporateActions(
+    report: BacktestReport<T>,
+    event?: CorporateActionEvent
+  ) {
+    if (!event || report.openShares === 0) {
+      return;
+    }
+
+    if (event.dividend) {
+      report.markDividend(event.dividend);
+    }
+
+    if (event.split !== 1) {
+      report.markSplit(event.split);
+    }
+  }
+
+  /**
+   * Calculates the equity the open position requires to stay open.
+   * @param report - `BacktestReport` with the open position.
+   * @param config - `BacktestConfiguration`.
+   * @param price - Price of the open position.
+   * @returns maintenance margin, `undefined` without a margin account or an open position.
+   */
+  protected getMarginCall(
+    report: BacktestReport<T>,
+    config: BacktestConfiguration,
+    price: number
+  ) {
+    if (!config.account || report.openShares === 0) {
+      return undefined;
+    }
+
+    const { maintenanceMargin = 0 } = config.account;
+    const required = report.openShares * price * maintenanceMargin;
+
+    return report.getEquity(price) < required ? required : undefined;
+  }
+
+  /**
+   * Reads the level of the stop-loss, trailing stop or take-profit that closed a position.
+   * @param position - `TradePosition` of the exit.
+   * @returns price level, `undefined` for exits on a signal.
+   */
+  protected getRiskLevel(position: TradePosition) {
+    const { exitReason, stopLoss, trailingStop, takeProfit } =
+      position.options ?? {};
+
+    switch (exitReason) {
+      case 'stopLoss':
+        return stopLoss;
+      case 'trailingStop':
+        return trailingStop;
+      case 'takeProfit':
+        return takeProfit;
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Runs the back-test filling trades on the quote whose signal generated them.
+   * @param report - `BacktestReport` to mark.
+   * @param runner - `BacktestRunner`.
    */
-  run({ config, onEntry, onExit }: BacktestRunner<T>) {
-    const report = new BacktestReport<T>(config.capital);
+  protected runOnSignal(report: BacktestReport<T>, runner: BacktestRunner<T>) {
+    const { config, onEntry, onExit } = runner;
+    const { warmUp = 0 } = config;
+    const corporateActions = getCorporateActionEvents(
+      this._dataset.quotes,
+      config.corporateActions,
+      config.attributes?.date
+    );
 
     this._dataset.quotes.forEach((quote: Quote<T>, index, array) => {
+      if (index < warmUp) {
+        return;
+      }
+
       const position = quote.getStrategy(this.strategy.name).position;
+      const marketPrice = this.getMarkPrice(
+        report,
+        runner,
+        quote,
+        index,
+        array
+      );
 
-      if (
-        index === array.length - 1 &&
-        (position.value === 'entry' || position.value === 'hold')
-      ) {
-        report.markExit(onExit(quote, index, array), quote);
+      this.applyCorporateActions(report, corporateActions.get(index));
+
+      this.accrueBorrowFee(report, config, marketPrice);
+      this.accrueInterest(report, config);
+
+      const maintenanceMargin = this.getMarginCall(report, config, marketPrice);
+
+      if (maintenanceMargin !== undefined) {
+        report.markLiquidation(quote, marketPrice, maintenanceMargin);
+        this.exit(report, config, marketPrice, quote, 'liquidation');
+      }
+
+      if (index === array.length - 1 && position.isOpen) {
+        if (report.openShares > 0) {
+          this.exit(report, config, onExit(quote, index, array), quote, 'end');
+        }
       } else {
-        if (position.value === 'entry') {
-          report.markEntry(onEntry(quote, index, array), quote);
-        } else if (position.value === 'exit') {
-          report.markExit(onExit(quote, index, array), quote);
+        if (position.value === 'reverse' && report.openShares > 0) {
+          this.exit(report, config, onExit(quote, index, array), quote);
+        }
+
+        if (position.value === 'entry' || position.value === 'reverse') {
+          const price = onEntry(quote, index, array);
+
+          this.enter(
+            report,
+            config,
+            price,
+            quote,
+            this.getSize(report, config, price, quote, position),
+            position.options?.short ? 'short' : 'long'
+          );
+        } else if (position.value === 'scale-in' && report.openShares > 0) {
+          const price = onEntry(quote, index, array);
+
+          this.enter(
+            report,
+            config,
+            price,
+            quote,
+            this.getSize(report, config, price, quote, position),
+            report.side
+          );
+        } else if (position.value === 'scale-out' && report.openShares > 0) {
+          this.exit(
+            report,
+            config,
+            onExit(quote, index, array),
+            quote,
+            'scaleOut',
+            report.openShares * (position.options?.exitFraction ?? 1)
+          );
+        } else if (position.value === 'exit' && report.openShares > 0) {
+          // Stop-loss and take-profit exits fill at their own level
+          this.exit(
+            report,
+            config,
+            position.options?.exitPrice ?? onExit(quote, index, array),
+            quote,
+            position.options?.exitReason
+          );
         }
       }
+
+      this.markToMarket(report, runner, quote, index, array);
     });
+  }
+
+  /**
+   * Runs the back-test turning signals into orders that fill on the following quotes.
+   * `onEntry` only estimates the price used to size an order, fills come from the quote OHLC.
+   * Stops and targets of an entry are placed from the price it fills at, the strategy is applied again
+   * from the quote of the fill until the position it would have had before is closed too.
+   * @param report - `BacktestReport` to mark.
+   * @param runner - `BacktestRunner`.
+   */
+  protected runWithOrders(
+    report: BacktestReport<T>,
+    runner: BacktestRunner<T>
+  ) {
+    const { config, onEntry, onExit } = runner;
+    const { warmUp = 0 } = config;
+    const { entryOrder, exitOrder } = this.strategy.options;
+    const simulator = new ExecutionSimulator<T>(
+      config.execution?.maxParticipation,
+      config.attributes
+    );
+    // Entry orders carry no exit reason
+    const isEntry = (order: Order) => order.reason === undefined;
+    const getSide = (order: Order): TradeSide =>
+      (order.side === 'sell') === isEntry(order) ? 'short' : 'long';
+    const corporateActions = getCorporateActionEvents(
+      this._dataset.quotes,
+      config.corporateActions,
+      config.attributes?.date
+    );
+    const { name } = this.strategy;
+    // Position the strategy is applied again from once an entry fills away from its signal price
+    let previous: TradePosition | undefined;
+
+    this._dataset.quotes.forEach((quote: Quote<T>, index, array) => {
+      if (index < warmUp) {
+        return;
+      }
+
+      const corporateAction = corporateActions.get(index);
+
+      // Orders sized and priced before a split no longer match the quotes
+      if (corporateAction && corporateAction.split !== 1) {
+        report.markOrders(...simulator.cancelAll(index));
+      }
+
+      this.applyCorporateActions(report, corporateAction);
+
+      this.accrueBorrowFee(
+        report,
+        config,
+        this.getMarkPrice(report, runner, quote, index, array)
+      );
+      this.accrueInterest(report, config);
+
+      const cancelled: OrderEvent[] = [];
+      const events = simulator.process(
+        quote,
+        index,
+        (order, price) => {
+          if (!isEntry(order)) {
+            return report.openShares;
+          }
+
+          // Entries of a reversal wait for the open position to be closed
+          if (simulator.activeOrders.some((o) => !isEntry(o))) {
+            return 0;
+          }
+
+          return this.getAffordable(
+            report,
+            config,
+            price,
+            quote,
+            order.remainingShares,
+            getSide(order)
+          );
+        },
+        ({ order, shares = 0, price = 0 }) => {
+          if (!isEntry(order)) {
+            this.exit(report, config, price, quote, order.reason, shares);
+
+            return;
+          }
+
+          const side = getSide(order);
+          const flat = report.openShares === 0;
+          const entered =
+            previous ?? array[index - 1]?.getStrategy(name).position;
+          this.enter(report, config, price, quote, shares, side);
+
+          // Stops and targets are placed from the price the entry filled at
+          if (flat && report.openShares > 0 && entered?.isOpen) {
+            previous = this.strategy.anchor(
+              entered as TradePosition<O>,
+              price,
+              array[order.submittedAt]
+            );
+          }
+
+          // Cash left after a gap can no longer cover the rest of the order
+          if (
+            order.isActive &&
+            this.getAffordable(
+              report,
+              config,
+              price,
+              quote,
+              order.remainingShares,
+              side
+            ) < order.remainingShares
+          ) {
+            cancelled.push(simulator.cancel(order, index));
+          }
+        }
+      );
+
+      report.markOrders(...events, ...cancelled);
+
+      const marketPrice = this.getMarkPrice(
+        report,
+        runner,
+        quote,
+        index,
+        array
+      );
+      const maintenanceMargin = this.getMarginCall(report, config, marketPrice);
+
+      if (maintenanceMargin !== undefined) {
+        // The broker closes the position at the market, cancelling the orders of the strategy
+        report.markOrders(...simulator.cancelAll(index));
+
+        const submitted = simulator.submit(
+          report.side === 'short' ? 'buy' : 'sell',
+          report.openShares,
+          { type: 'market' },
+          index,
+          'liquidation'
+        );
+
+        report.markOrders(
+          submitted,
+          simulator.fill(submitted.order, report.openShares, marketPrice, index)
+        );
+        report.markLiquidation(quote, marketPrice, maintenanceMargin);
+        this.exit(report, config, marketPrice, quote, 'liquidation');
+      }
+
+      let { position } = quote.getStrategy(name);
+
+      if (previous) {
+        // Kept for the run, the positions of the dataset are left as the strategy signalled them
+        const value = this.strategy.apply(quote, previous as TradePosition<O>);
+
+        // Once both are flat, the strategy goes on as it was applied before
+        previous =
+          value.position.isOpen || position.isOpen ? value.position : undefined;
+        position = value.position;
+      }
+
+      if (index === array.length - 1) {
+        report.markOrders(...simulator.cancelAll(index));
+
+        if (report.openShares > 0) {
+          this.exit(report, config, onExit(quote, index, array), quote, 'end');
+        }
+      } else if (
+        position.value === 'entry' &&
+        report.openShares === 0 &&
+        simulator.activeOrders.length === 0
+      ) {
+        const price = onEntry(quote, index, array);
+        const shares = this.getSize(report, config, price, quote, position);
+
+        if (shares > 0) {
+          report.markOrders(
+            simulator.submit(
+              position.options?.short ? 'sell' : 'buy',
+              shares,
+              entryOrder?.(quote) ?? { type: 'market' },
+              index
+            )
+          );
+        }
+      } else if (position.value === 'reverse') {
+        const price = onEntry(quote, index, array);
+        // Size the new side with the equity the closed position releases
+        const shares = this.getSize(
+          report,
+          config,
+          price,
+          quote,
+          position,
+          report.getEquity(onExit(quote, index, array))
+        );
+        report.markOrders(...simulator.cancelAll(index));
+
+        if (report.openShares > 0) {
+          report.markOrders(
+            simulator.submit(
+              report.side === 'short' ? 'buy' : 'sell',
+              report.openShares,
+              exitOrder?.(quote) ?? { type: 'market' },
+              index,
+              'signal'
+            )
+          );
+        }
+
+        if (shares > 0) {
+          report.markOrders(
+            simulator.submit(
+              position.options?.short ? 'sell' : 'buy',
+              shares,
+              entryOrder?.(quote) ?? { type: 'market' },
+              index
+            )
+          );
+        }
+      } else if (
+        position.value === 'scale-in' &&
+        report.openShares > 0 &&
+        simulator.activeOrders.length === 0
+      ) {
+        const price = onEntry(quote, index, array);
+        const shares = this.getSize(report, config, price, quote, position);
+
+        if (shares > 0) {
+          report.markOrders(
+            simulator.submit(
+              report.side === 'short' ? 'sell' : 'buy',
+              shares,
+              entryOrder?.(quote) ?? { type: 'market' },
+              index
+            )
+          );
+        }
+      } else if (
+        position.value === 'scale-out' &&
+        report.openShares > 0 &&
+        simulator.activeOrders.length === 0
+      ) {
+        report.markOrders(
+          simulator.submit(
+            report.side === 'short' ? 'buy' : 'sell',
+            report.openShares * (position.options?.exitFraction ?? 1),
+            exitOrder?.(quote) ?? { type: 'market' },
+            index,
+            'scaleOut'
+          )
+        );
+      } else if (position.value === 'exit') {
+        const { exitReason } = position.options ?? {};
+        const side = report.side === 'short' ? 'buy' : 'sell';
+        const level = this.getRiskLevel(position);
+        report.markOrders(...simulator.cancelAll(index));
+
+        if (report.openShares > 0 && level !== undefined) {
+          // Stop-loss, trailing stop and take-profit levels rest in the market from the quote before,
+          // the quote that hits them fills them by its own prices, at the open if it gaps through
+          const submitted = simulator.submit(
+            side,
+            report.openShares,
+            exitReason === 'takeProfit'
+              ? { type: 'limit', limitPrice: level }
+              : { type: 'stop', stopPrice: level },
+            index - 1,
+            exitReason
+          );
+
+          report.markOrders(
+            submitted,
+            ...simulator.process(
+              quote,
+              index,
+              () => report.openShares,
+              ({ shares = 0, price = 0 }) =>
+                this.exit(report, config, price, quote, exitReason, shares)
+            )
+          );
+
+          if (submitted.order.isActive) {
+            report.markOrders(simulator.cancel(submitted.order, index));
+          }
+        }
+
+        // Exits left open, e.g. past the volume a quote can fill, close on the following quotes
+        if (report.openShares > 0) {
+          report.markOrders(
+            simulator.submit(
+              side,
+              report.openShares,
+              exitOrder?.(quote) ?? { type: 'market' },
+              index,
+              exitReason ?? 'signal'
+            )
+          );
+        }
+      }
+
+      this.markToMarket(report, runner, quote, index, array);
+    });
+  }
+
+  /**
+   * Runs the back-test over a dataset with the given configuration and returns report.
+   * With `execution` configured, signals become orders filled on the following quotes.
+   * With `account` configured, positions can be leveraged and are liquidated on a margin call.
+   * With `benchmark` configured, the report compares the equity curve with the benchmark.
+   * @param runner - `BacktestRunner` with the configuration and entry/exit prices.
+   * @returns `BacktestReport`.
+   */
+  run(runner: BacktestRunner<T>) {
+    const {
+      initialMargin = 1,
+      maintenanceMargin = 0,
+      maxLeverage,
+    } = runner.config.account ?? {};
+
+    if (!(initialMargin > 0 && initialMargin <= 1)) {
+      throw new Error(`Invalid initial margin: ${initialMargin}.`);
+    }
+
+    if (!(maintenanceMargin >= 0 && maintenanceMargin <= initialMargin)) {
+      throw new Error(`Invalid maintenance margin: ${maintenanceMargin}.`);
+    }
+
+    if (maxLeverage !== undefined && !(maxLeverage >= 1)) {
+      throw new Error(`Invalid leverage: ${maxLeverage}.`);
+    }
+
+    const { stopLoss, trailingStop } = this.strategy.options;
+
+    if (runner.config.sizing?.type === 'risk' && !stopLoss && !trailingStop) {
+      throw new Error('Risk based position sizing requires a stop-loss.');
+    }
+
+    const report = new BacktestReport<T>(
+      runner.config.capital,
+      runner.config.metrics,
+      runner.config.lots
+    );
+
+    if (runner.config.execution) {
+      this.runWithOrders(report, runner);
+    } else {
+      this.runOnSignal(report, runner);
+    }
+
+    if (runner.config.benchmark) {
+      report.markBenchmark(
+        getBenchmarkPrices(report.equityCurve, runner.config.benchmark)
+      );
+    }
 
     return report;
   }
+
+  /**
+   * Records the equity of the back-test after a quote.
+   * @param report - `BacktestReport` to mark.
+   * @param runner - `BacktestRunner`.
+   * @param quote - `Quote` to mark.
+   * @param index - Index of the quote.
+   * @param quotes - All quotes of the dataset.
+   */
+  protected markToMarket(
+    report: BacktestReport<T>,
+    runner: BacktestRunner<T>,
+    quote: Quote<T>,
+    index: number,
+    quotes: Quote<T>[]
+  ) {
+    const { config } = runner;
+    const price = this.getMark(runner, quote, index, quotes);
+    // Primitive quotes and quotes without a range only move by their price
+    const read = (attribute: string) => {
+      const value = quote.getValue(attribute);
+
+      return typeof quote.value === 'object' && !isNaN(value) ? value : price;
+    };
+
+    // The equity curve starts after the warm-up quotes
+    report.markToMarket(
+      quote,
+      price,
+      index - (config.warmUp ?? 0),
+      read(config.attributes?.high ?? 'high'),
+      read(config.attributes?.low ?? 'low')
+    );
+  }
 }
@@ -1,19 +1,155 @@
+import {
+  BenchmarkPoint,
+  getBenchmarkCurve,
+  getBenchmarkMetrics,
+} from './benchmark';
+import { TradeCosts } from './costs';
+import { MetricsOptions, getMetrics } from './metrics';
+import { OrderEvent } from './order';
+import { ExitReason } from './position';
 import { Quote } from './quote';
 
+export type TradeSide = 'long' | 'short';
+
+/**
+ * Order in which the lots of an open position are closed, first in first out or last in first out.
+ */
+export type LotMethod = 'fifo' | 'lifo';
+
+/**
+ * Shares of an open position bought or borrowed by one fill.
+ * - `price` - fill price, including slippage.
+ * - `commission` - commission of the fill not yet realised by an exit.
+ */
+export type Lot<T> = {
+  quote: Quote<T>;
+  index: number;
+  shares: number;
+  price: number;
+  commission: number;
+};
+
 /**
  * Creates a back-test report.
  */
 type BacktestReportTrades<T> = {
   type: 'entry' | 'exit';
+  side: TradeSide;
   quote: Quote<T>;
+  timestamp?: number;
   tradedValue: number;
   shares?: number;
   currentCapital: number;
+  cash?: number;
+  exposure?: number;
+  commission?: number;
+  slippage?: number;
+  reason?: ExitReason;
+  averageCost?: number;
+  costBasis?: number;
+  realizedPnl?: number;
+  symbol?: string;
+};
+
+/**
+ * Mark-to-market state of the back-test after a quote.
+ * - `positionValue` - value of the open position, including the margin held for short positions.
+ * - `exposure` - market value of the open shares as a percentage of the equity.
+ * - `drawdown` - percentage the equity is below its running peak.
+ */
+export type EquityPoint<T> = {
+  quote: Quote<T>;
+  index: number;
+  price: number;
+  cash: number;
+  positionValue: number;
+  equity: number;
+  exposure: number;
+  drawdown: number;
+};
+
+/**
+ * Trade from its first entry to the exit that closed it.
+ * - `symbol` - symbol traded, for the trades of a portfolio.
+ * - `entryPrice`, `exitPrice` - average fill prices.
+ * - `returnPercentage` - profit or loss as a percentage of the entry value.
+ * - `mae`, `mfe` - maximum adverse and favourable excursion over the holding window,
+ * as percentages of the entry price.
+ */
+export type RoundTrip<T> = {
+  side: TradeSide;
+  entryIndex: number;
+  exitIndex: number;
+  entryQuote: Quote<T>;
+  exitQuote: Quote<T>;
+  entryTimestamp?: number;
+  exitTimestamp?: number;
+  entryPrice: number;
+  exitPrice: number;
+  shares: number;
+  barsHeld: number;
+  pnl: number;
+  returnPercentage: number;
+  mae: number;
+  mfe: number;
+  reason: ExitReason;
+  symbol?: string;
 };
 
+type OpenRoundTrip<T> = {
+  side: TradeSide;
+  entryIndex: number;
+  entryQuote: Quote<T>;
+  entryValue: number;
+  shares: number;
+  exitValue: number;
+  highest: number;
+  lowest: number;
+};
+
+/**
+ * Forced exit of a position whose equity fell below the maintenance margin.
+ * - `equity` - equity of the account at the liquidation price, before costs.
+ * - `maintenanceMargin` - equity the open position required.
+ */
+export type Liquidation<T> = {
+  quote: Quote<T>;
+  index: number;
+  side: TradeSide;
+  shares: number;
+  price: number;
+  equity: number;
+  maintenanceMargin: number;
+};
+
+/**
+ * Trade statistics of one side of the back-test.
+ */
+export type BacktestReportStatistics = {
+  numberOfTrades: number;
+  numberOfWinningTrades: number;
+  numberOfLosingTrades: number;
+  profit: number;
+  loss: number;
+  winningRate: number;
+};
+
+const newStatistics = (): BacktestReportStatistics => ({
+  numberOfTrades: 0,
+  numberOfWinningTrades: 0,
+  numberOfLosingTrades: 0,
+  profit: 0,
+  loss: 0,
+  winningRate: 0,
+});
+
 export class BacktestReport<T = number> {
   currentCapital: number;
   sharesOwned: number;
+  sharesBorrowed: number;
+  side: TradeSide;
+  marginHeld: number;
+  shortValue: number;
 
   profit: number;
   loss: number;
@@ -25,13 +161,39 @@ export class BacktestReport<T = number> {
   returns: number;
   returnsPercentage: number;
   winningRate: number;
+  grossReturns: number;
+  totalCommission: number;
+  totalSlippage: number;
+  totalBorrowFees: number;
+  totalInterest: number;
+  dividendIncome: number;
+  long: BacktestReportStatistics;
+  short: BacktestReportStatistics;
   trades: BacktestReportTrades<T>[];
+  orders: OrderEvent[];
+  liquidations: Liquidation<T>[];
+  equityCurve: EquityPoint<T>[];
+  benchmarkCurve: BenchmarkPoint<T>[];
+  peakEquity: number;
+  tradeResults: number[];
+  roundTrips: RoundTrip<T>[];
+  metricsOptions: MetricsOptions;
+  lotMethod: LotMethod;
+  lots: Lot<T>[];
+  realizedPnl: number;
+  private openTrip?: OpenRoundTrip<T>;
 
   /**
    * Defines the initial capital for the back-test.
    * @param initialCapital - Initial capital for the back-test.
+   * @param metricsOptions - `MetricsOptions` to annualise the metrics.
+   * @param lotMethod - `LotMethod` realising the profit or loss of partial exits, `fifo` by default.
    */
-  constructor(initialCapital: number) {
+  constructor(
+    initialCapital: number,
+    metricsOptions: MetricsOptions = {},
+    lotMethod: LotMethod = 'fifo'
+  ) {
     this.profit = 0;
     this.loss = 0;
     this.numberOfTrades = 0;
@@ -43,9 +205,32 @@ export class BacktestReport<T = number> {
     this.returns = 0;
     this.returnsPercentage = 0;
     this.winningRate = 0;
+    this.grossReturns = 0;
+    this.totalCommission = 0;
+    this.totalSlippage = 0;
+    this.totalBorrowFees = 0;
+    this.totalInterest = 0;
+    this.dividendIncome = 0;
+    this.long = newStatistics();
+    this.short = newStatistics();
     this.trades = [];
+    this.orders = [];
+    this.liquidations = [];
+    this.equityCurve = [];
+    this.benchmarkCurve = [];
+    this.peakEquity = initialCapital;
+    this.tradeResults = [];
+    this.roundTrips = [];
+    this.metricsOptions = metricsOptions;
+    this.lotMethod = lotMethod;
+    this.lots = [];
+    this.realizedPnl = 0;
     this.currentCapital = initialCapital;
     this.sharesOwned = 0;
+    this.sharesBorrowed = 0;
+    this.side = 'long';
+    this.marginHeld = 0;
+    this.shortValue = 0;
   }
 
   private updateCapital(value: number) {
@@ -56,61 +241,600 @@ export class BacktestReport<T = number> {
     this.returns = this.finalCapital - this.initialCapital;
     this.returnsPercentage =
       ((this.finalCapital - this.initialCapital) * 100) / this.initialCapital;
+    this.grossReturns = this.returns + this.totalCosts;
     this.numberOfTrades += 1;
   }
 
+  /**
+   * Total commission, slippage, borrow fees and margin interest paid.
+   */
+  get totalCosts() {
+    return (
+      this.totalCommission +
+      this.totalSlippage +
+      this.totalBorrowFees +
+      this.totalInterest
+    );
+  }
+
+  /**
+   * Cash borrowed to hold a long position larger than the cash.
+   */
+  get borrowedCash() {
+    return Math.max(-this.finalCapital, 0);
+  }
+
+  /**
+   * Number of shares of the open position, bought or borrowed.
+   */
+  get openShares() {
+    return this.sharesOwned + this.sharesBorrowed;
+  }
+
+  /**
+   * Average fill price of the open shares, 0 without an open position.
+   */
+  get averageCost() {
+    const shares = this.lots.reduce((sum, lot) => sum + lot.shares, 0);
+
+    return shares
+      ? this.lots.reduce((sum, lot) => sum + lot.shares * lot.price, 0) / shares
+      : 0;
+  }
+
+  /**
+   * Adds the costs of a fill to the totals.
+   * @param costs - `TradeCosts` of the fill.
+   */
+  private updateCosts(costs: TradeCosts) {
+    this.totalCommission += costs.commission;
+    this.totalSlippage += costs.slippage;
+  }
+
+  /**
+   * Average profit of the winning trades.
+   */
+  get averageWin() {
+    return this.numberOfWinningTrades
+      ? this.profit / this.numberOfWinningTrades
+      : 0;
+  }
+
+  /**
+   * Average loss of the losing trades.
+   */
+  get averageLoss() {
+    return this.numberOfLosingTrades
+      ? this.loss / this.numberOfLosingTrades
+      : 0;
+  }
+
+  /**
+   * Risk-adjusted performance calculated from the equity curve and the closed trades.
+   */
+  get metrics() {
+    return getMetrics(
+      this.initialCapital,
+      this.equityCurve,
+      this.tradeResults,
+      this.metricsOptions
+    );
+  }
+
+  /**
+   * Performance relative to the benchmark, `undefined` if the back-test has none.
+   */
+  get benchmark() {
+    if (!this.benchmarkCurve.length) {
+      return undefined;
+    }
+
+    return getBenchmarkMetrics(
+      this.initialCapital,
+      this.equityCurve,
+      this.benchmarkCurve,
+      this.metricsOptions
+    );
+  }
+
+  /**
+   * Calculates the value of the cash and the open position at a given price.
+   * @param price - Price of the open position.
+   * @returns equity.
+   */
+  getEquity(price: number) {
+    return (
+      this.finalCapital +
+      this.sharesOwned * price +
+      this.marginHeld +
+      this.shortValue -
+      this.sharesBorrowed * price
+    );
+  }
+
+  /**
+   * Records the equity of the back-test after a quote, valuing the open position at a given price.
+   * The high and low of the quote extend the excursions of the open trade,
+   * except on the quote of its entry where only the price is used.
+   * @param quote - `Quote` to mark.
+   * @param price - Price of the open position after the quote.
+   * @param index - Index of the quote, the next point of the curve if not given.
+   * @param high - Highest price of the quote, `price` by default.
+   * @param low - Lowest price of the quote, `price` by default.
+   * @returns `EquityPoint`.
+   */
+  markToMarket(
+    quote: Quote<T>,
+    price: number,
+    index = this.equityCurve.length,
+    high = price,
+    low = price
+  ) {
+    if (this.openTrip) {
+      const isEntryQuote = this.openTrip.entryIndex === index;
+
+      this.updateExcursion(isEntryQuote ? price : high);
+      this.updateExcursion(isEntryQuote ? price : low);
+    }
+
+    const equity = this.getEquity(price);
+    const marketValue = this.openShares * price;
+
+    this.peakEquity = Math.max(this.peakEquity, equity);
+
+    const point: EquityPoint<T> = {
+      quote,
+      index,
+      price,
+      cash: this.finalCapital,
+      positionValue: equity - this.finalCapital,
+      equity,
+      exposure: equity > 0 ? (marketValue * 100) / equity : 0,
+      drawdown:
+        this.peakEquity > 0
+          ? ((this.peakEquity - equity) * 100) / this.peakEquity
+          : 0,
+    };
+
+    this.equityCurve.push(point);
+
+    return point;
+  }
+
+  /**
+   * Extends the price range of the open trade.
+   * @param price - Price reached while the trade is open.
+   */
+  private updateExcursion(price: number) {
+    if (!this.openTrip || isNaN(price)) {
+      return;
+    }
+
+    this.openTrip.highest = Math.max(this.openTrip.highest, price);
+    this.openTrip.lowest = Math.min(this.openTrip.lowest, price);
+  }
+
+  /**
+   * Records buying and holding the benchmark with the initial capital alongside the equity curve.
+   * @param prices - Benchmark price of every point of the equity curve.
+   * @returns `BenchmarkPoint` list.
+   */
+  markBenchmark(prices: number[]) {
+    this.benchmarkCurve = getBenchmarkCurve(
+      this.initialCapital,
+      this.equityCurve,
+      prices
+    );
+
+    return this.benchmarkCurve;
+  }
+
+  /**
+   * Pays the fee for borrowing the shares of an open short position.
+   * @param fee - Borrow fee accrued over a quote.
+   */
+  markBorrowFee(fee: number) {
+    this.finalCapital -= fee;
+    this.totalBorrowFees += fee;
+  }
+
+  /**
+   * Pays the interest on the cash borrowed from a margin account.
+   * @param interest - Interest accrued over a quote.
+   */
+  markInterest(interest: number) {
+    this.finalCapital -= interest;
+    this.totalInterest += interest;
+  }
+
+  /**
+   * Credits the dividend of the shares owned, or pays that of the shares borrowed.
+   * @param dividend - Dividend per share.
+   * @returns dividend income, negative for a short position.
+   */
+  markDividend(dividend: number) {
+    const income = (this.sharesOwned - this.sharesBorrowed) * dividend;
+
+    this.finalCapital += income;
+    this.dividendIncome += income;
+
+    return income;
+  }
+
+  /**
+   * Converts the open position and its lots to the shares of a split, keeping their value.
+   * @param ratio - New shares per old share.
+   */
+  markSplit(ratio: number) {
+    this.sharesOwned *= ratio;
+    this.sharesBorrowed *= ratio;
+    this.lots.forEach((lot) => {
+      lot.shares *= ratio;
+      lot.price /= ratio;
+    });
+
+    if (this.openTrip) {
+      this.openTrip.shares *= ratio;
+      this.openTrip.highest /= ratio;
+      this.openTrip.lowest /= ratio;
+    }
+  }
+
+  /**
+   * Records the forced liquidation of the open position, before its exit is marked.
+   * @param quote - `Quote` of the liquidation.
+   * @param price - Price the position is liquidated at.
+   * @param maintenanceMargin - Equity the open position required.
+   * @returns `Liquidation`.
+   */
+  markLiquidation(quote: Quote<T>, price: number, maintenanceMargin: number) {
+    const liquidation: Liquidation<T> = {
+      quote,
+      index: this.equityCurve.length,
+      side: this.side,
+      shares: this.openShares,
+      price,
+      equity: this.getEquity(price),
+      maintenanceMargin,
+    };
+
+    this.liquidations.push(liquidation);
+
+    return liquidation;
+  }
+
+  /**
+   * Records order submissions, fills, cancellations and expirations.
+   * @param events - `OrderEvent` list.
+   */
+  markOrders(...events: OrderEvent[]) {
+    this.orders.push(...events);
+  }
+
+  /**
+   * Removes exited shares from the open lots in the order of the lot method.
+   * @param shares - Number of shares exited.
+   * @returns cost and unrealised commission of the removed shares.
+   */
+  private closeLots(shares: number) {
+    let remaining = shares;
+    let cost = 0;
+    let commission = 0;
+
+    while (remaining > 0 && this.lots.length) {
+      const lot =
+        this.lotMethod === 'lifo'
+          ? this.lots[this.lots.length - 1]
+          : this.lots[0];
+      const closed = Math.min(lot.shares, remaining);
+      const portion = closed / lot.shares;
+
+      cost += closed * lot.price;
+      commission += lot.commission * portion;
+      lot.commission -= lot.commission * portion;
+      lot.shares -= closed;
+      remaining -= closed;
+
+      // Fractional shares may leave a lot that is empty up to rounding
+      if (lot.shares <= 1e-9) {
+        this.lots.splice(this.lots.indexOf(lot), 1);
+      }
+    }
+
+    return { cost, commission };
+  }
+
+  /**
+   * Records the open trade as a round trip.
+   * @param quote - `Quote` of the exit that closed the trade.
+   * @param pnl - Profit or loss of the trade.
+   * @param reason - Rule that closed the trade.
+   */
+  private closeRoundTrip(quote: Quote<T>, pnl: number, reason: ExitReason) {
+    const trip = this.openTrip;
+
+    if (!trip) {
+      return;
+    }
+
+    const entryPrice = trip.shares ? trip.entryValue / trip.shares : 0;
+    const exitPrice = trip.shares ? trip.exitValue / trip.shares : 0;
+    const exitIndex = this.equityCurve.length;
+    const up = entryPrice
+      ? ((trip.highest - entryPrice) * 100) / entryPrice
+      : 0;
+    const down = entryPrice
+      ? ((entryPrice - trip.lowest) * 100) / entryPrice
+      : 0;
+
+    this.roundTrips.push({
+      side: trip.side,
+      entryIndex: trip.entryIndex,
+      exitIndex,
+      entryQuote: trip.entryQuote,
+      exitQuote: quote,
+      entryTimestamp: trip.entryQuote.getTimestamp(),
+      exitTimestamp: quote.getTimestamp(),
+      entryPrice,
+      exitPrice,
+      shares: trip.shares,
+      barsHeld: exitIndex - trip.entryIndex,
+      pnl,
+      returnPercentage: trip.entryValue ? (pnl * 100) / trip.entryValue : 0,
+      mae: Math.max(trip.side === 'short' ? up : down, 0),
+      mfe: Math.max(trip.side === 'short' ? down : up, 0),
+      reason,
+    });
+    this.openTrip = undefined;
+  }
+
   /**
    * Updates the capital according to the traded value after executing the entry position.
-   * @param tradedValue - Traded value at the time.
+   * Adds to the shares owned if the position is already partially filled or scaled in, as a new lot.
+   * Short entries borrow the shares and hold `margin` times their value from the cash.
+   * @param tradedValue - Traded value at the time, including slippage.
+   * @param shares - Number of shares to buy, all available capital if not given.
+   * @param costs - Commission and slippage paid on the fill.
+   * @param side - `long` or `short`, `long` by default.
+   * @param margin - Fraction of the short value held as margin, e.g. 0.5 for 50%.
    */
-  markEntry(tradedValue: number, quote: Quote<T>) {
-    // Calculate shares with all available capital
-    const shares = this.finalCapital / tradedValue;
-    this.sharesOwned = shares;
-    this.finalCapital = 0; // All capital used to buy shares
-    
+  markEntry(
+    tradedValue: number,
+    quote: Quote<T>,
+    shares = this.finalCapital / tradedValue,
+    costs: TradeCosts = { commission: 0, slippage: 0 },
+    side: TradeSide = 'long',
+    margin = 1
+  ) {
+    const equity = this.finalCapital;
+    const cost = shares * tradedValue;
+
+    this.side = side;
+
+    // Quotes are indexed by the equity curve, which is marked after every quote
+    this.openTrip ??= {
+      side,
+      entryIndex: this.equityCurve.length,
+      entryQuote: quote,
+      entryValue: 0,
+      shares: 0,
+      exitValue: 0,
+      highest: tradedValue,
+      lowest: tradedValue,
+    };
+    this.openTrip.entryValue += cost;
+    this.openTrip.shares += shares;
+    this.lots.push({
+      quote,
+      index: this.equityCurve.length,
+      shares,
+      price: tradedValue,
+      commission: costs.commission,
+    });
+
+    if (side === 'short') {
+      this.sharesBorrowed += shares;
+      this.shortValue += cost;
+      this.marginHeld += cost * margin;
+      this.finalCapital -= cost * margin + costs.commission;
+    } else {
+      this.sharesOwned += shares;
+      this.finalCapital -= cost + costs.commission;
+    }
+
+    this.updateCosts(costs);
+
     this.trades.push({
       type: 'entry',
+      side,
       quote,
+      timestamp: quote.getTimestamp(),
       tradedValue,
       shares,
       currentCapital: this.finalCapital,
+      cash: this.finalCapital,
+      exposure: equity ? (cost * 100) / equity : 0,
+      ...costs,
+      averageCost: this.averageCost,
     });
   }
 
   /**
    * Updates the capital according to the traded value after executing the exit position.
+   * Short exits buy back the borrowed shares and release their margin.
+   * The exited shares are taken from the open lots to realise their profit or loss.
+   * The trade is only closed once all shares are sold or bought back.
    * @param tradedValue - Traded value at the time.
+   * @param reason - Rule that closed the trade, `signal` by default.
+   * @param costs - Commission and slippage paid on the fill.
+   * @param shares - Number of shares to sell, all shares of the open position if not given.
    */
-  markExit(tradedValue: number, quote: Quote<T>) {
-    // Calculate proceeds from selling all shares
-    const proceeds = this.sharesOwned * tradedValue;
-    this.finalCapital = proceeds;
-    
+  markExit(
+    tradedValue: number,
+    quote: Quote<T>,
+    reason: ExitReason = 'signal',
+    costs: TradeCosts = { commission: 0, slippage: 0 },
+    shares = this.openShares
+  ) {
+    const { side } = this;
+    const lots = this.closeLots(shares);
+    const proceeds = shares * tradedValue;
+    const realizedPnl =
+      (side === 'short' ? lots.cost - proceeds : proceeds - lots.cost) -
+      lots.commission -
+      costs.commission;
+
+    this.realizedPnl += realizedPnl;
+
+    if (side === 'short') {
+      // Release the margin and settle the short value of the covered shares
+      const portion = this.sharesBorrowed ? shares / this.sharesBorrowed : 0;
+      const margin = this.marginHeld * portion;
+      const value = this.shortValue * portion;
+
+      this.finalCapital +=
+        margin + value - shares * tradedValue - costs.commission;
+      this.marginHeld -= margin;
+      this.shortValue -= value;
+      this.sharesBorrowed -= shares;
+    } else {
+      this.finalCapital += proceeds - costs.commission;
+      this.sharesOwned -= shares;
+    }
+
+    this.updateCosts(costs);
+
+    if (this.openTrip) {
+      this.openTrip.exitValue += shares * tradedValue;
+      this.updateExcursion(tradedValue);
+    }
+
     this.trades.push({
       type: 'exit',
+      side,
       quote,
+      timestamp: quote.getTimestamp(),
       tradedValue,
-      shares: this.sharesOwned,
+      shares,
       currentCapital: this.finalCapital,
+      ...costs,
+      reason,
+      costBasis: shares ? lots.cost / shares : 0,
+      realizedPnl,
     });
-    
-    const hasWon = this.finalCapital > this.currentCapital;
 
-    if (hasWon) {
-      this.profit += this.finalCapital - this.currentCapital;
+    if (this.openShares > 0) {
+      return;
+    }
+
+    const result = this.finalCapital - this.currentCapital;
+    const statistics = this[side];
+
+    this.tradeResults.push(result);
+    this.closeRoundTrip(quote, result, reason);
+
+    if (result > 0) {
+      this.profit += result;
       this.numberOfWinningTrades += 1;
+      statistics.profit += result;
+      statistics.numberOfWinningTrades += 1;
     } else {
-      this.loss += this.currentCapital - this.finalCapital;
+      this.loss -= result;
       this.numberOfLosingTrades += 1;
+      statistics.loss -= result;
+      statistics.numberOfLosingTrades += 1;
     }
 
     this.winningRate =
       this.numberOfWinningTrades /
       (this.numberOfWinningTrades + this.numberOfLosingTrades);
+    statistics.numberOfTrades += 1;
+    statistics.winningRate =
+      statistics.numberOfWinningTrades / statistics.numberOfTrades;
 
     this.sharesOwned = 0; // Reset shares after exit
+    this.sharesBorrowed = 0;
+    this.marginHeld = 0;
+    this.shortValue = 0;
+    this.lots = [];
     this.currentCapital = this.finalCapital;
     this.updateTotals();
   }
+
+  /**
+   * Appends a flat back-test that started with the final capital of this one, e.g. the next out-of-sample window.
+   * Indices of the appended equity curve and round trips continue after those of this report.
+   * @param report - `BacktestReport` to append.
+   * @returns self reference.
+   */
+  append(report: BacktestReport<T>) {
+    const offset = this.equityCurve.length;
+    const addStatistics = (
+      statistics: BacktestReportStatistics,
+      other: BacktestReportStatistics
+    ) => {
+      statistics.numberOfTrades += other.numberOfTrades;
+      statistics.numberOfWinningTrades += other.numberOfWinningTrades;
+      statistics.numberOfLosingTrades += other.numberOfLosingTrades;
+      statistics.profit += other.profit;
+      statistics.loss += other.loss;
+      statistics.winningRate = statistics.numberOfTrades
+        ? statistics.numberOfWinningTrades / statistics.numberOfTrades
+        : 0;
+    };
+
+    this.profit += report.profit;
+    this.loss += report.loss;
+    this.numberOfTrades += report.numberOfTrades;
+    this.numberOfWinningTrades += report.numberOfWinningTrades;
+    this.numberOfLosingTrades += report.numberOfLosingTrades;
+    this.winningRate = this.numberOfTrades
+      ? this.numberOfWinningTrades / this.numberOfTrades
+      : 0;
+    addStatistics(this.long, report.long);
+    addStatistics(this.short, report.short);
+
+    this.totalCommission += report.totalCommission;
+    this.totalSlippage += report.totalSlippage;
+    this.totalBorrowFees += report.totalBorrowFees;
+    this.totalInterest += report.totalInterest;
+    this.dividendIncome += report.dividendIncome;
+    this.realizedPnl += report.realizedPnl;
+    this.trades.push(...report.trades);
+    this.orders.push(...report.orders);
+    this.liquidations.push(
+      ...report.liquidations.map((liquidation) => ({
+        ...liquidation,
+        index: liquidation.index + offset,
+      }))
+    );
+    this.tradeResults.push(...report.tradeResults);
+    this.roundTrips.push(
+      ...report.roundTrips.map((trip) => ({
+        ...trip,
+        entryIndex: trip.entryIndex + offset,
+        exitIndex: trip.exitIndex + offset,
+      }))
+    );
+
+    report.equityCurve.forEach((point) => {
+      this.peakEquity = Math.max(this.peakEquity, point.equity);
+      this.equityCurve.push({
+        ...point,
+        index: point.index + offset,
+        drawdown:
+          this.peakEquity > 0
+            ? ((this.peakEquity - point.equity) * 100) / this.peakEquity
+            : 0,
+      });
+    });
+
+    this.finalCapital = report.finalCapital;
+    this.currentCapital = report.currentCapital;
+    this.returns = this.finalCapital - this.initialCapital;
+    this.returnsPercentage = (this.returns * 100) / this.initialCapital;
+    this.grossReturns = this.returns + this.totalCosts;
+
+    return this;
+  }
 }
@@ -0,0 +1,184 @@
+import type { Dataset } from './dataset';
+import type { EquityPoint } from './backtestReport';
+import {
+  DEFAULT_BARS_PER_YEAR,
+  MetricsOptions,
+  covariance,
+  getReturns,
+  mean,
+  standardDeviation,
+} from './metrics';
+import { Quote } from './quote';
+
+/**
+ * Defines what the back-test is compared against.
+ * - `dataset` - separate benchmark, e.g. an index, buy-and-hold of the back-tested dataset if not given.
+ * - `attribute` - attribute holding the price of object benchmark quotes, `close` by default.
+ *
+ * Benchmark quotes are aligned to the back-test by their `date` when both have one, by index otherwise.
+ */
+export type BenchmarkOptions = {
+  // Only the quotes are read, which lets datasets of any quote type be used
+  dataset?: Pick<Dataset<unknown>, 'quotes'>;
+  attribute?: string;
+};
+
+/**
+ * Value of buying and holding the benchmark with the initial capital, after a quote of the back-test.
+ */
+export type BenchmarkPoint<T> = {
+  quote: Quote<T>;
+  index: number;
+  price: number;
+  equity: number;
+};
+
+/**
+ * Performance of a back-test relative to its benchmark.
+ * Returns, alpha, tracking error and captures are percentages, alpha and tracking error annualised.
+ */
+export type BenchmarkMetrics = {
+  excessReturn: number;
+  alpha: number;
+  beta: number;
+  correlation: number;
+  trackingError: number;
+  informationRatio: number;
+  upCapture: number;
+  downCapture: number;
+};
+
+/**
+ * Reads the benchmark price for every point of an equity curve.
+ * @param curve - `EquityPoint` of every quote of the back-test.
+ * @param options - `BenchmarkOptions`.
+ * @returns benchmark prices.
+ */
+export function getBenchmarkPrices<T>(
+  curve: EquityPoint<T>[],
+  options: BenchmarkOptions = {}
+) {
+  const { dataset, attribute = 'close' } = options;
+
+  if (!dataset) {
+    return curve.map((p) => p.price);
+  }
+
+  const { quotes } = dataset;
+  let position = 0;
+
+  return curve.map((point) => {
+    const timestamp = point.quote.getTimestamp();
+
+    if (timestamp === undefined || quotes[0]?.getTimestamp() === undefined) {
+      position = Math.min(point.index, quotes.length - 1);
+    } else {
+      // Carry the last benchmark quote forward over dates it has no quote for
+      while (
+        position < quotes.length - 1 &&
+        (quotes[position + 1].getTimestamp() ?? Infinity) <= timestamp
+      ) {
+        position += 1;
+      }
+    }
+
+    return quotes[position]?.getValue(attribute) ?? NaN;
+  });
+}
+
+/**
+ * Calculates the buy-and-hold equity of a benchmark aligned to an equity curve.
+ * @param initialCapital - Capital the back-test started with.
+ * @param curve - `EquityPoint` of every quote of the back-test.
+ * @param prices - Benchmark price of every point of the curve.
+ * @returns `BenchmarkPoint` list.
+ */
+export function getBenchmarkCurve<T>(
+  initialCapital: number,
+  curve: EquityPoint<T>[],
+  prices: number[]
+): BenchmarkPoint<T>[] {
+  const [first] = prices;
+
+  return curve.map((point, i) => ({
+    quote: point.quote,
+    index: point.index,
+    price: prices[i],
+    equity: first ? (initialCapital * prices[i]) / first : initialCapital,
+  }));
+}
+
+/**
+ * Calculates the average strategy return relative to the average benchmark return,
+ * over the quotes the benchmark moved in a given direction.
+ * @param returns - Strategy returns.
+ * @param benchmarkReturns - Benchmark returns.
+ * @param up - Whether to measure the quotes the benchmark went up or down.
+ * @returns capture in percent, 0 if the benchmark never moved that way.
+ */
+function getCapture(
+  returns: number[],
+  benchmarkReturns: number[],
+  up: boolean
+) {
+  const quotes = benchmarkReturns
+    .map((r, i) => i)
+    .filter((i) => (up ? benchmarkReturns[i] > 0 : benchmarkReturns[i] < 0));
+  const benchmark = mean(quotes.map((i) => benchmarkReturns[i]));
+
+  return benchmark
+    ? (mean(quotes.map((i) => returns[i])) * 100) / benchmark
+    : 0;
+}
+
+/**
+ * Compares the performance of a back-test with its benchmark.
+ * @param initialCapital - Capital the back-test started with.
+ * @param curve - `EquityPoint` of every quote of the back-test.
+ * @param benchmark - `BenchmarkPoint` of every quote of the back-test.
+ * @param options - `MetricsOptions`.
+ * @returns `BenchmarkMetrics`.
+ */
+export function getBenchmarkMetrics<T>(
+  initialCapital: number,
+  curve: EquityPoint<T>[],
+  benchmark: BenchmarkPoint<T>[],
+  options: MetricsOptions = {}
+): BenchmarkMetrics {
+  const barsPerYear = options.barsPerYear ?? DEFAULT_BARS_PER_YEAR;
+  const riskFree = (options.riskFreeRate ?? 0) / 100 / barsPerYear;
+  const returns = getReturns([initialCapital, ...curve.map((p) => p.equity)]);
+  const benchmarkReturns = getReturns([
+    initialCapital,
+    ...benchmark.map((p) => p.equity),
+  ]);
+  const active = returns.map((r, i) => r - benchmarkReturns[i]);
+
+  const variance = covariance(benchmarkReturns, benchmarkReturns);
+  const deviation =
+    standardDeviation(returns) * standardDeviation(benchmarkReturns);
+  const beta = variance ? covariance(returns, benchmarkReturns) / variance : 0;
+  const trackingError = standardDeviation(active) * Math.sqrt(barsPerYear);
+  const last = (points: { equity: number }[]) =>
+    points.length ? points[points.length - 1].equity : initialCapital;
+
+  return {
+    excessReturn: initialCapital
+      ? ((last(curve) - last(benchmark)) * 100) / initialCapital
+      : 0,
+    alpha:
+      (mean(returns) - riskFree - beta * (mean(benchmarkReturns) - riskFree)) *
+      barsPerYear *
+      100,
+    beta,
+    correlation: deviation
+      ? covariance(returns, benchmarkReturns) / deviation
+      : 0,
+    trackingError: trackingError * 100,
+    informationRatio: trackingError
+      ? (mean(active) * barsPerYear) / trackingError
+      : 0,
+    upCapture: getCapture(returns, benchmarkReturns, true),
+    downCapture: getCapture(returns, benchmarkReturns, false),
+  };
+}
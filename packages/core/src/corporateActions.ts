@@ -0,0 +1,161 @@
+import { Quote, QuoteAttributes, toTimestamp } from './quote';
+
+/**
+ * Split or cash dividend effective from the first quote dated on or after `date`, its ex-date.
+ * - `date` - `Date`, date string or timestamp.
+ * - `split` - new shares per old share, e.g. 4 for a 4:1 split, 0.5 for a 1:2 reverse split.
+ * - `dividend` - cash paid per share held before the ex-date.
+ */
+export type CorporateAction = {
+  date: Date | string | number;
+  split?: number;
+  dividend?: number;
+};
+
+/**
+ * Corporate actions of one ex-date, merged into a single event.
+ * - `index` - position of the first quote of the ex-date.
+ * - `split` - combined split ratio, 1 without a split.
+ * - `dividend` - total dividend per share held before the event, paid before the split.
+ */
+export type CorporateActionEvent = {
+  index: number;
+  split: number;
+  dividend: number;
+};
+
+/**
+ * Reads the time of a corporate action.
+ * @param action - `CorporateAction`.
+ * @returns timestamp in milliseconds since the epoch.
+ */
+function getActionTimestamp({ date }: CorporateAction) {
+  const timestamp = toTimestamp(date);
+
+  if (timestamp === undefined) {
+    throw new Error(`Invalid corporate action date: ${date}.`);
+  }
+
+  return timestamp;
+}
+
+/**
+ * Aligns corporate actions with the quotes they take effect on.
+ * Actions before the second quote or after the last one have no quotes to adjust and are ignored,
+ * as are quotes without a date.
+ * @param quotes - Quotes ordered by date.
+ * @param actions - `CorporateAction` list, in any order.
+ * @param attribute - Attribute holding the date of the quotes, `date` by default.
+ * @returns `CorporateActionEvent` by quote position.
+ */
+export function getCorporateActionEvents<T>(
+  quotes: Quote<T>[],
+  actions: CorporateAction[] = [],
+  attribute = 'date'
+) {
+  const events = new Map<number, CorporateActionEvent>();
+  const timestamps = quotes.map((quote) => quote.getTimestamp(attribute));
+
+  actions.forEach((action) => {
+    const { split = 1, dividend = 0 } = action;
+
+    if (!(split > 0)) {
+      throw new Error(`Invalid split ratio: ${split}.`);
+    }
+
+    if (!(dividend >= 0)) {
+      throw new Error(`Invalid dividend: ${dividend}.`);
+    }
+
+    const timestamp = getActionTimestamp(action);
+    const index = timestamps.findIndex(
+      (t) => t !== undefined && t >= timestamp
+    );
+
+    if (index < 1) {
+      return;
+    }
+
+    const event = events.get(index) ?? { index, split: 1, dividend: 0 };
+
+    event.dividend += dividend;
+    event.split *= split;
+    events.set(index, event);
+  });
+
+  return events;
+}
+
+/**
+ * Back-adjusts the value of a quote, leaving other attributes as they are.
+ * @param value - Number or object value of the quote.
+ * @param price - Factor of the open, high, low and close prices.
+ * @param volume - Factor of the volume.
+ * @param attributes - `QuoteAttributes` of object values.
+ * @returns adjusted value.
+ */
+export function adjustQuoteValue<T>(
+  value: T,
+  price: number,
+  volume: number,
+  attributes: QuoteAttributes = {}
+): T {
+  if (typeof value === 'number') {
+    return (value * price) as T;
+  }
+
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  const adjusted = { ...value } as Record<string, unknown>;
+  const scale = (attribute: string, factor: number) => {
+    if (typeof adjusted[attribute] === 'number') {
+      adjusted[attribute] = (adjusted[attribute] as number) * factor;
+    }
+  };
+
+  scale(attributes.open ?? 'open', price);
+  scale(attributes.high ?? 'high', price);
+  scale(attributes.low ?? 'low', price);
+  scale(attributes.close ?? 'close', price);
+  scale(attributes.volume ?? 'volume', volume);
+
+  return adjusted as T;
+}
+
+/**
+ * Back-adjusts quotes for the corporate actions that follow them, so that the latest prices stay unchanged.
+ * Prices before a split are divided by its ratio and volumes multiplied by it.
+ * Prices before a dividend are multiplied by 1 minus the dividend over the close before the ex-date.
+ * @param quotes - Quotes ordered by date.
+ * @param actions - `CorporateAction` list.
+ * @param attributes - `QuoteAttributes` of object values.
+ * @returns adjusted values of the quotes.
+ */
+export function adjustForCorporateActions<T>(
+  quotes: Quote<T>[],
+  actions: CorporateAction[],
+  attributes: QuoteAttributes = {}
+) {
+  const events = getCorporateActionEvents(quotes, actions, attributes.date);
+  const values = quotes.map((quote) => quote.value);
+  let price = 1;
+  let volume = 1;
+
+  for (let index = quotes.length - 1; index >= 0; index--) {
+    values[index] = adjustQuoteValue(values[index], price, volume, attributes);
+
+    const event = events.get(index);
+
+    if (event) {
+      // Raw dividend and close are in the same units, whatever the later adjustments
+      const close = quotes[index - 1].getValue(attributes.close ?? 'close');
+
+      price *= (1 - (close > 0 ? event.dividend / close : 0)) / event.split;
+      volume *= event.split;
+    }
+  }
+
+  return values;
+}
@@ -0,0 +1,140 @@
+import { Quote, QuoteAttributes } from './quote';
+
+/**
+ * Defines the commission paid on every fill.
+ * - `per-share` - `value` per share, at least `minimum` per fill.
+ * - `per-trade` - a flat `value` per fill.
+ * - `percentage` - `value` percent of the traded notional, e.g. 0.1 for 0.1%.
+ * - `tiered` - `rate` percent of the notional of the first tier the notional fits `upTo`.
+ */
+export type CommissionModel =
+  | { type: 'per-share'; value: number; minimum?: number }
+  | { type: 'per-trade'; value: number }
+  | { type: 'percentage'; value: number }
+  | { type: 'tiered'; tiers: { upTo?: number; rate: number }[] };
+
+/**
+ * Defines the price slippage of every fill, paid against the trader.
+ * - `bps` - `value` basis points of the price.
+ * - `spread` - `value` times the high-low range of the quote, e.g. 0.1 for 10% of the range.
+ * - `volume` - `value` percent of the price times the square root of the volume participation.
+ */
+export type SlippageModel =
+  | { type: 'bps'; value: number }
+  | { type: 'spread'; value: number }
+  | { type: 'volume'; value: number };
+
+export type CostModel = {
+  commission?: CommissionModel;
+  slippage?: SlippageModel;
+};
+
+export type TradeCosts = {
+  commission: number;
+  slippage: number;
+};
+
+/**
+ * Calculates the commission of a fill.
+ * @param model - `CommissionModel`, no commission if not given.
+ * @param shares - Number of shares traded.
+ * @param price - Fill price.
+ * @returns commission.
+ */
+export function getCommission(
+  model: CommissionModel | undefined,
+  shares: number,
+  price: number
+) {
+  const notional = Math.abs(shares * price);
+
+  switch (model?.type) {
+    case undefined:
+      return 0;
+    case 'per-share':
+      return Math.max(Math.abs(shares) * model.value, model.minimum ?? 0);
+    case 'per-trade':
+      return model.value;
+    case 'percentage':
+      return (notional * model.value) / 100;
+    case 'tiered': {
+      const tier =
+        model.tiers.find((t) => t.upTo === undefined || notional <= t.upTo) ??
+        model.tiers[model.tiers.length - 1];
+
+      return tier ? (notional * tier.rate) / 100 : 0;
+    }
+  }
+}
+
+/**
+ * Calculates the slippage per share of a fill.
+ * @param model - `SlippageModel`, no slippage if not given.
+ * @param shares - Number of shares traded.
+ * @param price - Price before slippage.
+ * @param quote - `Quote` the fill happens on.
+ * @param attributes - `QuoteAttributes` to read high, low and volume of the quote.
+ * @returns slippage in price units per share.
+ */
+export function getSlippage<T>(
+  model: SlippageModel | undefined,
+  shares: number,
+  price: number,
+  quote: Quote<T>,
+  attributes: QuoteAttributes = {}
+) {
+  // Primitive quotes carry no range or volume to slip on
+  const hasBar = typeof quote.value === 'object';
+
+  switch (model?.type) {
+    case undefined:
+      return 0;
+    case 'bps':
+      return (price * model.value) / 10000;
+    case 'spread': {
+      const high = quote.getValue(attributes.high ?? 'high');
+      const low = quote.getValue(attributes.low ?? 'low');
+
+      return !hasBar || isNaN(high - low) ? 0 : (high - low) * model.value;
+    }
+    case 'volume': {
+      const volume = quote.getValue(attributes.volume ?? 'volume');
+
+      if (!hasBar || !volume || isNaN(volume)) {
+        return 0;
+      }
+
+      return (price * model.value * Math.sqrt(Math.abs(shares) / volume)) / 100;
+    }
+  }
+}
+
+/**
+ * Reduces a number of shares until their cost including commission fits the available cash.
+ * @param shares - Number of shares to buy.
+ * @param price - Fill price.
+ * @param cash - Available cash.
+ * @param model - `CommissionModel`.
+ * @returns number of shares that can be afforded.
+ */
+export function getAffordableShares(
+  shares: number,
+  price: number,
+  cash: number,
+  model?: CommissionModel
+) {
+  let affordable = shares;
+
+  // Commission depends on the size, so settle it in a couple of passes
+  for (let i = 0; i < 3; i++) {
+    const cost = affordable * price + getCommission(model, affordable, price);
+
+    if (cost <= cash) {
+      break;
+    }
+
+    affordable = (cash - getCommission(model, affordable, price)) / price;
+  }
+
+  return Math.max(affordable, 0);
+}
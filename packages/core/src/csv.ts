@@ -0,0 +1,390 @@
+import { Dataset } from './dataset';
+import { Quote } from './quote';
+import { getTimeZone, parseOffset } from './time';
+
+/**
+ * Value of a quote read from CSV, every mapped column by attribute name.
+ * Date columns are read as `Date`, numeric fields as numbers and other fields as strings.
+ */
+export type CSVValue = Record<string, number | string | Date>;
+
+/**
+ * Options to read CSV data.
+ * - `delimiter` - character between fields, `,` by default.
+ * - `header` - whether the first row names the columns, `true` by default.
+ * - `columns` - column of every attribute, by header name or zero based position.
+ * Every column is read under its header name by default, columns are required without a header.
+ * - `date` - attribute read as a date, `date` by default.
+ * - `dateFormat` - pattern of the dates with `YYYY`, `MM`, `DD`, `HH`, `mm`, `ss`, `SSS` and `Z` (offset) tokens,
+ * or `X` for timestamps in seconds and `x` in milliseconds. ISO 8601 dates by default.
+ * - `timezone` - `UTC`, an offset such as `+05:30` or an IANA time zone such as `America/New_York`,
+ * for dates without an offset. `UTC` by default.
+ */
+export type CSVReadOptions = {
+  delimiter?: string;
+  header?: boolean;
+  columns?: Record<string, string | number>;
+  date?: string;
+  dateFormat?: string;
+  timezone?: string;
+};
+
+/**
+ * Options to write CSV data.
+ * - `delimiter` - character between fields, `,` by default.
+ * - `columns` - attributes to write, every attribute of the first quote by default and `value` for numeric quotes.
+ * - `indicators` - whether to add a column for every indicator applied to the dataset, or the names of the indicators.
+ * - `strategies` - whether to add a `<name>.position` column for every strategy prepared on the dataset,
+ * or the names of the strategies.
+ */
+export type CSVWriteOptions = {
+  delimiter?: string;
+  columns?: string[];
+  indicators?: boolean | string[];
+  strategies?: boolean | string[];
+};
+
+const DATE_TOKENS: Record<string, string> = {
+  YYYY: '(\\d{4})',
+  MM: '(\\d{1,2})',
+  DD: '(\\d{1,2})',
+  HH: '(\\d{1,2})',
+  mm: '(\\d{2})',
+  ss: '(\\d{2})',
+  SSS: '(\\d{1,3})',
+  Z: '(Z|[+-]\\d{2}:?\\d{2})',
+};
+
+const ISO_DATE =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3})\d*)?)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/;
+
+/**
+ * Creates a function that reads dates of a given format.
+ * Dates that don't match the ISO 8601 default are left to `Date.parse`.
+ * @param format - Date pattern, ISO 8601 by default.
+ * @param timezone - Time zone of dates without an offset, `UTC` by default.
+ * @returns function of the date text, returning a timestamp or `NaN`.
+ */
+function createDateParser(format?: string, timezone = 'UTC') {
+  const zone = getTimeZone(timezone);
+
+  if (format === 'X' || format === 'x') {
+    const scale = format === 'X' ? 1000 : 1;
+
+    return (text: string) => Number(text) * scale;
+  }
+
+  const tokens = format
+    ? []
+    : ['YYYY', 'MM', 'DD', 'HH', 'mm', 'ss', 'SSS', 'Z'];
+  const pattern = format
+    ? new RegExp(
+        `^${format.replace(
+          /YYYY|SSS|MM|DD|HH|mm|ss|Z|[.*+?^${}()|[\]\\]/g,
+          (match) => {
+            if (DATE_TOKENS[match]) {
+              tokens.push(match);
+
+              return DATE_TOKENS[match];
+            }
+
+            return `\\${match}`;
+          }
+        )}$`
+      )
+    : ISO_DATE;
+
+  return (text: string) => {
+    const match = pattern.exec(text);
+
+    if (!match) {
+      return format ? NaN : Date.parse(text);
+    }
+
+    const part = (token: string) => {
+      const index = tokens.indexOf(token);
+
+      return index < 0 ? undefined : match[index + 1];
+    };
+    const wall = Date.UTC(
+      Number(part('YYYY') ?? 1970),
+      Number(part('MM') ?? 1) - 1,
+      Number(part('DD') ?? 1),
+      Number(part('HH') ?? 0),
+      Number(part('mm') ?? 0),
+      Number(part('ss') ?? 0),
+      Number((part('SSS') ?? '0').padEnd(3, '0'))
+    );
+    const offset = part('Z');
+
+    return offset === undefined
+      ? zone.fromLocal(wall)
+      : wall - parseOffset(offset);
+  };
+}
+
+/**
+ * Reads CSV text chunk by chunk into quote values.
+ * Fields may be quoted, with `""` for a quote, and span lines and chunks.
+ */
+class CSVReader<T> {
+  protected _options: CSVReadOptions;
+  protected _parseDate: (text: string) => number;
+  protected _columns?: [string, number][];
+  protected _fields: string[];
+  protected _field: string;
+  protected _quoted: boolean;
+  protected _closed: boolean;
+  protected _rows: number;
+
+  /**
+   * Creates a reader.
+   * @param options - `CSVReadOptions`.
+   */
+  constructor(options: CSVReadOptions) {
+    this._options = options;
+    this._parseDate = createDateParser(options.dateFormat, options.timezone);
+    this._fields = [];
+    this._field = '';
+    this._quoted = false;
+    this._closed = false;
+    this._rows = 0;
+  }
+
+  /**
+   * Reads the columns of the first row.
+   * @param fields - Fields of the first row.
+   * @returns whether the row is a header.
+   */
+  protected readColumns(fields: string[]) {
+    const { header = true, columns } = this._options;
+    const names = header ? fields.map((field) => field.trim()) : [];
+
+    if (!header && !columns) {
+      throw new Error('CSV columns are required without a header.');
+    }
+
+    this._columns = Object.entries(
+      columns ?? Object.fromEntries(names.map((name) => [name, name]))
+    ).map(([attribute, column]) => {
+      const position =
+        typeof column === 'number' ? column : names.indexOf(column);
+
+      if (position < 0) {
+        throw new Error(`Unknown CSV column: ${column}.`);
+      }
+
+      return [attribute, position];
+    });
+
+    return header;
+  }
+
+  /**
+   * Converts the fields of a row to a quote value.
+   * Empty fields are left out of the value, blank rows are skipped.
+   * @param fields - Fields of the row.
+   * @returns value, `undefined` for headers and blank rows.
+   */
+  protected readRow(fields: string[]) {
+    const { date = 'date' } = this._options;
+
+    this._rows += 1;
+
+    if (fields.length === 1 && fields[0].trim() === '') {
+      return undefined;
+    }
+
+    if (!this._columns && this.readColumns(fields)) {
+      return undefined;
+    }
+
+    const value: CSVValue = {};
+
+    this._columns?.forEach(([attribute, position]) => {
+      const field = (fields[position] ?? '').trim();
+
+      if (field === '') {
+        return;
+      }
+
+      if (attribute === date) {
+        const timestamp = this._parseDate(field);
+
+        if (isNaN(timestamp)) {
+          throw new Error(`Invalid date in CSV row ${this._rows}: ${field}.`);
+        }
+
+        value[attribute] = new Date(timestamp);
+      } else {
+        const number = Number(field);
+
+        value[attribute] = isNaN(number) ? field : number;
+      }
+    });
+
+    return value as T;
+  }
+
+  /**
+   * Reads the next chunk of text.
+   * @param chunk - Text following the previous chunk.
+   * @returns values of the rows completed by the chunk.
+   */
+  write(chunk: string) {
+    const { delimiter = ',' } = this._options;
+    const values: T[] = [];
+
+    for (const char of chunk) {
+      // A quote right after a closing quote is an escaped quote
+      const closed = this._closed;
+
+      this._closed = false;
+
+      if (this._quoted) {
+        if (char === '"') {
+          this._quoted = false;
+          this._closed = true;
+        } else {
+          this._field += char;
+        }
+      } else if (char === '"') {
+        this._field += closed ? '"' : '';
+        this._quoted = true;
+      } else if (char === delimiter) {
+        this._fields.push(this._field);
+        this._field = '';
+      } else if (char === '\n') {
+        values.push(...this.flush());
+      } else if (char !== '\r' && !(char === '\uFEFF' && !this._rows)) {
+        this._field += char;
+      }
+    }
+
+    return values;
+  }
+
+  /**
+   * Reads the last row, if the text doesn't end with a line break.
+   * @returns value of the last row.
+   */
+  end() {
+    return this._fields.length || this._field ? this.flush() : [];
+  }
+
+  /**
+   * Completes the current row.
+   * @returns value of the row, if any.
+   */
+  protected flush() {
+    const value = this.readRow([...this._fields, this._field]);
+
+    this._fields = [];
+    this._field = '';
+
+    return value === undefined ? [] : [value];
+  }
+}
+
+/**
+ * Reads CSV text into quote values.
+ * @param text - CSV text.
+ * @param options - `CSVReadOptions`.
+ * @returns value of every row.
+ */
+export function parseCSV<T = CSVValue>(
+  text: string,
+  options: CSVReadOptions = {}
+) {
+  const reader = new CSVReader<T>(options);
+
+  return [...reader.write(text), ...reader.end()];
+}
+
+/**
+ * Reads CSV text from a stream into quote values, without holding the whole text in memory.
+ * @param chunks - Text or UTF-8 bytes, e.g. a file read stream.
+ * @param options - `CSVReadOptions`.
+ * @returns value of every row, as soon as the row is read.
+ */
+export async function* readCSV<T = CSVValue>(
+  chunks: AsyncIterable<string | Uint8Array>,
+  options: CSVReadOptions = {}
+) {
+  const reader = new CSVReader<T>(options);
+  const decoder = new TextDecoder();
+
+  for await (const chunk of chunks) {
+    yield* reader.write(
+      typeof chunk === 'string'
+        ? chunk
+        : decoder.decode(chunk, { stream: true })
+    );
+  }
+
+  yield* reader.write(decoder.decode());
+  yield* reader.end();
+}
+
+/**
+ * Formats a field, quoting it if needed.
+ * @param value - Value of the field, empty if `undefined`, `null` or `NaN`.
+ * @param delimiter - Character between fields.
+ * @returns CSV field.
+ */
+function formatField(value: unknown, delimiter: string) {
+  if (value === undefined || value === null || Number.isNaN(value)) {
+    return '';
+  }
+
+  const text = value instanceof Date ? value.toISOString() : String(value);
+
+  return /["\r\n]/.test(text) || text.includes(delimiter)
+    ? `"${text.replace(/"/g, '""')}"`
+    : text;
+}
+
+/**
+ * Writes a dataset as CSV, line by line.
+ * Dates are written in ISO 8601 format.
+ * @param dataset - `Dataset` to write.
+ * @param options - `CSVWriteOptions`.
+ * @returns header and row lines, each ending with a line break.
+ */
+export function* formatCSV<T>(
+  dataset: Dataset<T>,
+  options: CSVWriteOptions = {}
+) {
+  const { delimiter = ',' } = options;
+  const first = dataset.quotes[0]?.value;
+  const isObject = !!first && typeof first === 'object';
+  const columns =
+    options.columns ?? (isObject ? Object.keys(first) : ['value']);
+  const getNames = (
+    option: boolean | string[] | undefined,
+    metadata: { name: string }[]
+  ) =>
+    Array.isArray(option) ? option : option ? metadata.map((m) => m.name) : [];
+  const indicators = getNames(options.indicators, dataset.indicators);
+  const strategies = getNames(options.strategies, dataset.strategies);
+  const line = (fields: unknown[]) =>
+    `${fields.map((field) => formatField(field, delimiter)).join(delimiter)}\n`;
+  const read = (quote: Quote<T>, column: string) =>
+    quote.value && typeof quote.value === 'object'
+      ? quote.value[column]
+      : quote.value;
+
+  yield line([
+    ...columns,
+    ...indicators,
+    ...strategies.map((name) => `${name}.position`),
+  ]);
+
+  for (const quote of dataset.quotes) {
+    yield line([
+      ...columns.map((column) => read(quote, column)),
+      ...indicators.map((name) => quote.getIndicator(name)),
+      ...strategies.map((name) => quote.getStrategy(name)?.position.value),
+    ]);
+  }
+}
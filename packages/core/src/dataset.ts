@@ -1,7 +1,37 @@
 import { Indicator, Strategy } from './';
+import { CorporateAction, adjustForCorporateActions } from './corporateActions';
+import {
+  CSVReadOptions,
+  CSVValue,
+  CSVWriteOptions,
+  formatCSV,
+  parseCSV,
+  readCSV,
+} from './csv';
 import { TradePosition } from './position';
-import { Quote } from './quote';
+import { Quote, QuoteAttributes, toTimestamp } from './quote';
+import { ResampleOptions, resample } from './resampler';
 import { StrategyValue } from './strategy';
+import {
+  RepairOptions,
+  ValidationOptions,
+  repairQuotes,
+  validateQuotes,
+} from './validation';
+
+/**
+ * Checks a quote is in time order after the one before.
+ * Quotes of the same time are kept in the order they come in.
+ * @param timestamp - Time of the quote.
+ * @param previous - Time of the quote before, if any.
+ */
+function checkOrder(timestamp: number, previous?: number) {
+  if (previous !== undefined && timestamp < previous) {
+    const date = new Date(timestamp).toISOString();
+
+    throw new Error(`Out-of-order quote timestamp: ${date}.`);
+  }
+}
 
 export type IndicatorMetadata<T> = {
   name: string;
@@ -13,21 +43,41 @@ export type StrategyMetadata<T> = {
   strategy: Strategy<unknown, T>;
 };
 
+/**
+ * Reads a date given to a time lookup.
+ * @param date - `Date`, date string or timestamp.
+ * @returns timestamp in milliseconds since the epoch.
+ */
+function readDate(date: Date | string | number) {
+  const timestamp = toTimestamp(date);
+
+  if (timestamp === undefined) {
+    throw new Error(`Invalid date: ${date}.`);
+  }
+
+  return timestamp;
+}
+
 /**
  * Creates a dataset out of data, where data is an array of any numeric values.
+ * Dated quotes are indexed by time, in chronological order.
  */
 export class Dataset<T = number> {
   protected _quotes: Quote<T>[];
   protected _indicators: IndicatorMetadata<T>[];
   protected _strategies: StrategyMetadata<T>[];
+  protected _attributes: QuoteAttributes;
+  protected _timestamps?: number[];
 
   /**
    * Creates a dataset after type-casting given data values to quotes.
    * @param data - Array of `any` type of values or `Quote`.
+   * @param attributes - `QuoteAttributes`, where `date` names the attribute holding the date of the values (Optional).
    */
-  constructor(data?: T[]) {
+  constructor(data?: (T | Quote<T>)[], attributes: QuoteAttributes = {}) {
     this._indicators = [];
     this._strategies = [];
+    this._attributes = attributes;
 
     if (data) {
       this._quotes = data.map((d) => {
@@ -35,13 +85,48 @@ export class Dataset<T = number> {
           return d;
         }
 
-        return new Quote(d);
+        const quote = new Quote(d);
+
+        // Quotes keep the time of other date attributes as their own timestamp
+        return attributes.date
+          ? new Quote(d, quote.getTimestamp(attributes.date))
+          : quote;
       });
     } else {
       this._quotes = [];
     }
   }
 
+  /**
+   * Creates a dataset out of CSV text, with a quote for every row.
+   * @param text - CSV text.
+   * @param options - `CSVReadOptions` with the columns, delimiter and date format.
+   * @returns new `Dataset`.
+   */
+  static fromCSV<T = CSVValue>(text: string, options: CSVReadOptions = {}) {
+    return new Dataset<T>(parseCSV<T>(text, options), { date: options.date });
+  }
+
+  /**
+   * Creates a dataset out of a CSV stream, reading rows as the chunks arrive.
+   * Rows are taken as they are, like `fromCSV`, to be validated or repaired once loaded.
+   * @param chunks - Text or UTF-8 bytes, e.g. a file read stream.
+   * @param options - `CSVReadOptions` with the columns, delimiter and date format.
+   * @returns new `Dataset`.
+   */
+  static async fromCSVStream<T = CSVValue>(
+    chunks: AsyncIterable<string | Uint8Array>,
+    options: CSVReadOptions = {}
+  ) {
+    const values: T[] = [];
+
+    for await (const value of readCSV<T>(chunks, options)) {
+      values.push(value);
+    }
+
+    return new Dataset<T>(values, { date: options.date });
+  }
+
   get quotes() {
     return this._quotes;
   }
@@ -58,6 +143,17 @@ export class Dataset<T = number> {
     return this._strategies;
   }
 
+  get attributes() {
+    return this._attributes;
+  }
+
+  /**
+   * Timestamp of every quote.
+   */
+  get timestamps() {
+    return this.getTimeIndex();
+  }
+
   setIndicator(metadata: IndicatorMetadata<T>) {
     this._indicators.push(metadata);
 
@@ -83,14 +179,116 @@ export class Dataset<T = number> {
     }
   }
 
+  /**
+   * Builds the time index of the quotes on first use, and again after quotes are replaced.
+   * @returns timestamp of every quote.
+   */
+  protected getTimeIndex() {
+    if (this._timestamps?.length !== this.length) {
+      this._timestamps = this.quotes.map((quote, position) => {
+        const timestamp = quote.getTimestamp(this._attributes.date);
+
+        if (timestamp === undefined) {
+          throw new Error(`Quote without a timestamp: ${position}.`);
+        }
+
+        return timestamp;
+      });
+      this._timestamps.forEach((timestamp, position, timestamps) =>
+        checkOrder(timestamp, timestamps[position - 1])
+      );
+    }
+
+    return this._timestamps;
+  }
+
+  /**
+   * Finds where a date belongs in the time index, by binary search.
+   * @param timestamp - Date to look for.
+   * @param after - Whether to skip quotes of the same date.
+   * @returns position of the first quote at the date (or after it if `after`), the length if there is none.
+   */
+  protected bisect(timestamp: number, after = false) {
+    const timestamps = this.getTimeIndex();
+    let low = 0;
+    let high = timestamps.length;
+
+    while (low < high) {
+      const middle = Math.floor((low + high) / 2);
+
+      if (
+        timestamps[middle] < timestamp ||
+        (after && timestamps[middle] === timestamp)
+      ) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+
+    return low;
+  }
+
+  /**
+   * Get position of the quote of a date.
+   * @param date - `Date`, date string or timestamp.
+   * @returns zero based position, -1 if no quote has the date.
+   */
+  indexOf(date: Date | string | number) {
+    const timestamp = readDate(date);
+    const position = this.bisect(timestamp);
+
+    return this.getTimeIndex()[position] === timestamp ? position : -1;
+  }
+
+  /**
+   * Get quote of a date.
+   * @param date - `Date`, date string or timestamp.
+   * @returns `Quote` if found or undefined.
+   */
+  atDate(date: Date | string | number) {
+    const position = this.indexOf(date);
+
+    return position < 0 ? undefined : this.quotes[position];
+  }
+
+  /**
+   * Creates a dataset with fresh quotes dated between two dates, both included.
+   * @param start - `Date`, date string or timestamp of the first quote.
+   * @param end - `Date`, date string or timestamp of the last quote.
+   * @returns new `Dataset`.
+   */
+  between(start: Date | string | number, end: Date | string | number) {
+    return this.slice(
+      this.bisect(readDate(start)),
+      this.bisect(readDate(end), true)
+    );
+  }
+
   /**
    * Adds a given quote to the end of the dataset.
+   * Dated quotes must not be earlier than the last quote.
    * @param quote - `Quote`.
    * @returns self reference.
    */
   add(quote: Quote<T>) {
+    const timestamp = quote.getTimestamp(this._attributes.date);
+    const last = this.at(-1)?.getTimestamp(this._attributes.date);
+
+    if (timestamp !== undefined) {
+      checkOrder(timestamp, last);
+    }
+
     this.quotes.push(quote);
 
+    if (this._timestamps?.length === this.length - 1) {
+      if (timestamp === undefined) {
+        this._timestamps = undefined;
+      } else {
+        this._timestamps.push(timestamp);
+      }
+    }
+
     // Optimized: Use incremental calculation when available
     this.indicators.forEach((i) => {
       let indicatorValue: number;
@@ -145,12 +343,17 @@ export class Dataset<T = number> {
    * @returns self reference.
    */
   mutateAt(at: number, quote: Quote<T>) {
-    if (at < 0) {
-      this.quotes[this.length + at] = quote;
-    } else {
-      this.quotes[at] = quote;
+    const position = at < 0 ? this.length + at : at;
+
+    // The time index is only rebuilt for quotes of another time
+    if (
+      this._timestamps?.[position] !== quote.getTimestamp(this._attributes.date)
+    ) {
+      this._timestamps = undefined;
     }
 
+    this.quotes[position] = quote;
+
     return this;
   }
 
@@ -196,7 +399,8 @@ export class Dataset<T = number> {
     }
 
     this.quotes.forEach((quote: Quote<T>, index) => {
-      const lastQuote = this.at(index - 1);
+      // `at(-1)` of the first quote would wrap around to the last one
+      const lastQuote = index > 0 ? this.at(index - 1) : undefined;
       const lastQuotePosition = lastQuote
         ? lastQuote?.getStrategy(strategy.name)?.position
         : new TradePosition('idle');
@@ -213,6 +417,105 @@ export class Dataset<T = number> {
     });
   }
 
+  /**
+   * Creates a dataset with fresh quotes of the same values and timestamps, without indicators or strategies.
+   * @returns new `Dataset`.
+   */
+  clone() {
+    return this.slice();
+  }
+
+  /**
+   * Creates a dataset with fresh quotes of the values between two positions.
+   * @param start - Position of the first quote, 0 by default.
+   * @param end - Position after the last quote, the end of the dataset by default.
+   * @returns new `Dataset`.
+   */
+  slice(start?: number, end?: number) {
+    return new Dataset<T>(
+      this.quotes
+        .slice(start, end)
+        .map((q) => new Quote(q.value, q.getTimestamp(this._attributes.date))),
+      this._attributes
+    );
+  }
+
+  /**
+   * Creates a dataset with fresh quotes back-adjusted for splits and dividends, without indicators or strategies.
+   * The latest quotes keep their prices, earlier ones are scaled down to them.
+   * @param actions - `CorporateAction` list.
+   * @param attributes - `QuoteAttributes` of the prices, volume and date of object quotes, those of the dataset by default.
+   * @returns new `Dataset`.
+   */
+  adjust(
+    actions: CorporateAction[],
+    attributes: QuoteAttributes = this._attributes
+  ) {
+    const timestamps = this.quotes.map((q) =>
+      q.getTimestamp(this._attributes.date)
+    );
+
+    return new Dataset<T>(
+      adjustForCorporateActions(this.quotes, actions, attributes).map(
+        (value, position) => new Quote(value, timestamps[position])
+      ),
+      this._attributes
+    );
+  }
+
+  /**
+   * Creates a dataset of bars of a coarser timeframe, without indicators or strategies.
+   * @param options - `ResampleOptions`, with the attributes of the dataset by default.
+   * @returns new `Dataset`.
+   */
+  resample(options: ResampleOptions) {
+    const attributes = options.attributes ?? this._attributes;
+
+    return new Dataset<T>(
+      resample(this.quotes, { ...options, attributes }),
+      attributes
+    );
+  }
+
+  /**
+   * Checks the quality of the quotes.
+   * @param options - `ValidationOptions`, with the attributes of the dataset by default.
+   * @returns `ValidationReport`.
+   */
+  validate(options: ValidationOptions = {}) {
+    return validateQuotes(this.quotes, {
+      ...options,
+      attributes: options.attributes ?? this._attributes,
+    });
+  }
+
+  /**
+   * Creates a dataset with fresh quotes, the issues of the quotes repaired, without indicators or strategies.
+   * @param options - `RepairOptions`, with the attributes of the dataset by default.
+   * @returns repaired `dataset`, with the issues `repaired` and the validation `report` of the new dataset.
+   */
+  repair(options: RepairOptions) {
+    const { quotes, repaired, report } = repairQuotes(this.quotes, {
+      ...options,
+      attributes: options.attributes ?? this._attributes,
+    });
+
+    return {
+      dataset: new Dataset<T>(quotes, this._attributes),
+      repaired,
+      report,
+    };
+  }
+
+  /**
+   * Writes the dataset as CSV, optionally with its indicator values and strategy positions.
+   * @param options - `CSVWriteOptions`.
+   * @returns CSV text.
+   */
+  toCSV(options: CSVWriteOptions = {}) {
+    return [...formatCSV(this, options)].join('');
+  }
+
   /**
    * Flatten quote over an attribute
    * @param attribute - The attribute.
@@ -0,0 +1,273 @@
+import { Order, OrderEvent, OrderRequest, OrderSide } from './order';
+import { ExitReason } from './position';
+import { Quote, QuoteAttributes } from './quote';
+
+export type ExecutionOptions = {
+  fill: 'next-bar';
+  maxParticipation?: number;
+};
+
+type Bar = {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+};
+
+/**
+ * Fills orders against the OHLC of the quotes that follow their submission.
+ */
+export class ExecutionSimulator<T = number> {
+  protected _orders: Order[];
+  protected _nextId: number;
+  protected _maxParticipation?: number;
+  protected _attributes: QuoteAttributes;
+
+  /**
+   * Creates a simulator without any orders.
+   * @param maxParticipation - Maximum fraction of the quote volume a fill can take, e.g. 0.1 for 10% (Optional).
+   * @param attributes - `QuoteAttributes` to read OHLCV of object quotes.
+   */
+  constructor(maxParticipation?: number, attributes: QuoteAttributes = {}) {
+    this._orders = [];
+    this._nextId = 1;
+    this._maxParticipation = maxParticipation;
+    this._attributes = attributes;
+  }
+
+  get orders() {
+    return this._orders;
+  }
+
+  get activeOrders() {
+    return this._orders.filter((o) => o.isActive);
+  }
+
+  /**
+   * Submits an order, which can be filled from the next quote onwards.
+   * @param side - `buy` or `sell`.
+   * @param shares - Number of shares to trade.
+   * @param request - `OrderRequest`.
+   * @param index - Index of the quote on which the order is submitted.
+   * @param reason - Reason of the exit for sell orders (Optional).
+   * @returns `submitted` event.
+   */
+  submit(
+    side: OrderSide,
+    shares: number,
+    request: OrderRequest,
+    index: number,
+    reason?: ExitReason
+  ): OrderEvent {
+    const order = new Order(this._nextId++, side, shares, request, index);
+    order.reason = reason;
+    this._orders.push(order);
+
+    return { type: 'submitted', order, index };
+  }
+
+  /**
+   * Cancels an active order.
+   * @param order - `Order` to cancel.
+   * @param index - Index of the quote on which the order is cancelled.
+   * @returns `cancelled` event.
+   */
+  cancel(order: Order, index: number): OrderEvent {
+    order.status = 'cancelled';
+
+    return { type: 'cancelled', order, index };
+  }
+
+  /**
+   * Cancels all active orders, or only those of a given side.
+   * @param index - Index of the quote on which orders are cancelled.
+   * @param side - `buy` or `sell` (Optional).
+   * @returns `cancelled` events.
+   */
+  cancelAll(index: number, side?: OrderSide): OrderEvent[] {
+    return this.activeOrders
+      .filter((o) => !side || o.side === side)
+      .map((order) => this.cancel(order, index));
+  }
+
+  /**
+   * Fills an order outside of the simulation, e.g. a stop resting in the market.
+   * @param order - `Order` to fill.
+   * @param shares - Number of shares filled.
+   * @param price - Fill price.
+   * @param index - Index of the quote of the fill.
+   * @returns `filled` or `partially-filled` event.
+   */
+  fill(order: Order, shares: number, price: number, index: number): OrderEvent {
+    order.filledShares += shares;
+    order.status = order.remainingShares > 0 ? 'partially-filled' : 'filled';
+
+    return { type: order.status, order, index, shares, price };
+  }
+
+  /**
+   * Expires and fills active orders against a given quote.
+   * @param quote - `Quote` to fill on.
+   * @param index - Index of the quote.
+   * @param getMaxShares - Caps the shares of a fill, e.g. by the available cash (Optional).
+   * @param onFill - Settles a fill before the next order is processed (Optional).
+   * @returns `expired`, `filled` and `partially-filled` events.
+   */
+  process(
+    quote: Quote<T>,
+    index: number,
+    getMaxShares?: (order: Order, price: number) => number,
+    onFill?: (event: OrderEvent) => void
+  ): OrderEvent[] {
+    const bar = this.getBar(quote);
+    const events: OrderEvent[] = [];
+
+    this.activeOrders.forEach((order) => {
+      if (order.submittedAt >= index) {
+        return;
+      }
+
+      if (order.expiresAt !== undefined && index > order.expiresAt) {
+        order.status = 'expired';
+        events.push({ type: 'expired', order, index });
+
+        return;
+      }
+
+      const price = this.getFillPrice(order, bar);
+
+      if (price === undefined) {
+        return;
+      }
+
+      let shares = order.remainingShares;
+
+      // A quote without volume fills nothing under a participation cap
+      if (this._maxParticipation !== undefined) {
+        shares = Math.min(shares, bar.volume * this._maxParticipation);
+      }
+
+      if (getMaxShares) {
+        shares = Math.min(shares, getMaxShares(order, price));
+      }
+
+      if (shares <= 0) {
+        return;
+      }
+
+      const event = this.fill(order, shares, price, index);
+      events.push(event);
+      onFill?.(event);
+    });
+
+    return events;
+  }
+
+  /**
+   * Reads the OHLCV of a quote, primitive quotes are used as every price.
+   * @param quote - `Quote` to read.
+   * @returns `Bar`.
+   */
+  protected getBar(quote: Quote<T>): Bar {
+    const { open, high, low, close, volume } = this._attributes;
+    const closePrice = quote.getValue(close ?? 'close');
+    const read = (attribute: string, fallback: number) => {
+      const value = quote.getValue(attribute);
+
+      return typeof quote.value === 'object' && !isNaN(value)
+        ? value
+        : fallback;
+    };
+
+    return {
+      open: read(open ?? 'open', closePrice),
+      high: read(high ?? 'high', closePrice),
+      low: read(low ?? 'low', closePrice),
+      close: closePrice,
+      volume: read(volume ?? 'volume', 0),
+    };
+  }
+
+  /**
+   * Calculates the price an order fills at on a bar.
+   * Gaps through stop and limit prices fill at the open.
+   * @param order - `Order` to fill.
+   * @param bar - `Bar` to fill on.
+   * @returns fill price, `undefined` if the order does not fill.
+   */
+  protected getFillPrice(order: Order, bar: Bar) {
+    const buy = order.side === 'buy';
+
+    switch (order.type) {
+      case 'market':
+      case 'market-on-open':
+        return bar.open;
+      case 'market-on-close':
+        return bar.close;
+      case 'limit':
+        return this.getLimitFill(buy, order.limitPrice as number, bar);
+      case 'stop':
+        return this.getStopFill(buy, order.stopPrice as number, bar);
+      case 'stop-limit': {
+        const limitPrice = order.limitPrice as number;
+
+        if (!order.triggered) {
+          const trigger = this.getStopFill(buy, order.stopPrice as number, bar);
+
+          if (trigger === undefined) {
+            return undefined;
+          }
+
+          order.triggered = true;
+
+          if (buy ? trigger <= limitPrice : trigger >= limitPrice) {
+            return trigger;
+          }
+        }
+
+        return this.getLimitFill(buy, limitPrice, bar);
+      }
+    }
+  }
+
+  protected getLimitFill(buy: boolean, limitPrice: number, bar: Bar) {
+    if (buy) {
+      if (bar.open <= limitPrice) {
+        return bar.open;
+      }
+      if (bar.low <= limitPrice) {
+        return limitPrice;
+      }
+    } else {
+      if (bar.open >= limitPrice) {
+        return bar.open;
+      }
+      if (bar.high >= limitPrice) {
+        return limitPrice;
+      }
+    }
+
+    return undefined;
+  }
+
+  protected getStopFill(buy: boolean, stopPrice: number, bar: Bar) {
+    if (buy) {
+      if (bar.open >= stopPrice) {
+        return bar.open;
+      }
+      if (bar.high >= stopPrice) {
+        return stopPrice;
+      }
+    } else {
+      if (bar.open <= stopPrice) {
+        return bar.open;
+      }
+      if (bar.low <= stopPrice) {
+        return stopPrice;
+      }
+    }
+
+    return undefined;
+  }
+}
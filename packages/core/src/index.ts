@@ -1,8 +1,120 @@
 export { Dataset } from './dataset';
 export { Indicator, IndicatorOptions } from './indicator';
+export { TimeframeIndicator } from './timeframeIndicator';
 export { Strategy } from './strategy';
-export { Backtest, BacktestConfiguration } from './backtest';
-export { Trader } from './trader';
-export { BacktestReport } from './backtestReport';
-export { Quote } from './quote';
-export { TradePosition, TradePositionType } from './position';
+export {
+  Backtest,
+  BacktestConfiguration,
+  MarginAccountOptions,
+  ShortSellingOptions,
+} from './backtest';
+export { Trader, TraderOptions } from './trader';
+export { Resampler, ResampleOptions, resample } from './resampler';
+export {
+  PortfolioBacktest,
+  PortfolioConfiguration,
+  PortfolioReport,
+  PortfolioRunner,
+} from './portfolio';
+export {
+  Rebalancer,
+  RebalanceReport,
+  RebalancerOptions,
+  RebalanceConfiguration,
+  RebalanceContext,
+  RebalanceEvent,
+  RebalanceRunner,
+  RebalanceSchedule,
+} from './rebalancer';
+export {
+  BacktestReport,
+  BacktestReportStatistics,
+  EquityPoint,
+  Liquidation,
+  Lot,
+  LotMethod,
+  RoundTrip,
+  TradeSide,
+} from './backtestReport';
+export { Quote, QuoteAttributes } from './quote';
+export { PositionSizing } from './sizing';
+export { MetricsOptions, PerformanceMetrics } from './metrics';
+export {
+  BenchmarkOptions,
+  BenchmarkPoint,
+  BenchmarkMetrics,
+} from './benchmark';
+export {
+  runMonteCarlo,
+  MonteCarloOptions,
+  MonteCarloResult,
+  MonteCarloDistribution,
+  ResamplingMethod,
+} from './monteCarlo';
+export {
+  Optimizer,
+  OptimizationReport,
+  OptimizerOptions,
+  OptimizationObjective,
+  OptimizationResult,
+  ParameterDefinition,
+  ParameterRange,
+  ParameterSet,
+  ParameterSpace,
+  ParameterValue,
+  Heatmap,
+} from './optimizer';
+export {
+  WalkForward,
+  WalkForwardOptions,
+  WalkForwardReport,
+  WalkForwardResult,
+  WalkForwardWindow,
+} from './walkForward';
+export {
+  OverfittingOptions,
+  OverfittingDiagnostics,
+  DeflatedSharpeRatio,
+  BacktestOverfitting,
+  PerformanceDegradation,
+} from './overfitting';
+export { CostModel, CommissionModel, SlippageModel } from './costs';
+export { CorporateAction, CorporateActionEvent } from './corporateActions';
+export {
+  parseCSV,
+  readCSV,
+  formatCSV,
+  CSVReadOptions,
+  CSVWriteOptions,
+  CSVValue,
+} from './csv';
+export {
+  validateQuotes,
+  repairQuotes,
+  DataField,
+  DataIssue,
+  DataIssueType,
+  ValidationOptions,
+  ValidationReport,
+  RepairPolicy,
+  RepairOptions,
+  RepairResult,
+} from './validation';
+export {
+  TradePosition,
+  TradePositionType,
+  TradePositionSide,
+  ExitRule,
+  ExitReason,
+  TrailingStopRule,
+  RiskManagementOptions,
+} from './position';
+export {
+  Order,
+  OrderRequest,
+  OrderType,
+  OrderSide,
+  OrderStatus,
+  OrderEvent,
+} from './order';
+export { ExecutionSimulator, ExecutionOptions } from './executionSimulator';
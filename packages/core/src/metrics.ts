@@ -0,0 +1,274 @@
+import type { EquityPoint } from './backtestReport';
+
+/**
+ * Defines how the metrics are annualised.
+ * - `riskFreeRate` - annual risk-free rate in percent, e.g. 2 for 2%, 0 by default.
+ * - `barsPerYear` - number of quotes in a year, 252 daily quotes by default.
+ */
+export type MetricsOptions = {
+  riskFreeRate?: number;
+  barsPerYear?: number;
+};
+
+/**
+ * Risk-adjusted performance of a back-test.
+ * Growth, volatility, drawdown, time in market and ulcer index are percentages,
+ * drawdown duration is a number of quotes and trade values are in capital units.
+ */
+export type PerformanceMetrics = {
+  cagr: number;
+  volatility: number;
+  sharpe: number;
+  sortino: number;
+  calmar: number;
+  maxDrawdown: number;
+  maxDrawdownDuration: number;
+  profitFactor: number;
+  expectancy: number;
+  averageWin: number;
+  averageLoss: number;
+  largestWin: number;
+  largestLoss: number;
+  maxConsecutiveWins: number;
+  maxConsecutiveLosses: number;
+  timeInMarket: number;
+  ulcerIndex: number;
+};
+
+export const DEFAULT_BARS_PER_YEAR = 252;
+
+/**
+ * Calculates the average of the values.
+ * @param values - Array of numbers.
+ * @returns mean, 0 for no values.
+ */
+export function mean(values: number[]) {
+  return values.length
+    ? values.reduce((sum, v) => sum + v, 0) / values.length
+    : 0;
+}
+
+/**
+ * Calculates the sample standard deviation of the values.
+ * @param values - Array of numbers.
+ * @returns standard deviation, 0 for less than two values.
+ */
+export function standardDeviation(values: number[]) {
+  if (values.length < 2) {
+    return 0;
+  }
+
+  const average = mean(values);
+  const variance =
+    values.reduce((sum, v) => sum + (v - average) ** 2, 0) /
+    (values.length - 1);
+
+  return Math.sqrt(variance);
+}
+
+/**
+ * Calculates the sample covariance of two series of the same length.
+ * @param a - Array of numbers.
+ * @param b - Array of numbers.
+ * @returns covariance, 0 for less than two values.
+ */
+export function covariance(a: number[], b: number[]) {
+  if (a.length < 2) {
+    return 0;
+  }
+
+  const meanA = mean(a);
+  const meanB = mean(b);
+
+  return (
+    a.reduce((sum, v, i) => sum + (v - meanA) * (b[i] - meanB), 0) /
+    (a.length - 1)
+  );
+}
+
+/**
+ * Calculates the simple returns between consecutive values of an equity series.
+ * @param equity - Equity of every quote.
+ * @returns returns as fractions, e.g. 0.01 for 1%.
+ */
+export function getReturns(equity: number[]) {
+  const returns: number[] = [];
+
+  for (let i = 1; i < equity.length; i++) {
+    returns.push(equity[i - 1] ? equity[i] / equity[i - 1] - 1 : 0);
+  }
+
+  return returns;
+}
+
+/**
+ * Calculates the annualised Sharpe ratio of per-quote returns.
+ * @param returns - Returns as fractions.
+ * @param options - `MetricsOptions`.
+ * @returns Sharpe ratio, 0 if the returns do not vary.
+ */
+export function getSharpeRatio(
+  returns: number[],
+  options: MetricsOptions = {}
+) {
+  const barsPerYear = options.barsPerYear ?? DEFAULT_BARS_PER_YEAR;
+  const riskFree = (options.riskFreeRate ?? 0) / 100 / barsPerYear;
+  const deviation = standardDeviation(returns);
+
+  return deviation
+    ? ((mean(returns) - riskFree) / deviation) * Math.sqrt(barsPerYear)
+    : 0;
+}
+
+/**
+ * Calculates the annualised Sortino ratio of per-quote returns.
+ * Only returns below the risk-free rate count towards the deviation.
+ * @param returns - Returns as fractions.
+ * @param options - `MetricsOptions`.
+ * @returns Sortino ratio, 0 without downside.
+ */
+export function getSortinoRatio(
+  returns: number[],
+  options: MetricsOptions = {}
+) {
+  const barsPerYear = options.barsPerYear ?? DEFAULT_BARS_PER_YEAR;
+  const riskFree = (options.riskFreeRate ?? 0) / 100 / barsPerYear;
+  const downside = Math.sqrt(
+    mean(returns.map((r) => Math.min(r - riskFree, 0) ** 2))
+  );
+
+  return downside
+    ? ((mean(returns) - riskFree) / downside) * Math.sqrt(barsPerYear)
+    : 0;
+}
+
+/**
+ * Calculates the compound annual growth rate between two equity values.
+ * @param initialEquity - Equity at the start.
+ * @param finalEquity - Equity at the end.
+ * @param years - Number of years in between.
+ * @returns growth rate in percent, 0 without time or positive equity.
+ */
+export function getCagr(
+  initialEquity: number,
+  finalEquity: number,
+  years: number
+) {
+  return years > 0 && initialEquity > 0 && finalEquity > 0
+    ? ((finalEquity / initialEquity) ** (1 / years) - 1) * 100
+    : 0;
+}
+
+/**
+ * Calculates the deepest drawdown of an equity series and the longest time spent below a peak.
+ * @param equity - Equity of every quote.
+ * @returns drawdown in percent and duration in quotes.
+ */
+export function getMaxDrawdown(equity: number[]) {
+  let peak = -Infinity;
+  let peakIndex = 0;
+  let maxDrawdown = 0;
+  let maxDrawdownDuration = 0;
+
+  equity.forEach((value, index) => {
+    if (value >= peak) {
+      peak = value;
+      peakIndex = index;
+    } else {
+      maxDrawdown = Math.max(maxDrawdown, ((peak - value) * 100) / peak);
+      maxDrawdownDuration = Math.max(maxDrawdownDuration, index - peakIndex);
+    }
+  });
+
+  return { maxDrawdown, maxDrawdownDuration };
+}
+
+/**
+ * Counts the longest runs of winning and losing trades.
+ * @param results - Profit or loss of every closed trade.
+ * @returns longest winning and losing streaks.
+ */
+export function getStreaks(results: number[]) {
+  let wins = 0;
+  let losses = 0;
+  let maxConsecutiveWins = 0;
+  let maxConsecutiveLosses = 0;
+
+  results.forEach((result) => {
+    if (result > 0) {
+      wins += 1;
+      losses = 0;
+    } else {
+      losses += 1;
+      wins = 0;
+    }
+
+    maxConsecutiveWins = Math.max(maxConsecutiveWins, wins);
+    maxConsecutiveLosses = Math.max(maxConsecutiveLosses, losses);
+  });
+
+  return { maxConsecutiveWins, maxConsecutiveLosses };
+}
+
+/**
+ * Calculates the ratio of the gross profit to the gross loss.
+ * @param grossProfit - Total profit of the winning trades.
+ * @param grossLoss - Total loss of the losing trades.
+ * @returns profit factor, `Infinity` for profits without any loss.
+ */
+export function getProfitFactor(grossProfit: number, grossLoss: number) {
+  if (grossLoss) {
+    return grossProfit / grossLoss;
+  }
+
+  return grossProfit ? Infinity : 0;
+}
+
+/**
+ * Calculates the performance metrics of a back-test.
+ * @param initialCapital - Capital the back-test started with.
+ * @param curve - `EquityPoint` of every quote.
+ * @param results - Profit or loss of every closed trade.
+ * @param options - `MetricsOptions`.
+ * @returns `PerformanceMetrics`.
+ */
+export function getMetrics<T>(
+  initialCapital: number,
+  curve: EquityPoint<T>[],
+  results: number[],
+  options: MetricsOptions = {}
+): PerformanceMetrics {
+  const barsPerYear = options.barsPerYear ?? DEFAULT_BARS_PER_YEAR;
+  const equity = [initialCapital, ...curve.map((p) => p.equity)];
+  const returns = getReturns(equity);
+  const finalEquity = equity[equity.length - 1];
+
+  const cagr = getCagr(initialCapital, finalEquity, curve.length / barsPerYear);
+  const { maxDrawdown, maxDrawdownDuration } = getMaxDrawdown(equity);
+
+  const wins = results.filter((r) => r > 0);
+  const losses = results.filter((r) => r <= 0).map((r) => -r);
+  const grossProfit = wins.reduce((sum, r) => sum + r, 0);
+  const grossLoss = losses.reduce((sum, r) => sum + r, 0);
+
+  return {
+    cagr,
+    volatility: standardDeviation(returns) * Math.sqrt(barsPerYear) * 100,
+    sharpe: getSharpeRatio(returns, options),
+    sortino: getSortinoRatio(returns, options),
+    calmar: maxDrawdown ? cagr / maxDrawdown : 0,
+    maxDrawdown,
+    maxDrawdownDuration,
+    profitFactor: getProfitFactor(grossProfit, grossLoss),
+    expectancy: mean(results),
+    averageWin: mean(wins),
+    averageLoss: mean(losses),
+    largestWin: wins.length ? Math.max(...wins) : 0,
+    largestLoss: losses.length ? Math.max(...losses) : 0,
+    ...getStreaks(results),
+    timeInMarket: curve.length
+      ? (curve.filter((p) => p.exposure > 0).length * 100) / curve.length
+      : 0,
+    ulcerIndex: Math.sqrt(mean(curve.map((p) => p.drawdown ** 2))),
+  };
+}
@@ -0,0 +1,253 @@
+import type { BacktestReport } from './backtestReport';
+import {
+  DEFAULT_BARS_PER_YEAR,
+  MetricsOptions,
+  getCagr,
+  getMaxDrawdown,
+  getReturns,
+  mean,
+} from './metrics';
+
+/**
+ * Defines how the simulated paths are resampled.
+ * - `shuffle` - round-trip trades in a random order, every trade used once.
+ * - `bootstrap` - round-trip trades drawn with replacement.
+ * - `block` - blocks of consecutive per-quote returns of the equity curve drawn with replacement.
+ */
+export type ResamplingMethod = 'shuffle' | 'bootstrap' | 'block';
+
+/**
+ * Defines the Monte Carlo simulation.
+ * - `iterations` - number of simulated paths, 1000 by default.
+ * - `seed` - seed of the random number generator, the same seed gives the same paths, 1 by default.
+ * - `blockSize` - number of consecutive returns drawn together by the `block` method, 5 by default.
+ * - `ruinEquity` - equity below which a path is ruined, half of the initial capital by default.
+ * - `percentiles` - percentiles reported for every distribution, 5, 25, 50, 75 and 95 by default.
+ * - `metrics` - `MetricsOptions` to annualise the growth rate, those of the report by default.
+ */
+export type MonteCarloOptions = {
+  method?: ResamplingMethod;
+  iterations?: number;
+  seed?: number;
+  blockSize?: number;
+  ruinEquity?: number;
+  percentiles?: number[];
+  metrics?: MetricsOptions;
+};
+
+/**
+ * Simulated values of a measure, sorted from the lowest to the highest.
+ */
+export type MonteCarloDistribution = {
+  values: number[];
+  mean: number;
+  min: number;
+  max: number;
+  percentiles: Record<number, number>;
+};
+
+/**
+ * Outcome of a Monte Carlo simulation.
+ * Drawdown, growth rate and probability of ruin are percentages.
+ * Shuffled paths compound the same returns, so only the `bootstrap` and `block` methods
+ * spread the final equity and growth rate.
+ */
+export type MonteCarloResult = {
+  method: ResamplingMethod;
+  iterations: number;
+  finalEquity: MonteCarloDistribution;
+  maxDrawdown: MonteCarloDistribution;
+  cagr: MonteCarloDistribution;
+  probabilityOfRuin: number;
+};
+
+/**
+ * Creates a seeded random number generator (mulberry32).
+ * @param seed - Integer seed.
+ * @returns function returning numbers from 0 (inclusive) to 1 (exclusive).
+ */
+export function createRandom(seed: number) {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Calculates a percentile of sorted values, interpolating between the closest ranks.
+ * @param values - Values sorted from the lowest to the highest.
+ * @param percentile - Percentile from 0 to 100.
+ * @returns value of the percentile, `NaN` for no values.
+ */
+export function getPercentile(values: number[], percentile: number) {
+  if (!values.length) {
+    return NaN;
+  }
+
+  const rank =
+    (Math.min(Math.max(percentile, 0), 100) / 100) * (values.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+
+  return values[lower] + (values[upper] - values[lower]) * (rank - lower);
+}
+
+/**
+ * Sorts simulated values and summarises them.
+ * @param values - Simulated values.
+ * @param percentiles - Percentiles to report.
+ * @returns `MonteCarloDistribution`.
+ */
+function getDistribution(
+  values: number[],
+  percentiles: number[]
+): MonteCarloDistribution {
+  const sorted = [...values].sort((a, b) => a - b);
+
+  return {
+    values: sorted,
+    mean: mean(sorted),
+    min: sorted.length ? sorted[0] : NaN,
+    max: sorted.length ? sorted[sorted.length - 1] : NaN,
+    percentiles: Object.fromEntries(
+      percentiles.map((p) => [p, getPercentile(sorted, p)])
+    ),
+  };
+}
+
+/**
+ * Calculates the return of every round-trip trade on the equity it was entered with.
+ * @param report - `BacktestReport` with the round-trip trades.
+ * @returns returns as fractions.
+ */
+function getTradeReturns<T>(report: BacktestReport<T>) {
+  let equity = report.initialCapital;
+
+  return report.roundTrips.map(({ pnl }) => {
+    const result = equity ? pnl / equity : 0;
+    equity += pnl;
+
+    return result;
+  });
+}
+
+/**
+ * Draws a path of returns with the configured method.
+ * @param returns - Trade or per-quote returns to resample.
+ * @param method - `ResamplingMethod`.
+ * @param blockSize - Number of consecutive returns drawn together by the `block` method.
+ * @param random - Random number generator.
+ * @returns resampled returns, as many as given.
+ */
+function resample(
+  returns: number[],
+  method: ResamplingMethod,
+  blockSize: number,
+  random: () => number
+) {
+  const pick = (length: number) => Math.floor(random() * length);
+
+  if (method === 'shuffle') {
+    // Fisher-Yates
+    const path = [...returns];
+
+    for (let i = path.length - 1; i > 0; i--) {
+      const j = pick(i + 1);
+      [path[i], path[j]] = [path[j], path[i]];
+    }
+
+    return path;
+  }
+
+  if (method === 'bootstrap') {
+    return returns.map(() => returns[pick(returns.length)]);
+  }
+
+  const size = Math.min(blockSize, returns.length);
+  const path: number[] = [];
+
+  while (path.length < returns.length) {
+    const start = pick(returns.length - size + 1);
+    path.push(...returns.slice(start, start + size));
+  }
+
+  return path.slice(0, returns.length);
+}
+
+/**
+ * Resamples the trades or returns of a back-test into many simulated paths,
+ * to measure how much its result depends on the order of a single historical path.
+ * Every path spans as many quotes as the back-test when annualising its growth rate.
+ * @param report - `BacktestReport` to resample.
+ * @param options - `MonteCarloOptions`.
+ * @returns `MonteCarloResult`.
+ */
+export function runMonteCarlo<T>(
+  report: BacktestReport<T>,
+  options: MonteCarloOptions = {}
+): MonteCarloResult {
+  const {
+    method = 'shuffle',
+    iterations = 1000,
+    seed = 1,
+    blockSize = 5,
+    ruinEquity = report.initialCapital / 2,
+    percentiles = [5, 25, 50, 75, 95],
+    metrics = report.metricsOptions,
+  } = options;
+
+  if (!Number.isInteger(iterations) || iterations < 1) {
+    throw new Error(`Invalid number of iterations: ${iterations}.`);
+  }
+
+  if (!Number.isInteger(blockSize) || blockSize < 1) {
+    throw new Error(`Invalid block size: ${blockSize}.`);
+  }
+
+  const { initialCapital } = report;
+  const returns =
+    method === 'block'
+      ? getReturns([initialCapital, ...report.equityCurve.map((p) => p.equity)])
+      : getTradeReturns(report);
+  const years =
+    report.equityCurve.length / (metrics.barsPerYear ?? DEFAULT_BARS_PER_YEAR);
+  const random = createRandom(seed);
+
+  const finalEquity: number[] = [];
+  const maxDrawdown: number[] = [];
+  const cagr: number[] = [];
+  let ruined = 0;
+
+  for (let i = 0; i < iterations; i++) {
+    const equity = [initialCapital];
+
+    resample(returns, method, blockSize, random).forEach((r) => {
+      equity.push(equity[equity.length - 1] * (1 + r));
+    });
+
+    const final = equity[equity.length - 1];
+
+    finalEquity.push(final);
+    maxDrawdown.push(getMaxDrawdown(equity).maxDrawdown);
+    cagr.push(getCagr(initialCapital, final, years));
+
+    if (equity.some((e) => e < ruinEquity)) {
+      ruined += 1;
+    }
+  }
+
+  return {
+    method,
+    iterations,
+    finalEquity: getDistribution(finalEquity, percentiles),
+    maxDrawdown: getDistribution(maxDrawdown, percentiles),
+    cagr: getDistribution(cagr, percentiles),
+    probabilityOfRuin: (ruined * 100) / iterations,
+  };
+}
@@ -0,0 +1,281 @@
+import { Backtest, BacktestReport, Dataset, Strategy } from './';
+import { BacktestRunner } from './backtest';
+import { PerformanceMetrics } from './metrics';
+import { OverfittingOptions, getOverfittingDiagnostics } from './overfitting';
+
+export type ParameterValue = number | string | boolean;
+
+/**
+ * Numeric parameter stepping from `from` to `to`, both inclusive, by `step`, 1 by default.
+ */
+export type ParameterRange = {
+  from: number;
+  to: number;
+  step?: number;
+};
+
+/**
+ * Values a parameter is optimised over, a numeric range or a list of choices.
+ */
+export type ParameterDefinition = ParameterRange | ParameterValue[];
+
+export type ParameterSet = Record<string, ParameterValue>;
+
+export type ParameterSpace<S extends ParameterSet> = {
+  [K in keyof S]: ParameterDefinition;
+};
+
+/**
+ * Score a back-test is ranked by, a `PerformanceMetrics` name or a function of the report.
+ */
+export type OptimizationObjective<T> =
+  | keyof PerformanceMetrics
+  | ((report: BacktestReport<T>) => number);
+
+/**
+ * Defines the grid search.
+ * - `space` - values of every parameter.
+ * - `constraints` - rules a parameter set has to meet to be back-tested, e.g. fast period below slow period.
+ * - `objective` - score to rank by, `sharpe` by default.
+ * - `minimize` - whether lower scores rank first, e.g. for `maxDrawdown`, `false` by default.
+ */
+export type OptimizerOptions<S extends ParameterSet, T> = {
+  space: ParameterSpace<S>;
+  constraints?: ((parameters: S) => boolean)[];
+  objective?: OptimizationObjective<T>;
+  minimize?: boolean;
+};
+
+export type OptimizationResult<S extends ParameterSet, T> = {
+  rank: number;
+  parameters: S;
+  score: number;
+  report: BacktestReport<T>;
+};
+
+/**
+ * Scores of two parameters, best over the other parameters.
+ * `z[i][j]` is the score of `y[i]` and `x[j]`, `NaN` if no result has them.
+ */
+export type Heatmap = {
+  x: ParameterValue[];
+  y: ParameterValue[];
+  z: number[][];
+};
+
+/**
+ * Expands a parameter definition into its values.
+ * @param definition - `ParameterDefinition`.
+ * @returns values of the parameter.
+ */
+export function getParameterValues(
+  definition: ParameterDefinition
+): ParameterValue[] {
+  if (Array.isArray(definition)) {
+    return definition;
+  }
+
+  const { from, to, step = 1 } = definition;
+
+  if (!(step > 0) || from > to) {
+    throw new Error(`Invalid parameter range: ${from} to ${to} by ${step}.`);
+  }
+
+  const values: number[] = [];
+  // Tolerate floating point error on the last step
+  const count = Math.floor((to - from) / step + 1e-9);
+
+  for (let i = 0; i <= count; i++) {
+    values.push(Number((from + i * step).toFixed(10)));
+  }
+
+  return values;
+}
+
+/**
+ * Ranked back-tests of every parameter set of a grid search.
+ */
+export class OptimizationReport<S extends ParameterSet, T = number> {
+  space: ParameterSpace<S>;
+  results: OptimizationResult<S, T>[];
+
+  /**
+   * Creates a report of ranked results.
+   * @param space - `ParameterSpace` that was searched.
+   * @param results - `OptimizationResult` list, best first.
+   */
+  constructor(space: ParameterSpace<S>, results: OptimizationResult<S, T>[]) {
+    this.space = space;
+    this.results = results;
+  }
+
+  /**
+   * Best result, `undefined` if no parameter set met the constraints.
+   */
+  get best() {
+    return this.results[0];
+  }
+
+  /**
+   * Flattens the results into plain rows of rank, score, parameters and metrics, e.g. to export as JSON or CSV.
+   * @returns rows, best first.
+   */
+  toRows() {
+    return this.results.map(({ rank, score, parameters, report }) => ({
+      rank,
+      score,
+      ...parameters,
+      returnsPercentage: report.returnsPercentage,
+      numberOfTrades: report.numberOfTrades,
+      winningRate: report.winningRate,
+      ...report.metrics,
+    }));
+  }
+
+  /**
+   * Diagnoses how much the best result owes to selection bias among all back-tested parameter sets.
+   * @param options - `OverfittingOptions`.
+   * @returns `OverfittingDiagnostics`.
+   */
+  getOverfittingDiagnostics(options: OverfittingOptions = {}) {
+    return getOverfittingDiagnostics(
+      this.results.map((r) => r.report),
+      options
+    );
+  }
+
+  /**
+   * Slices the scores over two parameters.
+   * Other parameters are fixed to the given values, or the best score over them is taken.
+   * @param x - Parameter of the columns.
+   * @param y - Parameter of the rows.
+   * @param fixed - Values of other parameters to slice at (Optional).
+   * @returns `Heatmap`.
+   */
+  getHeatmap(x: keyof S, y: keyof S, fixed: Partial<S> = {}): Heatmap {
+    const xValues = getParameterValues(this.space[x]);
+    const yValues = getParameterValues(this.space[y]);
+    const z = yValues.map(() => xValues.map(() => NaN));
+
+    // Results are ranked, so the first one of a cell has its best score
+    this.results
+      .filter(({ parameters }) =>
+        Object.keys(fixed).every((key) => parameters[key] === fixed[key])
+      )
+      .forEach(({ parameters, score }) => {
+        const i = yValues.indexOf(parameters[y]);
+        const j = xValues.indexOf(parameters[x]);
+
+        if (i >= 0 && j >= 0 && isNaN(z[i][j])) {
+          z[i][j] = score;
+        }
+      });
+
+    return { x: xValues, y: yValues, z };
+  }
+}
+
+/**
+ * Back-tests a strategy over every parameter set of a grid and ranks the results.
+ */
+export class Optimizer<S extends ParameterSet, T = number> {
+  protected _factory: (parameters: S) => Strategy<unknown, T>;
+  protected _options: OptimizerOptions<S, T>;
+
+  /**
+   * Creates an optimizer for a strategy.
+   * @param factory - Creates the `Strategy` of a parameter set.
+   * @param options - `OptimizerOptions`.
+   */
+  constructor(
+    factory: (parameters: S) => Strategy<unknown, T>,
+    options: OptimizerOptions<S, T>
+  ) {
+    this._factory = factory;
+    this._options = options;
+  }
+
+  get options() {
+    return this._options;
+  }
+
+  /**
+   * Creates the strategy of a parameter set.
+   * @param parameters - Parameter set.
+   * @returns `Strategy`.
+   */
+  createStrategy(parameters: S) {
+    return this._factory(parameters);
+  }
+
+  /**
+   * Lists every parameter set of the grid that meets the constraints.
+   * @returns parameter sets.
+   */
+  getParameterSets() {
+    const { space, constraints = [] } = this._options;
+    let sets: ParameterSet[] = [{}];
+
+    Object.keys(space).forEach((name) => {
+      const values = getParameterValues(space[name]);
+
+      sets = sets.flatMap((set) =>
+        values.map((value) => ({ ...set, [name]: value }))
+      );
+    });
+
+    return (sets as S[]).filter((set) =>
+      constraints.every((constraint) => constraint(set))
+    );
+  }
+
+  /**
+   * Reads the objective score of a back-test.
+   * @param report - `BacktestReport` to score.
+   * @returns score.
+   */
+  protected getScore(report: BacktestReport<T>) {
+    const { objective = 'sharpe' } = this._options;
+
+    return typeof objective === 'function'
+      ? objective(report)
+      : report.metrics[objective];
+  }
+
+  /**
+   * Back-tests every parameter set over a fresh copy of the dataset and ranks the results by the objective.
+   * Scores that are not a number rank last.
+   * @param dataset - `Dataset` to back-test over, left unchanged.
+   * @param runner - `BacktestRunner` with the configuration and entry/exit prices.
+   * @returns `OptimizationReport`.
+   */
+  run(dataset: Dataset<T>, runner: BacktestRunner<T>) {
+    const { minimize } = this._options;
+    const results = this.getParameterSets().map((parameters) => {
+      const report = new Backtest(
+        dataset.clone(),
+        this.createStrategy(parameters)
+      ).run(runner);
+
+      return { rank: 0, parameters, score: this.getScore(report), report };
+    });
+
+    results.sort((a, b) => {
+      if (isNaN(a.score) || isNaN(b.score)) {
+        return Number(isNaN(a.score)) - Number(isNaN(b.score));
+      }
+
+      // Infinite scores, e.g. a profit factor without losses, would subtract to NaN
+      if (a.score === b.score) {
+        return 0;
+      }
+
+      return a.score < b.score === !minimize ? 1 : -1;
+    });
+    results.forEach((result, i) => {
+      result.rank = i + 1;
+    });
+
+    return new OptimizationReport(this._options.space, results);
+  }
+}
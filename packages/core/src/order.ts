@@ -0,0 +1,117 @@
+import { ExitReason } from './position';
+
+export type OrderType =
+  | 'market'
+  | 'limit'
+  | 'stop'
+  | 'stop-limit'
+  | 'market-on-open'
+  | 'market-on-close';
+
+export type OrderSide = 'buy' | 'sell';
+
+export type OrderStatus =
+  | 'pending'
+  | 'partially-filled'
+  | 'filled'
+  | 'cancelled'
+  | 'expired';
+
+/**
+ * Describes an order a strategy wants to place.
+ * - `limitPrice` - required for `limit` and `stop-limit` orders.
+ * - `stopPrice` - required for `stop` and `stop-limit` orders.
+ * - `expiresAfter` - number of bars the order stays active, good till cancelled if not given.
+ */
+export type OrderRequest = {
+  type: OrderType;
+  limitPrice?: number;
+  stopPrice?: number;
+  expiresAfter?: number;
+};
+
+/**
+ * Creates an order that can be filled by the `ExecutionSimulator`.
+ */
+export class Order {
+  id: number;
+  side: OrderSide;
+  type: OrderType;
+  shares: number;
+  filledShares: number;
+  limitPrice?: number;
+  stopPrice?: number;
+  submittedAt: number;
+  expiresAt?: number;
+  status: OrderStatus;
+  triggered: boolean;
+  reason?: ExitReason;
+
+  /**
+   * Creates an order from a request.
+   * @param id - Unique id of the order.
+   * @param side - `buy` or `sell`.
+   * @param shares - Number of shares to trade.
+   * @param request - `OrderRequest`.
+   * @param submittedAt - Index of the quote on which the order is submitted.
+   */
+  constructor(
+    id: number,
+    side: OrderSide,
+    shares: number,
+    request: OrderRequest,
+    submittedAt: number
+  ) {
+    if (
+      (request.type === 'limit' || request.type === 'stop-limit') &&
+      request.limitPrice === undefined
+    ) {
+      throw new Error(`Order of type ${request.type} requires a limitPrice.`);
+    }
+
+    if (
+      (request.type === 'stop' || request.type === 'stop-limit') &&
+      request.stopPrice === undefined
+    ) {
+      throw new Error(`Order of type ${request.type} requires a stopPrice.`);
+    }
+
+    this.id = id;
+    this.side = side;
+    this.type = request.type;
+    this.shares = shares;
+    this.filledShares = 0;
+    this.limitPrice = request.limitPrice;
+    this.stopPrice = request.stopPrice;
+    this.submittedAt = submittedAt;
+    this.expiresAt =
+      request.expiresAfter !== undefined
+        ? submittedAt + request.expiresAfter
+        : undefined;
+    this.status = 'pending';
+    this.triggered = false;
+  }
+
+  get remainingShares() {
+    return this.shares - this.filledShares;
+  }
+
+  get isActive() {
+    return this.status === 'pending' || this.status === 'partially-filled';
+  }
+}
+
+export type OrderEventType =
+  | 'submitted'
+  | 'filled'
+  | 'partially-filled'
+  | 'cancelled'
+  | 'expired';
+
+export type OrderEvent = {
+  type: OrderEventType;
+  order: Order;
+  index: number;
+  shares?: number;
+  price?: number;
+};
@@ -0,0 +1,390 @@
+import type { BacktestReport } from './backtestReport';
+import {
+  DEFAULT_BARS_PER_YEAR,
+  MetricsOptions,
+  covariance,
+  getReturns,
+  mean,
+  standardDeviation,
+} from './metrics';
+
+/**
+ * Defines the overfitting diagnostics.
+ * - `blocks` - even number of blocks the quotes are split into for the cross-validation, 16 by default.
+ * - `metrics` - `MetricsOptions` of the Sharpe ratios, those of the first report by default.
+ */
+export type OverfittingOptions = {
+  blocks?: number;
+  metrics?: MetricsOptions;
+};
+
+/**
+ * Sharpe ratio of the best trial corrected for the number of trials and the shape of its returns.
+ * - `sharpe` - annualised Sharpe ratio of the best trial.
+ * - `expectedMaxSharpe` - annualised Sharpe ratio the best of as many trials without skill would be expected to reach.
+ * - `probability` - probability from 0 to 1 that the best Sharpe ratio is above `expectedMaxSharpe`.
+ */
+export type DeflatedSharpeRatio = {
+  trials: number;
+  sharpe: number;
+  expectedMaxSharpe: number;
+  probability: number;
+};
+
+/**
+ * Performance of the trial selected in sample once out of sample, over every cross-validation split.
+ * - `slope`, `intercept` - linear fit of the out-of-sample Sharpe ratios on the in-sample ones.
+ * - `probabilityOfLoss` - share of splits from 0 to 1 where the selected trial lost out of sample.
+ */
+export type PerformanceDegradation = {
+  inSampleSharpe: number;
+  outOfSampleSharpe: number;
+  slope: number;
+  intercept: number;
+  probabilityOfLoss: number;
+};
+
+/**
+ * Probability of backtest overfitting by combinatorially symmetric cross-validation.
+ * - `probability` - share of splits from 0 to 1 where the trial selected in sample ranks
+ * at or below the median out of sample.
+ * - `logits` - relative out-of-sample rank of the selected trial for every split, negative below the median.
+ */
+export type BacktestOverfitting = {
+  combinations: number;
+  probability: number;
+  logits: number[];
+  degradation: PerformanceDegradation;
+};
+
+export type OverfittingDiagnostics = {
+  deflatedSharpe: DeflatedSharpeRatio;
+  overfitting: BacktestOverfitting;
+};
+
+const EULER_MASCHERONI = 0.5772156649015329;
+
+/**
+ * Calculates the standard normal cumulative distribution.
+ * @param x - Value.
+ * @returns probability of a standard normal variable below `x`.
+ */
+export function normalCdf(x: number) {
+  // Abramowitz and Stegun 7.1.26, accurate to 1.5e-7
+  const z = Math.abs(x) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * z);
+  const erf =
+    1 -
+    ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) *
+      t +
+      0.254829592) *
+      t *
+      Math.exp(-z * z);
+
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Calculates the inverse of the standard normal cumulative distribution.
+ * @param p - Probability from 0 to 1.
+ * @returns value a standard normal variable is below with probability `p`.
+ */
+export function inverseNormalCdf(p: number) {
+  if (p <= 0) {
+    return -Infinity;
+  }
+
+  if (p >= 1) {
+    return Infinity;
+  }
+
+  // Acklam's rational approximation, accurate to 1.15e-9
+  const a = [
+    -39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269,
+    -30.66479806614716, 2.506628277459239,
+  ];
+  const b = [
+    -54.47609879822406, 161.5858368580409, -155.6989798598866,
+    66.80131188771972, -13.28068155288572,
+  ];
+  const c = [
+    -0.007784894002430293, -0.3223964580411365, -2.400758277161838,
+    -2.549732539343734, 4.374664141464968, 2.938163982698783,
+  ];
+  const d = [
+    0.007784695709041462, 0.3224671290700398, 2.445134137142996,
+    3.754408661907416,
+  ];
+  const low = 0.02425;
+
+  if (p < low || p > 1 - low) {
+    const q = Math.sqrt(-2 * Math.log(p < low ? p : 1 - p));
+    const x =
+      (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+
+    return p < low ? x : -x;
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+
+  return (
+    ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) *
+      q) /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
+  );
+}
+
+/**
+ * Reads the per-quote returns of every report, which must span the same number of quotes.
+ * @param reports - `BacktestReport` of every trial.
+ * @returns returns of every report.
+ */
+function getTrialReturns<T>(reports: BacktestReport<T>[]) {
+  const returns = reports.map((report) =>
+    getReturns([
+      report.initialCapital,
+      ...report.equityCurve.map((p) => p.equity),
+    ])
+  );
+
+  returns.forEach((r) => {
+    if (r.length !== returns[0].length) {
+      throw new Error(
+        `Equity curves of different lengths: ${r.length} and ${returns[0].length}.`
+      );
+    }
+  });
+
+  return returns;
+}
+
+/**
+ * Calculates the per-quote Sharpe ratio of a sum and a sum of squares of returns.
+ * @param sum - Sum of the returns.
+ * @param squares - Sum of the squared returns.
+ * @param count - Number of returns.
+ * @param riskFree - Risk-free return per quote.
+ * @returns Sharpe ratio, 0 if the returns do not vary.
+ */
+function getSharpe(
+  sum: number,
+  squares: number,
+  count: number,
+  riskFree: number
+) {
+  if (count < 2) {
+    return 0;
+  }
+
+  const average = sum / count;
+  const variance = (squares - count * average ** 2) / (count - 1);
+
+  return variance > 0 ? (average - riskFree) / Math.sqrt(variance) : 0;
+}
+
+/**
+ * Calculates the deflated Sharpe ratio of the best of many trials.
+ * @param reports - `BacktestReport` of every trial, e.g. of every parameter set of an optimization.
+ * @param options - `MetricsOptions`, those of the first report by default.
+ * @returns `DeflatedSharpeRatio`.
+ */
+export function getDeflatedSharpeRatio<T>(
+  reports: BacktestReport<T>[],
+  options: MetricsOptions = reports[0]?.metricsOptions ?? {}
+): DeflatedSharpeRatio {
+  const barsPerYear = options.barsPerYear ?? DEFAULT_BARS_PER_YEAR;
+  const riskFree = (options.riskFreeRate ?? 0) / 100 / barsPerYear;
+  const returns = getTrialReturns(reports);
+  const sharpes = returns.map((r) =>
+    getSharpe(
+      r.reduce((sum, v) => sum + v, 0),
+      r.reduce((sum, v) => sum + v * v, 0),
+      r.length,
+      riskFree
+    )
+  );
+  const trials = reports.length;
+
+  if (!trials) {
+    return { trials, sharpe: 0, expectedMaxSharpe: 0, probability: 0 };
+  }
+
+  const best = sharpes.indexOf(Math.max(...sharpes));
+  const sharpe = sharpes[best];
+  const expectedMaxSharpe =
+    trials > 1
+      ? standardDeviation(sharpes) *
+        ((1 - EULER_MASCHERONI) * inverseNormalCdf(1 - 1 / trials) +
+          EULER_MASCHERONI * inverseNormalCdf(1 - 1 / (trials * Math.E)))
+      : 0;
+
+  // Skewed and fat-tailed returns make a Sharpe ratio less reliable
+  const bestReturns = returns[best];
+  const deviation = standardDeviation(bestReturns);
+  const average = mean(bestReturns);
+  const moment = (power: number) =>
+    deviation
+      ? mean(bestReturns.map((r) => ((r - average) / deviation) ** power))
+      : 0;
+  const skewness = moment(3);
+  const kurtosis = deviation ? moment(4) : 3;
+  const variance = 1 - skewness * sharpe + ((kurtosis - 1) / 4) * sharpe ** 2;
+
+  return {
+    trials,
+    sharpe: sharpe * Math.sqrt(barsPerYear),
+    expectedMaxSharpe: expectedMaxSharpe * Math.sqrt(barsPerYear),
+    probability:
+      variance > 0 && bestReturns.length > 1
+        ? normalCdf(
+            ((sharpe - expectedMaxSharpe) * Math.sqrt(bestReturns.length - 1)) /
+              Math.sqrt(variance)
+          )
+        : 0,
+  };
+}
+
+/**
+ * Lists every combination of half of the blocks.
+ * @param blocks - Number of blocks.
+ * @returns block indices of every combination.
+ */
+function getCombinations(blocks: number) {
+  const combinations: number[][] = [];
+  const pick = (start: number, combination: number[]) => {
+    if (combination.length === blocks / 2) {
+      combinations.push(combination);
+
+      return;
+    }
+
+    for (let i = start; i < blocks; i++) {
+      pick(i + 1, [...combination, i]);
+    }
+  };
+
+  pick(0, []);
+
+  return combinations;
+}
+
+/**
+ * Calculates the probability of backtest overfitting by combinatorially symmetric cross-validation.
+ * The quotes are split into blocks, and every way of taking half of them in sample selects the trial
+ * with the best in-sample Sharpe ratio, which is then ranked among all trials on the other half.
+ * @param reports - `BacktestReport` of every trial, e.g. of every parameter set of an optimization.
+ * @param options - `OverfittingOptions`.
+ * @returns `BacktestOverfitting`.
+ */
+export function getBacktestOverfitting<T>(
+  reports: BacktestReport<T>[],
+  options: OverfittingOptions = {}
+): BacktestOverfitting {
+  const { blocks = 16, metrics = reports[0]?.metricsOptions ?? {} } = options;
+  const barsPerYear = metrics.barsPerYear ?? DEFAULT_BARS_PER_YEAR;
+  const riskFree = (metrics.riskFreeRate ?? 0) / 100 / barsPerYear;
+  const returns = getTrialReturns(reports);
+  const length = returns[0]?.length ?? 0;
+
+  if (!Number.isInteger(blocks) || blocks < 2 || blocks % 2) {
+    throw new Error(`Invalid number of blocks: ${blocks}.`);
+  }
+
+  if (reports.length < 2 || length < blocks) {
+    throw new Error(
+      `Not enough trials or quotes to cross-validate: ${reports.length} trials of ${length} quotes.`
+    );
+  }
+
+  // Sums of every block make each split a sum over half of the blocks
+  const bounds = Array.from({ length: blocks + 1 }, (_, i) =>
+    Math.round((i * length) / blocks)
+  );
+  const sums = returns.map((r) =>
+    bounds.slice(1).map((end, i) => {
+      const block = r.slice(bounds[i], end);
+
+      return {
+        sum: block.reduce((sum, v) => sum + v, 0),
+        squares: block.reduce((sum, v) => sum + v * v, 0),
+        count: block.length,
+      };
+    })
+  );
+  const getSharpes = (selected: number[]) =>
+    sums.map((trial) => {
+      const total = selected.reduce(
+        (acc, i) => ({
+          sum: acc.sum + trial[i].sum,
+          squares: acc.squares + trial[i].squares,
+          count: acc.count + trial[i].count,
+        }),
+        { sum: 0, squares: 0, count: 0 }
+      );
+
+      return (
+        getSharpe(total.sum, total.squares, total.count, riskFree) *
+        Math.sqrt(barsPerYear)
+      );
+    });
+
+  const logits: number[] = [];
+  const inSample: number[] = [];
+  const outOfSample: number[] = [];
+
+  getCombinations(blocks).forEach((combination) => {
+    const others = bounds
+      .slice(1)
+      .map((_, i) => i)
+      .filter((i) => !combination.includes(i));
+    const inSampleSharpes = getSharpes(combination);
+    const outOfSampleSharpes = getSharpes(others);
+    const selected = inSampleSharpes.indexOf(Math.max(...inSampleSharpes));
+    const selectedSharpe = outOfSampleSharpes[selected];
+    const rank =
+      outOfSampleSharpes.filter((s) => s < selectedSharpe).length + 1;
+    const omega = rank / (reports.length + 1);
+
+    logits.push(Math.log(omega / (1 - omega)));
+    inSample.push(inSampleSharpes[selected]);
+    outOfSample.push(selectedSharpe);
+  });
+
+  const variance = covariance(inSample, inSample);
+  const slope = variance ? covariance(inSample, outOfSample) / variance : 0;
+
+  return {
+    combinations: logits.length,
+    probability: logits.filter((l) => l <= 0).length / logits.length,
+    logits,
+    degradation: {
+      inSampleSharpe: mean(inSample),
+      outOfSampleSharpe: mean(outOfSample),
+      slope,
+      intercept: mean(outOfSample) - slope * mean(inSample),
+      probabilityOfLoss:
+        outOfSample.filter((s) => s < 0).length / outOfSample.length,
+    },
+  };
+}
+
+/**
+ * Diagnoses how much the best of many back-tests owes to selection bias.
+ * @param reports - `BacktestReport` of every trial, e.g. of every parameter set of an optimization.
+ * @param options - `OverfittingOptions`.
+ * @returns `OverfittingDiagnostics`.
+ */
+export function getOverfittingDiagnostics<T>(
+  reports: BacktestReport<T>[],
+  options: OverfittingOptions = {}
+): OverfittingDiagnostics {
+  return {
+    deflatedSharpe: getDeflatedSharpeRatio(
+      reports,
+      options.metrics ?? reports[0]?.metricsOptions
+    ),
+    overfitting: getBacktestOverfitting(reports, options),
+  };
+}
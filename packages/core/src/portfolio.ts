@@ -0,0 +1,583 @@
+import { Backtest, BacktestConfiguration, BacktestRunner } from './backtest';
+import {
+  BacktestReport,
+  BacktestReportStatistics,
+  EquityPoint,
+  TradeSide,
+} from './backtestReport';
+import { getBenchmarkPrices } from './benchmark';
+import {
+  CorporateAction,
+  CorporateActionEvent,
+  getCorporateActionEvents,
+} from './corporateActions';
+import { Dataset } from './dataset';
+import { MetricsOptions } from './metrics';
+import { Quote } from './quote';
+import { Strategy } from './strategy';
+
+/**
+ * Configures a portfolio back-test, filling trades on the quote of their signal.
+ * - `maxPositions` - maximum number of symbols held at once, unlimited by default.
+ * - `maxWeight` - maximum value of a position as a percentage of the portfolio equity, e.g. 25 for 25%, 100 by default.
+ * - `cashReserve` - percentage of the portfolio equity kept in cash, e.g. 10 for 10%, 0 by default.
+ * - `corporateActions` - `CorporateAction` list of every symbol.
+ * - `warmUp` - number of leading dates that only warm up the indicators.
+ * Positions are sized on the portfolio equity, entries of the same date in the order of the symbols.
+ */
+export interface PortfolioConfiguration
+  extends Omit<
+    BacktestConfiguration,
+    'execution' | 'account' | 'corporateActions'
+  > {
+  maxPositions?: number;
+  maxWeight?: number;
+  cashReserve?: number;
+  corporateActions?: Record<string, CorporateAction[]>;
+}
+
+export type PortfolioRunner<T> = Omit<BacktestRunner<T>, 'config'> & {
+  config: PortfolioConfiguration;
+};
+
+/**
+ * Cash and equity shared by the symbols of a portfolio.
+ */
+type PortfolioAccount = {
+  cash: number;
+  equity: number;
+};
+
+/**
+ * Sorts the dates of the quotes of every symbol into one timeline.
+ * @param datasets - `Dataset` of every symbol, with dated quotes.
+ * @param attribute - Attribute holding the date of the quotes, `date` by default.
+ * @returns timestamps, and the quote position of every symbol by timestamp.
+ */
+export function getTimeline<T>(
+  datasets: Record<string, Dataset<T>>,
+  attribute?: string
+) {
+  const positions: Record<string, Map<number, number>> = {};
+
+  Object.entries(datasets).forEach(([symbol, dataset]) => {
+    positions[symbol] = new Map();
+
+    dataset.quotes.forEach((quote, index) => {
+      const timestamp = quote.getTimestamp(attribute);
+
+      if (timestamp === undefined) {
+        throw new Error(
+          `Quote without a date in the dataset of ${symbol}: ${index}.`
+        );
+      }
+
+      positions[symbol].set(timestamp, index);
+    });
+  });
+
+  const timestamps = [
+    ...new Set(
+      Object.values(positions).flatMap((byTimestamp) => [...byTimestamp.keys()])
+    ),
+  ].sort((a, b) => a - b);
+
+  return { timestamps, positions };
+}
+
+/**
+ * Back-test of one symbol of a portfolio, trading from the cash shared by all symbols.
+ */
+class PortfolioLeg<P, T, O> extends Backtest<P, T, O> {
+  symbol: string;
+  report: BacktestReport<T>;
+  price: number;
+  protected _account: () => PortfolioAccount;
+  protected _runner: BacktestRunner<T>;
+  protected _constraints: PortfolioConfiguration;
+  protected _corporateActions: Map<number, CorporateActionEvent>;
+
+  /**
+   * Creates the back-test of a symbol.
+   * @param symbol - Symbol of the dataset.
+   * @param dataset - `Dataset` of the symbol.
+   * @param strategy - `Strategy` applied to the symbol.
+   * @param account - Reads the cash and equity of the portfolio.
+   */
+  constructor(
+    symbol: string,
+    dataset: Dataset<T>,
+    strategy: Strategy<P, T, O>,
+    account: () => PortfolioAccount
+  ) {
+    super(dataset, strategy);
+
+    this.symbol = symbol;
+    this.report = new BacktestReport<T>(0);
+    this.price = NaN;
+    this._account = account;
+    this._runner = {
+      config: { capital: 0 },
+      onEntry: () => 0,
+      onExit: () => 0,
+    };
+    this._constraints = { capital: 0 };
+    this._corporateActions = new Map();
+  }
+
+  /**
+   * Value of the cash flows and the open position of the symbol, on top of the initial capital.
+   */
+  get equity() {
+    return this.report.openShares > 0
+      ? this.report.getEquity(this.price)
+      : this.report.finalCapital;
+  }
+
+  /**
+   * Resets the symbol for a new run.
+   * @param runner - `PortfolioRunner` of the portfolio.
+   * @param warmUp - Number of leading quotes of the symbol that only warm up the indicators.
+   */
+  start(runner: PortfolioRunner<T>, warmUp: number) {
+    const { config } = runner;
+    const corporateActions = config.corporateActions?.[this.symbol];
+
+    this._runner = {
+      ...runner,
+      config: { ...config, corporateActions, warmUp },
+    };
+    this._constraints = config;
+    this._corporateActions = getCorporateActionEvents(
+      this.dataset.quotes,
+      corporateActions,
+      config.attributes?.date
+    );
+    this.report = new BacktestReport<T>(
+      config.capital,
+      config.metrics,
+      config.lots
+    );
+    this.price = NaN;
+  }
+
+  /**
+   * Caps the cash of an entry by the cash reserve and the maximum weight of the portfolio.
+   * @param report - `BacktestReport` of the symbol.
+   * @param config - `BacktestConfiguration`.
+   * @param price - Price of the entry.
+   * @param side - `long` or `short`.
+   * @returns buying power.
+   */
+  protected getBuyingPower(
+    report: BacktestReport<T>,
+    config: BacktestConfiguration,
+    price: number,
+    side: TradeSide = 'long'
+  ) {
+    const { cash, equity } = this._account();
+    const { maxWeight = 100, cashReserve = 0 } = this._constraints;
+    const available = cash - (equity * cashReserve) / 100;
+    const room = (equity * maxWeight) / 100 - report.openShares * price;
+    const power =
+      side === 'short' ? available / this.getMargin(config, side) : available;
+
+    return Math.max(Math.min(power, room), 0);
+  }
+
+  /**
+   * Prices the quote of the symbol and applies its borrow fee and corporate actions.
+   * @param index - Position of the quote in the dataset of the symbol.
+   */
+  openAt(index: number) {
+    const { config, onExit } = this._runner;
+    const { quotes } = this.dataset;
+
+    this.price = onExit(quotes[index], index, quotes);
+    this.accrueBorrowFee(this.report, config, this.price);
+    this.applyCorporateActions(this.report, this._corporateActions.get(index));
+  }
+
+  /**
+   * Exits, reverses or scales out of the position of the symbol on its quote.
+   * The position is closed on the last quote of the symbol.
+   * @param index - Position of the quote in the dataset of the symbol.
+   */
+  closeAt(index: number) {
+    const { report } = this;
+    const { config } = this._runner;
+    const { quotes } = this.dataset;
+    const quote = quotes[index];
+    const position = quote.getStrategy(this.strategy.name).position;
+
+    if (report.openShares === 0) {
+      return;
+    }
+
+    if (index === quotes.length - 1) {
+      this.exit(report, config, this.price, quote, 'end');
+    } else if (position.value === 'reverse') {
+      this.exit(report, config, this.price, quote);
+    } else if (position.value === 'scale-out') {
+      this.exit(
+        report,
+        config,
+        this.price,
+        quote,
+        'scaleOut',
+        report.openShares * (position.options?.exitFraction ?? 1)
+      );
+    } else if (position.value === 'exit') {
+      // Stop-loss and take-profit exits fill at their own level
+      this.exit(
+        report,
+        config,
+        position.options?.exitPrice ?? this.price,
+        quote,
+        position.options?.exitReason
+      );
+    }
+  }
+
+  /**
+   * Enters or scales in the position of the symbol on its quote.
+   * @param index - Position of the quote in the dataset of the symbol.
+   * @param canOpen - Whether the portfolio can hold one more position.
+   */
+  enterAt(index: number, canOpen: boolean) {
+    const { report } = this;
+    const { config, onEntry } = this._runner;
+    const { quotes } = this.dataset;
+    const quote = quotes[index];
+    const position = quote.getStrategy(this.strategy.name).position;
+    const isOpen = report.openShares > 0;
+    let side: TradeSide;
+
+    if (index === quotes.length - 1) {
+      return;
+    } else if (
+      (position.value === 'entry' || position.value === 'reverse') &&
+      !isOpen &&
+      canOpen
+    ) {
+      side = position.options?.short ? 'short' : 'long';
+    } else if (position.value === 'scale-in' && isOpen) {
+      side = report.side;
+    } else {
+      return;
+    }
+
+    const price = onEntry(quote, index, quotes);
+    const size = this.getSize(
+      report,
+      config,
+      price,
+      quote,
+      position,
+      this._account().equity
+    );
+
+    this.enter(report, config, price, quote, size, side);
+  }
+
+  /**
+   * Records the equity of the symbol after its quote.
+   * @param index - Position of the quote in the dataset of the symbol.
+   */
+  markAt(index: number) {
+    const { quotes } = this.dataset;
+
+    this.markToMarket(this.report, this._runner, quotes[index], index, quotes);
+  }
+}
+
+/**
+ * Back-test of a portfolio, the combined equity of every symbol traded from one cash pool.
+ * Reports of the symbols account for their own trades,
+ * their returns are the contribution of the symbol to the portfolio.
+ */
+export class PortfolioReport<T = number> extends BacktestReport<T> {
+  symbols: Record<string, BacktestReport<T>>;
+  private marked: Record<string, number[]>;
+  private collected: Record<string, { trades: number; roundTrips: number }>;
+
+  /**
+   * Creates the report of a portfolio.
+   * @param initialCapital - Capital shared by the symbols.
+   * @param symbols - `BacktestReport` of every symbol, started with the same capital.
+   * @param metricsOptions - `MetricsOptions` to annualise the metrics.
+   */
+  constructor(
+    initialCapital: number,
+    symbols: Record<string, BacktestReport<T>>,
+    metricsOptions: MetricsOptions = {}
+  ) {
+    super(initialCapital, metricsOptions);
+
+    this.symbols = symbols;
+    this.marked = {};
+    this.collected = {};
+
+    Object.keys(symbols).forEach((symbol) => {
+      this.marked[symbol] = [];
+      this.collected[symbol] = { trades: 0, roundTrips: 0 };
+    });
+  }
+
+  /**
+   * Calculates a total over the reports of the symbols.
+   * @param read - Reads a value of a report.
+   * @returns sum of the values.
+   */
+  private sum(read: (report: BacktestReport<T>) => number) {
+    return Object.values(this.symbols).reduce(
+      (total, report) => total + read(report),
+      0
+    );
+  }
+
+  /**
+   * Records the equity of the portfolio after a date, with the trades of the symbols since the previous one.
+   * The price of a portfolio point is its equity.
+   * @param quote - A `Quote` of the date.
+   * @param index - Index of the date.
+   * @param symbols - Symbols that were marked on the date.
+   * @returns `EquityPoint`.
+   */
+  markPortfolio(quote: Quote<T>, index: number, symbols: string[]) {
+    const { initialCapital } = this;
+
+    symbols.forEach((symbol) => this.marked[symbol].push(index));
+    this.collect();
+
+    const last = (report: BacktestReport<T>) =>
+      report.equityCurve[report.equityCurve.length - 1];
+    const equity =
+      initialCapital +
+      this.sum((r) => (last(r)?.equity ?? r.finalCapital) - initialCapital);
+    const marketValue = this.sum((r) =>
+      r.openShares ? r.openShares * last(r).price : 0
+    );
+
+    this.peakEquity = Math.max(this.peakEquity, equity);
+
+    const point: EquityPoint<T> = {
+      quote,
+      index,
+      price: equity,
+      cash: this.finalCapital,
+      positionValue: equity - this.finalCapital,
+      equity,
+      exposure: equity > 0 ? (marketValue * 100) / equity : 0,
+      drawdown:
+        this.peakEquity > 0
+          ? ((this.peakEquity - equity) * 100) / this.peakEquity
+          : 0,
+    };
+
+    this.equityCurve.push(point);
+
+    return point;
+  }
+
+  /**
+   * Adds the new trades of the symbols and updates the totals of the portfolio.
+   */
+  private collect() {
+    const { initialCapital } = this;
+    const addStatistics = (side: TradeSide) => {
+      const statistics: BacktestReportStatistics = {
+        numberOfTrades: this.sum((r) => r[side].numberOfTrades),
+        numberOfWinningTrades: this.sum((r) => r[side].numberOfWinningTrades),
+        numberOfLosingTrades: this.sum((r) => r[side].numberOfLosingTrades),
+        profit: this.sum((r) => r[side].profit),
+        loss: this.sum((r) => r[side].loss),
+        winningRate: 0,
+      };
+
+      statistics.winningRate = statistics.numberOfTrades
+        ? statistics.numberOfWinningTrades / statistics.numberOfTrades
+        : 0;
+
+      return statistics;
+    };
+
+    Object.entries(this.symbols).forEach(([symbol, report]) => {
+      const collected = this.collected[symbol];
+      const marked = this.marked[symbol];
+
+      this.trades.push(
+        ...report.trades
+          .slice(collected.trades)
+          .map((trade) => ({ ...trade, symbol }))
+      );
+      report.roundTrips.slice(collected.roundTrips).forEach((trip) => {
+        this.roundTrips.push({
+          ...trip,
+          symbol,
+          // Indices of the symbol count its own quotes
+          entryIndex: marked[trip.entryIndex] ?? trip.entryIndex,
+          exitIndex: marked[trip.exitIndex] ?? trip.exitIndex,
+        });
+        this.tradeResults.push(trip.pnl);
+      });
+
+      collected.trades = report.trades.length;
+      collected.roundTrips = report.roundTrips.length;
+    });
+
+    this.long = addStatistics('long');
+    this.short = addStatistics('short');
+    this.profit = this.sum((r) => r.profit);
+    this.loss = this.sum((r) => r.loss);
+    this.numberOfTrades = this.sum((r) => r.numberOfTrades);
+    this.numberOfWinningTrades = this.sum((r) => r.numberOfWinningTrades);
+    this.numberOfLosingTrades = this.sum((r) => r.numberOfLosingTrades);
+    this.winningRate = this.numberOfTrades
+      ? this.numberOfWinningTrades / this.numberOfTrades
+      : 0;
+    this.totalCommission = this.sum((r) => r.totalCommission);
+    this.totalSlippage = this.sum((r) => r.totalSlippage);
+    this.totalBorrowFees = this.sum((r) => r.totalBorrowFees);
+    this.dividendIncome = this.sum((r) => r.dividendIncome);
+    this.realizedPnl = this.sum((r) => r.realizedPnl);
+    this.finalCapital =
+      initialCapital + this.sum((r) => r.finalCapital - initialCapital);
+    this.currentCapital = this.finalCapital;
+    this.returns = this.finalCapital - initialCapital;
+    this.returnsPercentage = (this.returns * 100) / initialCapital;
+    this.grossReturns = this.returns + this.totalCosts;
+  }
+}
+
+/**
+ * Back-tests a strategy over a basket of symbols sharing one cash pool.
+ * Datasets are aligned by the dates of their quotes, a symbol is only traded on the dates it has a quote for
+ * and is valued at its last quote in between.
+ */
+export class PortfolioBacktest<P = unknown, T = number, O = unknown> {
+  protected _legs: PortfolioLeg<P, T, O>[];
+
+  /**
+   * Applies the strategy to the dataset of every symbol.
+   * @param datasets - `Dataset` of every symbol, with dated quotes.
+   * @param strategy - `Strategy` applied to every symbol, or a function creating the strategy of a symbol.
+   */
+  constructor(
+    datasets: Record<string, Dataset<T>>,
+    strategy: Strategy<P, T, O> | ((symbol: string) => Strategy<P, T, O>)
+  ) {
+    this._legs = Object.entries(datasets).map(
+      ([symbol, dataset]) =>
+        new PortfolioLeg(
+          symbol,
+          dataset,
+          typeof strategy === 'function' ? strategy(symbol) : strategy,
+          () => this.getAccount()
+        )
+    );
+  }
+
+  get symbols() {
+    return this._legs.map((leg) => leg.symbol);
+  }
+
+  /**
+   * Calculates the cash and equity of the portfolio at the latest prices of the symbols.
+   * @returns `PortfolioAccount`.
+   */
+  protected getAccount(): PortfolioAccount {
+    const capital = this._legs[0]?.report.initialCapital ?? 0;
+
+    return this._legs.reduce(
+      (account, leg) => ({
+        cash: account.cash + leg.report.finalCapital - capital,
+        equity: account.equity + leg.equity - capital,
+      }),
+      { cash: capital, equity: capital }
+    );
+  }
+
+  /**
+   * Runs the portfolio back-test over the aligned datasets.
+   * On every date, exits of all symbols are filled before their entries.
+   * With `benchmark` configured with a dataset, the report compares the equity curve with it.
+   * @param runner - `PortfolioRunner` with the configuration and entry/exit prices of every symbol.
+   * @returns `PortfolioReport` with the `BacktestReport` of every symbol.
+   */
+  run(runner: PortfolioRunner<T>) {
+    const { config } = runner;
+    const {
+      maxPositions = Infinity,
+      maxWeight = 100,
+      cashReserve = 0,
+      warmUp = 0,
+    } = config;
+
+    if (!(maxPositions >= 1)) {
+      throw new Error(`Invalid maximum number of positions: ${maxPositions}.`);
+    }
+
+    if (!(maxWeight > 0 && maxWeight <= 100)) {
+      throw new Error(`Invalid maximum weight: ${maxWeight}.`);
+    }
+
+    if (!(cashReserve >= 0 && cashReserve < 100)) {
+      throw new Error(`Invalid cash reserve: ${cashReserve}.`);
+    }
+
+    const { timestamps, positions } = getTimeline(
+      Object.fromEntries(this._legs.map((leg) => [leg.symbol, leg.dataset])),
+      config.attributes?.date
+    );
+    // Symbols skip their own quotes dated before the first traded date
+    const start = timestamps[warmUp] ?? Infinity;
+
+    this._legs.forEach((leg) => {
+      leg.start(
+        runner,
+        [...positions[leg.symbol].keys()].filter((t) => t < start).length
+      );
+    });
+
+    const report = new PortfolioReport<T>(
+      config.capital,
+      Object.fromEntries(this._legs.map((leg) => [leg.symbol, leg.report])),
+      config.metrics
+    );
+
+    timestamps.slice(warmUp).forEach((timestamp, step) => {
+      const quoted = this._legs
+        .map((leg) => ({ leg, index: positions[leg.symbol].get(timestamp) }))
+        .filter(
+          (q): q is { leg: PortfolioLeg<P, T, O>; index: number } =>
+            q.index !== undefined
+        );
+
+      quoted.forEach(({ leg, index }) => leg.openAt(index));
+      quoted.forEach(({ leg, index }) => leg.closeAt(index));
+      quoted.forEach(({ leg, index }) =>
+        leg.enterAt(
+          index,
+          this._legs.filter((l) => l.report.openShares > 0).length <
+            maxPositions
+        )
+      );
+      quoted.forEach(({ leg, index }) => leg.markAt(index));
+
+      report.markPortfolio(
+        quoted[0].leg.dataset.quotes[quoted[0].index],
+        step,
+        quoted.map(({ leg }) => leg.symbol)
+      );
+    });
+
+    if (config.benchmark?.dataset) {
+      report.markBenchmark(
+        getBenchmarkPrices(report.equityCurve, config.benchmark)
+      );
+    }
+
+    return report;
+  }
+}
@@ -1,4 +1,22 @@
-export type TradePositionType = 'idle' | 'entry' | 'exit' | 'hold';
+/**
+ * Position of a strategy on a quote.
+ * - `reverse` - closes the open position and enters the opposite side on the same quote.
+ * - `scale-in` - adds a tranche to the open position.
+ * - `scale-out` - exits a fraction of the open position.
+ */
+export type TradePositionType =
+  | 'idle'
+  | 'entry'
+  | 'exit'
+  | 'hold'
+  | 'reverse'
+  | 'scale-in'
+  | 'scale-out';
+
+/**
+ * Side of the market a position is on, `flat` without an open position.
+ */
+export type TradePositionSide = 'long' | 'short' | 'flat';
 
 export const newTradingPositionMap: {
   [currentTradingPosition in TradePositionType]: {
@@ -10,31 +28,219 @@ export const newTradingPositionMap: {
     entry: 'entry',
     exit: 'idle',
     hold: 'idle',
+    reverse: 'entry',
+    'scale-in': 'idle',
+    'scale-out': 'idle',
   },
   entry: {
     idle: 'hold',
     entry: 'hold',
     exit: 'exit',
     hold: 'hold',
+    reverse: 'reverse',
+    'scale-in': 'scale-in',
+    'scale-out': 'scale-out',
   },
   exit: {
     idle: 'idle',
     entry: 'entry',
     exit: 'idle',
     hold: 'idle',
+    reverse: 'entry',
+    'scale-in': 'idle',
+    'scale-out': 'idle',
   },
   hold: {
     idle: 'hold',
     entry: 'hold',
     exit: 'exit',
     hold: 'hold',
+    reverse: 'reverse',
+    'scale-in': 'scale-in',
+    'scale-out': 'scale-out',
+  },
+  reverse: {
+    idle: 'hold',
+    entry: 'hold',
+    exit: 'exit',
+    hold: 'hold',
+    reverse: 'reverse',
+    'scale-in': 'scale-in',
+    'scale-out': 'scale-out',
+  },
+  'scale-in': {
+    idle: 'hold',
+    entry: 'hold',
+    exit: 'exit',
+    hold: 'hold',
+    reverse: 'reverse',
+    'scale-in': 'scale-in',
+    'scale-out': 'scale-out',
+  },
+  'scale-out': {
+    idle: 'hold',
+    entry: 'hold',
+    exit: 'exit',
+    hold: 'hold',
+    reverse: 'reverse',
+    'scale-in': 'scale-in',
+    'scale-out': 'scale-out',
   },
 };
 
-type TradePositionOptions<O> = O & {
+/**
+ * Reason why a position was closed.
+ */
+export type ExitReason =
+  | 'signal'
+  | 'stopLoss'
+  | 'takeProfit'
+  | 'trailingStop'
+  | 'scaleOut'
+  | 'liquidation'
+  | 'rebalance'
+  | 'end';
+
+/**
+ * Defines how far from the entry price a stop-loss or take-profit level is placed.
+ * - `percentage` - `value` percent of the entry price, e.g. 5 for 5%.
+ * - `absolute` - `value` price units away from the entry price.
+ * - `atr` - `value` times the `indicator` (ATR) value of the entry quote.
+ */
+export type ExitRule =
+  | { type: 'percentage'; value: number }
+  | { type: 'absolute'; value: number }
+  | { type: 'atr'; value: number; indicator: string };
+
+/**
+ * Defines how a trailing stop follows the high-water mark of a position.
+ * - `percentage` - `value` percent below the high-water mark, e.g. 5 for 5%.
+ * - `chandelier` - `value` times the `indicator` (ATR) value below the high-water mark.
+ * - `parabolic` - moves towards the high-water mark by an acceleration factor that
+ * starts at `step`, grows by `step` on every new high-water mark and is capped at `max`.
+ */
+export type TrailingStopRule =
+  | { type: 'percentage'; value: number }
+  | { type: 'chandelier'; value: number; indicator: string }
+  | { type: 'parabolic'; step?: number; max?: number };
+
+export type RiskManagementOptions = {
+  stopLoss?: ExitRule;
+  takeProfit?: ExitRule;
+  trailingStop?: TrailingStopRule;
+};
+
+export type TradePositionOptions<O> = O & {
   short?: boolean;
+  entryPrice?: number;
+  stopLoss?: number;
+  takeProfit?: number;
+  highWaterMark?: number;
+  trailingStop?: number;
+  accelerationFactor?: number;
+  exitPrice?: number;
+  exitReason?: ExitReason;
+  tranches?: number;
+  scaleOuts?: number;
+  exitFraction?: number;
+};
+
+type TrailingStopState = {
+  highWaterMark: number;
+  trailingStop: number;
+  accelerationFactor?: number;
 };
 
+/**
+ * Calculates the distance between the entry price and the level of a given rule.
+ * @param rule - `ExitRule`.
+ * @param entryPrice - Price at which the position was entered.
+ * @param indicators - Indicator values of the entry quote.
+ * @returns distance in price units, `NaN` if it can not be calculated.
+ */
+export function getExitDistance(
+  rule: ExitRule,
+  entryPrice: number,
+  indicators: { [key: string | number]: number }
+) {
+  switch (rule.type) {
+    case 'percentage':
+      return (entryPrice * rule.value) / 100;
+    case 'absolute':
+      return rule.value;
+    case 'atr':
+      return (indicators[rule.indicator] ?? NaN) * rule.value;
+  }
+}
+
+/**
+ * Calculates the trailing stop of a position after a quote.
+ * The level never moves against the position.
+ * @param rule - `TrailingStopRule`.
+ * @param state - Trailing stop state of the position so far, `undefined` on entry.
+ * @param best - Most favourable price of the quote (high for long, low for short positions).
+ * @param worst - Least favourable price of the quote, used as the initial parabolic level.
+ * @param indicators - Indicator values of the quote.
+ * @param short - Whether the position is short.
+ * @returns new trailing stop state.
+ */
+export function getTrailingStop(
+  rule: TrailingStopRule,
+  state: Partial<TrailingStopState> | undefined,
+  best: number,
+  worst: number,
+  indicators: { [key: string | number]: number },
+  short = false
+): TrailingStopState {
+  const direction = short ? -1 : 1;
+  const previousMark = state?.highWaterMark;
+  const highWaterMark =
+    previousMark === undefined
+      ? best
+      : short
+        ? Math.min(previousMark, best)
+        : Math.max(previousMark, best);
+  const previousStop = state?.trailingStop;
+  let trailingStop: number;
+  let accelerationFactor: number | undefined;
+
+  switch (rule.type) {
+    case 'percentage':
+      trailingStop = highWaterMark * (1 - (direction * rule.value) / 100);
+      break;
+    case 'chandelier':
+      trailingStop =
+        highWaterMark -
+        direction * (indicators[rule.indicator] ?? NaN) * rule.value;
+      break;
+    case 'parabolic': {
+      const step = rule.step ?? 0.02;
+      const max = rule.max ?? 0.2;
+
+      if (previousStop === undefined || isNaN(previousStop)) {
+        trailingStop = worst;
+        accelerationFactor = step;
+      } else {
+        accelerationFactor =
+          highWaterMark !== previousMark
+            ? Math.min((state?.accelerationFactor ?? step) + step, max)
+            : state?.accelerationFactor ?? step;
+        trailingStop =
+          previousStop + accelerationFactor * (highWaterMark - previousStop);
+      }
+      break;
+    }
+  }
+
+  if (previousStop !== undefined && !isNaN(previousStop)) {
+    trailingStop = short
+      ? Math.min(previousStop, trailingStop)
+      : Math.max(previousStop, trailingStop);
+  }
+
+  return { highWaterMark, trailingStop, accelerationFactor };
+}
+
 export class TradePosition<O = unknown> {
   private _value: TradePositionType;
   private _options?: TradePositionOptions<O>;
@@ -52,7 +258,73 @@ export class TradePosition<O = unknown> {
     return this._options;
   }
 
-  static update<O = unknown>(oldPosition: TradePosition<O>, newPosition: TradePosition<O>) {
+  /**
+   * Whether the position is open after the quote.
+   */
+  get isOpen() {
+    return this._value !== 'idle' && this._value !== 'exit';
+  }
+
+  /**
+   * Side of the open position, `flat` if the position is not open.
+   */
+  get side(): TradePositionSide {
+    if (!this.isOpen) {
+      return 'flat';
+    }
+
+    return this._options?.short ? 'short' : 'long';
+  }
+
+  /**
+   * Checks whether the given price has hit the stop-loss level of the position.
+   * @param price - Worst price of the quote (low for long, high for short positions).
+   * @returns true if the stop-loss level is hit.
+   */
+  shouldStopOut(price: number) {
+    const stopLoss = this._options?.stopLoss;
+
+    if (stopLoss === undefined || isNaN(stopLoss)) {
+      return false;
+    }
+
+    return this._options?.short ? price >= stopLoss : price <= stopLoss;
+  }
+
+  /**
+   * Checks whether the given price has hit the trailing stop of the position.
+   * @param price - Worst price of the quote (low for long, high for short positions).
+   * @returns true if the trailing stop is hit.
+   */
+  shouldTrailOut(price: number) {
+    const trailingStop = this._options?.trailingStop;
+
+    if (trailingStop === undefined || isNaN(trailingStop)) {
+      return false;
+    }
+
+    return this._options?.short ? price >= trailingStop : price <= trailingStop;
+  }
+
+  /**
+   * Checks whether the given price has hit the take-profit level of the position.
+   * @param price - Best price of the quote (high for long, low for short positions).
+   * @returns true if the take-profit level is hit.
+   */
+  shouldTakeProfit(price: number) {
+    const takeProfit = this._options?.takeProfit;
+
+    if (takeProfit === undefined || isNaN(takeProfit)) {
+      return false;
+    }
+
+    return this._options?.short ? price <= takeProfit : price >= takeProfit;
+  }
+
+  static update<O = unknown>(
+    oldPosition: TradePosition<O>,
+    newPosition: TradePosition<O>
+  ) {
     return new TradePosition<O>(
       newTradingPositionMap[oldPosition.value][newPosition.value],
       Object.assign({}, oldPosition._options, newPosition.options)
@@ -1,5 +1,36 @@
 import { StrategyValue } from './strategy';
 
+/**
+ * Maps OHLCV and date fields to the attributes of object quote values.
+ */
+export type QuoteAttributes = {
+  open?: string;
+  high?: string;
+  low?: string;
+  close?: string;
+  volume?: string;
+  date?: string;
+};
+
+/**
+ * Reads the time of a `Date`, a date string or a timestamp.
+ * @param date - Date to read.
+ * @returns timestamp in milliseconds since the epoch, `undefined` if the date is not valid.
+ */
+export function toTimestamp(date: unknown) {
+  let timestamp = NaN;
+
+  if (date instanceof Date) {
+    timestamp = date.getTime();
+  } else if (typeof date === 'string') {
+    timestamp = Date.parse(date);
+  } else if (typeof date === 'number') {
+    timestamp = date;
+  }
+
+  return isNaN(timestamp) ? undefined : timestamp;
+}
+
 /**
  * Creates a quote out of any value.
  *
@@ -9,18 +40,30 @@ import { StrategyValue } from './strategy';
  *
  * new Quote(1) = { value: 1 },
  * new Quote({ close: 1 }) = { value: { close: 1 }},
+ * new Quote(1, '2024-01-02') = { value: 1, timestamp: 1704153600000 },
  */
 export class Quote<T = number> {
   private _value: T;
+  private _timestamp?: number;
   private _indicators: { [key: string | number]: number };
   private _strategies: { [key: string | number]: StrategyValue };
 
   /**
    * Creates a quote after type-casting the given value.
    * @param value - Any value.
+   * @param timestamp - `Date`, date string or timestamp of the quote, read from its `date` attribute if not given (Optional).
    */
-  constructor(value: T) {
+  constructor(value: T, timestamp?: Date | string | number) {
     this._value = this.sanitize(value);
+
+    if (timestamp !== undefined) {
+      this._timestamp = toTimestamp(timestamp);
+
+      if (this._timestamp === undefined) {
+        throw new Error(`Invalid quote timestamp: ${timestamp}.`);
+      }
+    }
+
     this._indicators = {};
     this._strategies = {};
   }
@@ -29,6 +72,13 @@ export class Quote<T = number> {
     return this._value;
   }
 
+  /**
+   * Time of the quote in milliseconds since the epoch, `undefined` for quotes without a date.
+   */
+  get timestamp() {
+    return this.getTimestamp();
+  }
+
   get indicators() {
     return this._indicators;
   }
@@ -52,6 +102,37 @@ export class Quote<T = number> {
     }
   }
 
+  /**
+   * Get numeric value of the quote.
+   * @param attribute - Attribute to read if the quote value is an object (Optional).
+   * @returns value of the attribute for object quotes, value itself otherwise.
+   */
+  getValue(attribute?: string) {
+    if (attribute && this._value && typeof this._value === 'object') {
+      return Number(this._value[attribute]);
+    }
+
+    return Number(this._value);
+  }
+
+  /**
+   * Get the time of the quote in milliseconds since the epoch.
+   * The timestamp the quote was created with takes precedence over its attributes.
+   * @param attribute - Attribute holding a `Date`, a date string or a timestamp, `date` by default.
+   * @returns timestamp if the quote has a valid date, `undefined` otherwise.
+   */
+  getTimestamp(attribute = 'date') {
+    if (this._timestamp !== undefined) {
+      return this._timestamp;
+    }
+
+    if (!this._value || typeof this._value !== 'object') {
+      return undefined;
+    }
+
+    return toTimestamp(this._value[attribute]);
+  }
+
   /**
    * Get quote indicator value by indicator name.
    * @param indicatorName - Name of the `Indicator`.
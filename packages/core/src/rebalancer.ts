@@ -0,0 +1,487 @@
+import { BacktestConfiguration, BacktestRunner } from './backtest';
+import { BacktestReport } from './backtestReport';
+import { getBenchmarkPrices } from './benchmark';
+import { getAffordableShares, getCommission, getSlippage } from './costs';
+import { Dataset } from './dataset';
+import { MetricsOptions } from './metrics';
+import { PortfolioReport, getTimeline } from './portfolio';
+import { ExitReason } from './position';
+import { Quote } from './quote';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Defines when the portfolio is rebalanced, always on its first date.
+ * - `daily` - on every date.
+ * - `weekly` - on the first date of every week, starting on Monday (UTC).
+ * - `monthly` - on the first date of every month (UTC).
+ * - `drift` - on any date a weight is more than `threshold` away from its target, e.g. 0.05 for 5 points.
+ */
+export type RebalanceSchedule =
+  | { type: 'daily' }
+  | { type: 'weekly' }
+  | { type: 'monthly' }
+  | { type: 'drift'; threshold: number };
+
+/**
+ * State of the portfolio on a rebalancing date.
+ * - `index` - index of the date.
+ * - `quotes` - latest quote of every symbol quoted so far.
+ * - `indices` - position of those quotes in the datasets of the symbols.
+ * - `weights` - current weight of every symbol, as a fraction of the equity.
+ */
+export type RebalanceContext<T> = {
+  timestamp: number;
+  index: number;
+  equity: number;
+  quotes: Record<string, Quote<T>>;
+  indices: Record<string, number>;
+  weights: Record<string, number>;
+};
+
+/**
+ * Defines the allocation.
+ * - `weights` - target weight of every symbol as a fraction of the equity, symbols left out are sold.
+ * Weights are at least 0 and add up to 1 at most, the rest is kept in cash.
+ * - `schedule` - `RebalanceSchedule`, `monthly` by default.
+ */
+export type RebalancerOptions<T> = {
+  weights: (context: RebalanceContext<T>) => Record<string, number>;
+  schedule?: RebalanceSchedule;
+};
+
+/**
+ * Configures a rebalancing back-test.
+ * - `warmUp` - number of leading dates that are neither traded nor marked.
+ */
+export type RebalanceConfiguration = Pick<
+  BacktestConfiguration,
+  | 'capital'
+  | 'name'
+  | 'costs'
+  | 'attributes'
+  | 'metrics'
+  | 'benchmark'
+  | 'warmUp'
+  | 'lots'
+>;
+
+/**
+ * Defines the configuration and the prices of every symbol.
+ * Buys fill at `onEntry`, sells at `onExit`, and holdings are valued at `onMark`, `onExit` by default.
+ */
+export type RebalanceRunner<T> = Omit<BacktestRunner<T>, 'config'> & {
+  config: RebalanceConfiguration;
+};
+
+/**
+ * Target weights of a rebalancing date.
+ * - `turnover` - value bought and sold as a percentage of the equity before the rebalancing.
+ */
+export type RebalanceEvent = {
+  index: number;
+  timestamp: number;
+  weights: Record<string, number>;
+  turnover: number;
+};
+
+/**
+ * Portfolio back-test with the target weights and the turnover of every rebalancing.
+ */
+export class RebalanceReport<T = number> extends PortfolioReport<T> {
+  rebalances: RebalanceEvent[];
+
+  /**
+   * Creates the report of a rebalanced portfolio.
+   * @param initialCapital - Capital shared by the symbols.
+   * @param symbols - `BacktestReport` of every symbol, started with the same capital.
+   * @param metricsOptions - `MetricsOptions` to annualise the metrics.
+   */
+  constructor(
+    initialCapital: number,
+    symbols: Record<string, BacktestReport<T>>,
+    metricsOptions: MetricsOptions = {}
+  ) {
+    super(initialCapital, symbols, metricsOptions);
+
+    this.rebalances = [];
+  }
+
+  /**
+   * Total turnover of all rebalancings, in percent.
+   */
+  get turnover() {
+    return this.rebalances.reduce((sum, event) => sum + event.turnover, 0);
+  }
+
+  /**
+   * Records the target weights and the turnover of a rebalancing.
+   * @param event - `RebalanceEvent`.
+   */
+  markRebalance(event: RebalanceEvent) {
+    this.rebalances.push(event);
+  }
+}
+
+/**
+ * Back-tests an allocation over a basket of symbols, trading to target weights on a schedule instead of signals.
+ * Datasets are aligned by the dates of their quotes, a symbol is only traded on the dates it has a quote for.
+ */
+export class Rebalancer<T = number> {
+  protected _datasets: Record<string, Dataset<T>>;
+  protected _options: RebalancerOptions<T>;
+
+  /**
+   * Creates a rebalancing back-test.
+   * @param datasets - `Dataset` of every symbol, with dated quotes.
+   * @param options - `RebalancerOptions`.
+   */
+  constructor(
+    datasets: Record<string, Dataset<T>>,
+    options: RebalancerOptions<T>
+  ) {
+    const { schedule } = options;
+
+    if (schedule?.type === 'drift' && !(schedule.threshold > 0)) {
+      throw new Error(`Invalid drift threshold: ${schedule.threshold}.`);
+    }
+
+    this._datasets = datasets;
+    this._options = options;
+  }
+
+  get datasets() {
+    return this._datasets;
+  }
+
+  get options() {
+    return this._options;
+  }
+
+  /**
+   * Checks whether a date starts a new period of the schedule.
+   * @param timestamp - Date to check.
+   * @param previous - Previous date, `undefined` for the first one.
+   * @returns whether the date is scheduled.
+   */
+  protected isScheduled(timestamp: number, previous?: number) {
+    const { schedule = { type: 'monthly' } } = this._options;
+    // 1970-01-01 was a Thursday, shift the days so that weeks start on Monday
+    const week = (t: number) => Math.floor((Math.floor(t / DAY) + 3) / 7);
+    const month = (t: number) =>
+      new Date(t).getUTCFullYear() * 12 + new Date(t).getUTCMonth();
+
+    if (previous === undefined || schedule.type === 'daily') {
+      return true;
+    }
+
+    if (schedule.type === 'weekly') {
+      return week(timestamp) !== week(previous);
+    }
+
+    return schedule.type === 'monthly' && month(timestamp) !== month(previous);
+  }
+
+  /**
+   * Checks the target weights of a rebalancing.
+   * @param weights - Target weight of every symbol.
+   * @returns weights.
+   */
+  protected validate(weights: Record<string, number>) {
+    let total = 0;
+
+    Object.entries(weights).forEach(([symbol, weight]) => {
+      if (!this._datasets[symbol]) {
+        throw new Error(`Unknown symbol: ${symbol}.`);
+      }
+
+      if (!(weight >= 0 && isFinite(weight))) {
+        throw new Error(`Invalid target weight of ${symbol}: ${weight}.`);
+      }
+
+      total += weight;
+    });
+
+    // Tolerate floating point error of weights that add up to 1
+    if (total > 1 + 1e-9) {
+      throw new Error(`Target weights add up to more than 1: ${total}.`);
+    }
+
+    return weights;
+  }
+
+  /**
+   * Calculates how far the weights of the portfolio drifted from their targets.
+   * @param weights - Current weight of every symbol.
+   * @param targets - Target weight of every symbol.
+   * @returns largest difference between a weight and its target.
+   */
+  protected getDrift(
+    weights: Record<string, number>,
+    targets: Record<string, number>
+  ) {
+    return Math.max(
+      ...Object.keys(weights).map((symbol) =>
+        Math.abs(weights[symbol] - (targets[symbol] ?? 0))
+      )
+    );
+  }
+
+  /**
+   * Sells shares of a symbol, paying slippage and commission.
+   * @param report - `BacktestReport` of the symbol.
+   * @param config - `RebalanceConfiguration`.
+   * @param quote - `Quote` of the fill.
+   * @param price - Price before slippage.
+   * @param shares - Number of shares to sell.
+   * @param reason - Reason of the sale, `rebalance` by default.
+   * @returns traded value.
+   */
+  protected sell(
+    report: BacktestReport<T>,
+    config: RebalanceConfiguration,
+    quote: Quote<T>,
+    price: number,
+    shares: number,
+    reason: ExitReason = 'rebalance'
+  ) {
+    const { costs, attributes } = config;
+    const slippage = getSlippage(
+      costs?.slippage,
+      shares,
+      price,
+      quote,
+      attributes
+    );
+    const fillPrice = price - slippage;
+
+    report.markExit(
+      fillPrice,
+      quote,
+      reason,
+      {
+        commission: getCommission(costs?.commission, shares, fillPrice),
+        slippage: slippage * shares,
+      },
+      shares
+    );
+
+    return shares * fillPrice;
+  }
+
+  /**
+   * Buys shares of a symbol, as many as the cash covers after slippage and commission.
+   * @param report - `BacktestReport` of the symbol.
+   * @param config - `RebalanceConfiguration`.
+   * @param quote - `Quote` of the fill.
+   * @param price - Price before slippage.
+   * @param shares - Number of shares to buy.
+   * @param cash - Cash available to the purchase.
+   * @returns traded value.
+   */
+  protected buy(
+    report: BacktestReport<T>,
+    config: RebalanceConfiguration,
+    quote: Quote<T>,
+    price: number,
+    shares: number,
+    cash: number
+  ) {
+    const { costs, attributes } = config;
+    const slippage = getSlippage(
+      costs?.slippage,
+      shares,
+      price,
+      quote,
+      attributes
+    );
+    const fillPrice = price + slippage;
+    const affordable = getAffordableShares(
+      shares,
+      fillPrice,
+      cash,
+      costs?.commission
+    );
+
+    if (affordable <= 0) {
+      return 0;
+    }
+
+    report.markEntry(fillPrice, quote, affordable, {
+      commission: getCommission(costs?.commission, affordable, fillPrice),
+      slippage: slippage * affordable,
+    });
+
+    return affordable * fillPrice;
+  }
+
+  /**
+   * Runs the rebalancing back-test over the aligned datasets.
+   * Sales of a rebalancing are filled before the purchases they pay for.
+   * Holdings are sold on the last date, so that every position is a closed trade of the report.
+   * With `benchmark` configured with a dataset, the report compares the equity curve with it.
+   * @param runner - `RebalanceRunner` with the configuration and prices of every symbol.
+   * @returns `RebalanceReport` with the `BacktestReport` of every symbol.
+   */
+  run(runner: RebalanceRunner<T>) {
+    const { config, onEntry, onExit, onMark = onExit } = runner;
+    const { capital, warmUp = 0 } = config;
+    const { schedule } = this._options;
+    const { timestamps, positions } = getTimeline(
+      this._datasets,
+      config.attributes?.date
+    );
+    const dates = timestamps.slice(warmUp);
+    const symbols = Object.keys(this._datasets);
+    const reports: Record<string, BacktestReport<T>> = Object.fromEntries(
+      symbols.map((symbol) => [
+        symbol,
+        new BacktestReport<T>(capital, config.metrics, config.lots),
+      ])
+    );
+    const report = new RebalanceReport<T>(capital, reports, config.metrics);
+    const quotes: Record<string, Quote<T>> = {};
+    const indices: Record<string, number> = {};
+    const prices: Record<string, number> = {};
+    let targets: Record<string, number> | undefined;
+
+    // Symbols trade from the shared cash, the cash flows of their reports add up to it
+    const getCash = () =>
+      symbols.reduce(
+        (cash, symbol) => cash + reports[symbol].finalCapital - capital,
+        capital
+      );
+    const getValue = (symbol: string) =>
+      reports[symbol].openShares
+        ? reports[symbol].openShares * prices[symbol]
+        : 0;
+
+    dates.forEach((timestamp, step) => {
+      const quoted = symbols.filter((symbol) =>
+        positions[symbol].has(timestamp)
+      );
+
+      quoted.forEach((symbol) => {
+        const index = positions[symbol].get(timestamp) as number;
+        const data = this._datasets[symbol].quotes;
+
+        quotes[symbol] = data[index];
+        indices[symbol] = index;
+        prices[symbol] = onExit(data[index], index, data);
+      });
+
+      const equity = symbols.reduce(
+        (total, symbol) => total + getValue(symbol),
+        getCash()
+      );
+      const weights = Object.fromEntries(
+        symbols.map((symbol) => [
+          symbol,
+          equity > 0 ? getValue(symbol) / equity : 0,
+        ])
+      );
+      const marked = [...quoted];
+
+      if (step === dates.length - 1) {
+        symbols
+          .filter((symbol) => reports[symbol].openShares > 0)
+          .forEach((symbol) => {
+            this.sell(
+              reports[symbol],
+              config,
+              quotes[symbol],
+              prices[symbol],
+              reports[symbol].openShares,
+              'end'
+            );
+
+            if (!marked.includes(symbol)) {
+              marked.push(symbol);
+            }
+          });
+      } else if (
+        this.isScheduled(timestamp, dates[step - 1]) ||
+        (schedule?.type === 'drift' &&
+          targets !== undefined &&
+          this.getDrift(weights, targets) > schedule.threshold)
+      ) {
+        const goals = this.validate(
+          this._options.weights({
+            timestamp,
+            index: step,
+            equity,
+            quotes: { ...quotes },
+            indices: { ...indices },
+            weights,
+          })
+        );
+        // Differences below rounding error are not worth a trade
+        const getOrder = (symbol: string) => {
+          const difference = (goals[symbol] ?? 0) * equity - getValue(symbol);
+
+          return Math.abs(difference) > equity * 1e-9 ? difference : 0;
+        };
+        let traded = 0;
+
+        quoted
+          .filter((symbol) => getOrder(symbol) < 0)
+          .forEach((symbol) => {
+            const { openShares } = reports[symbol];
+
+            traded += this.sell(
+              reports[symbol],
+              config,
+              quotes[symbol],
+              prices[symbol],
+              goals[symbol]
+                ? Math.min(-getOrder(symbol) / prices[symbol], openShares)
+                : openShares
+            );
+          });
+
+        quoted
+          .filter((symbol) => getOrder(symbol) > 0)
+          .forEach((symbol) => {
+            const data = this._datasets[symbol].quotes;
+            const price = onEntry(quotes[symbol], indices[symbol], data);
+
+            traded += this.buy(
+              reports[symbol],
+              config,
+              quotes[symbol],
+              price,
+              getOrder(symbol) / price,
+              getCash()
+            );
+          });
+
+        targets = goals;
+        report.markRebalance({
+          index: step,
+          timestamp,
+          weights: goals,
+          turnover: equity > 0 ? (traded * 100) / equity : 0,
+        });
+      }
+
+      marked.forEach((symbol) => {
+        const data = this._datasets[symbol].quotes;
+
+        reports[symbol].markToMarket(
+          quotes[symbol],
+          onMark(quotes[symbol], indices[symbol], data)
+        );
+      });
+
+      report.markPortfolio(quotes[marked[0]], step, marked);
+    });
+
+    if (config.benchmark?.dataset) {
+      report.markBenchmark(
+        getBenchmarkPrices(report.equityCurve, config.benchmark)
+      );
+    }
+
+    return report;
+  }
+}
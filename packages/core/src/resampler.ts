@@ -0,0 +1,226 @@
+import { Quote, QuoteAttributes } from './quote';
+import {
+  INTERVAL_UNITS,
+  TimeZone,
+  getTimeZone,
+  parseInterval,
+  parseSessionStart,
+  toDateLike,
+} from './time';
+
+/**
+ * Configures the bars of a coarser timeframe.
+ * - `interval` - length of the bars, a number of `s`, `m`, `h`, `d` or `w` units, e.g. `15m`, `1h` or `1d`.
+ * Weekly bars start on Monday.
+ * - `timezone` - time zone of the sessions, `UTC` by default.
+ * - `sessionStart` - wall-clock time the trading day starts at, `HH:mm`, `00:00` by default.
+ * Bars of every interval are aligned with the start of the session, e.g. hourly bars at 09:30, 10:30 and so on.
+ * - `closed` - edge of its interval a bar includes, `left` by default. `right` suits quotes dated when they close.
+ * - `label` - edge of its interval a bar is dated with, `start` by default.
+ * - `attributes` - `QuoteAttributes` of the prices, volume and date of the quotes.
+ */
+export type ResampleOptions = {
+  interval: string;
+  timezone?: string;
+  sessionStart?: string;
+  closed?: 'left' | 'right';
+  label?: 'start' | 'end';
+  attributes?: QuoteAttributes;
+};
+
+type OpenBar<T> = {
+  start: number;
+  value: T;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number;
+};
+
+/**
+ * Aggregates quotes into bars of a coarser timeframe, one quote at a time.
+ * Bars open at the first open, close at the last close, span the highest high and the lowest low and sum the volumes.
+ * Other attributes are taken from the last quote of a bar.
+ * Quotes without an open, high or low price use their close, intervals without quotes have no bar.
+ */
+export class Resampler<T> {
+  protected _options: ResampleOptions;
+  protected _interval: number;
+  protected _origin: number;
+  protected _zone: TimeZone;
+  protected _bar?: OpenBar<T>;
+  protected _last?: number;
+
+  /**
+   * Creates a resampler.
+   * @param options - `ResampleOptions`.
+   */
+  constructor(options: ResampleOptions) {
+    const { interval, sessionStart = '00:00' } = options;
+    const length = parseInterval(interval);
+    const start = parseSessionStart(sessionStart);
+
+    this._options = options;
+    this._interval = length;
+    // 1970-01-01 was a Thursday, weeks start 4 days later on Monday
+    this._origin = start + (interval.endsWith('w') ? 4 * INTERVAL_UNITS.d : 0);
+    this._zone = getTimeZone(options.timezone);
+  }
+
+  get options() {
+    return this._options;
+  }
+
+  /**
+   * Bar in progress, with the quotes pushed since the last completed bar.
+   */
+  get current() {
+    return this._bar && this.createQuote(this._bar);
+  }
+
+  /**
+   * Time the bar in progress ends at, `undefined` without one.
+   */
+  get end() {
+    return this._bar && this._zone.fromLocal(this._bar.start + this._interval);
+  }
+
+  /**
+   * Finds the interval of a timestamp.
+   * @param timestamp - Time of a quote.
+   * @returns start of the interval in wall-clock time.
+   */
+  protected getStart(timestamp: number) {
+    const { closed = 'left' } = this._options;
+    // Right-closed intervals include their end, but not their start
+    const local =
+      this._zone.toLocal(timestamp) -
+      this._origin -
+      (closed === 'right' ? 1 : 0);
+
+    return Math.floor(local / this._interval) * this._interval + this._origin;
+  }
+
+  /**
+   * Creates the quote of a bar.
+   * @param bar - Aggregated bar.
+   * @returns `Quote` dated with the label of the bar.
+   */
+  protected createQuote(bar: OpenBar<T>) {
+    const { label = 'start', attributes = {} } = this._options;
+    const { date = 'date' } = attributes;
+    const timestamp = this._zone.fromLocal(
+      label === 'end' ? bar.start + this._interval : bar.start
+    );
+    const value: Record<string, unknown> = {
+      ...bar.value,
+      [attributes.open ?? 'open']: bar.open,
+      [attributes.high ?? 'high']: bar.high,
+      [attributes.low ?? 'low']: bar.low,
+      [attributes.close ?? 'close']: bar.close,
+    };
+    // Dates keep the type of the quotes
+    const dated = toDateLike(value[date], timestamp);
+
+    if (bar.volume !== undefined) {
+      value[attributes.volume ?? 'volume'] = bar.volume;
+    }
+
+    if (dated !== undefined) {
+      value[date] = dated;
+    }
+
+    return new Quote(value as T, timestamp);
+  }
+
+  /**
+   * Adds a quote to the bar of its interval.
+   * @param quote - `Quote` with an object value, not earlier than the previous one.
+   * @returns bars completed by the quote, the previous bar if the quote starts a new interval.
+   */
+  push(quote: Quote<T>) {
+    const { attributes = {} } = this._options;
+    const timestamp = quote.getTimestamp(attributes.date);
+
+    if (timestamp === undefined) {
+      throw new Error('Quote without a timestamp.');
+    }
+
+    if (!quote.value || typeof quote.value !== 'object') {
+      throw new Error(`Invalid quote value to resample: ${quote.value}.`);
+    }
+
+    if (this._last !== undefined && timestamp < this._last) {
+      const date = new Date(timestamp).toISOString();
+
+      throw new Error(`Out-of-order quote timestamp: ${date}.`);
+    }
+
+    const start = this.getStart(timestamp);
+    const bars = this._bar && this._bar.start !== start ? this.flush() : [];
+    const close = quote.getValue(attributes.close ?? 'close');
+    const read = (attribute: string) => {
+      const value = quote.getValue(attribute);
+
+      return isFinite(value) ? value : close;
+    };
+    const volume = quote.getValue(attributes.volume ?? 'volume');
+
+    this._last = timestamp;
+
+    if (this._bar) {
+      this._bar.value = quote.value;
+      this._bar.high = Math.max(
+        this._bar.high,
+        read(attributes.high ?? 'high')
+      );
+      this._bar.low = Math.min(this._bar.low, read(attributes.low ?? 'low'));
+      this._bar.close = close;
+
+      if (isFinite(volume)) {
+        this._bar.volume = (this._bar.volume ?? 0) + volume;
+      }
+    } else {
+      this._bar = {
+        start,
+        value: quote.value,
+        open: read(attributes.open ?? 'open'),
+        high: read(attributes.high ?? 'high'),
+        low: read(attributes.low ?? 'low'),
+        close,
+        volume: isFinite(volume) ? volume : undefined,
+      };
+    }
+
+    return bars;
+  }
+
+  /**
+   * Completes the bar in progress, e.g. at the end of the data or of a session.
+   * @returns completed bar, if any.
+   */
+  flush() {
+    const bar = this._bar;
+
+    this._bar = undefined;
+
+    return bar ? [this.createQuote(bar)] : [];
+  }
+}
+
+/**
+ * Aggregates quotes into bars of a coarser timeframe.
+ * The last bar is included even if its interval is not over.
+ * @param quotes - Quotes with object values, in chronological order.
+ * @param options - `ResampleOptions`.
+ * @returns quotes of the bars.
+ */
+export function resample<T>(quotes: Quote<T>[], options: ResampleOptions) {
+  const resampler = new Resampler<T>(options);
+
+  return [
+    ...quotes.flatMap((quote) => resampler.push(quote)),
+    ...resampler.flush(),
+  ];
+}
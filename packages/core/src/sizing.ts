@@ -0,0 +1,111 @@
+/**
+ * Defines how many shares are bought on entry.
+ * - `shares` - a fixed number of shares.
+ * - `cash` - a fixed cash amount.
+ * - `fraction` - a fraction of the current equity, e.g. 0.25 for 25%.
+ * - `risk` - a fraction of the current equity lost if the stop-loss is hit, no shares while the stop-loss is not known.
+ * - `volatility` - a fraction of the current equity lost on a move of one `indicator` (ATR) value.
+ * - `kelly` - a `fraction` of the Kelly criterion from the running win rate, e.g. 0.5 for half Kelly.
+ * Uses `fallback` fraction of the equity until there is at least one winning and one losing trade.
+ */
+export type PositionSizing =
+  | { type: 'shares'; value: number }
+  | { type: 'cash'; value: number }
+  | { type: 'fraction'; value: number }
+  | { type: 'risk'; value: number }
+  | { type: 'volatility'; value: number; indicator: string }
+  | { type: 'kelly'; fraction?: number; fallback?: number };
+
+export type PositionSizingContext = {
+  price: number;
+  cash: number;
+  equity: number;
+  indicators: { [key: string | number]: number };
+  stopLoss?: number;
+  winningRate: number;
+  averageWin: number;
+  averageLoss: number;
+  numberOfWinningTrades: number;
+  numberOfLosingTrades: number;
+};
+
+/**
+ * Calculates the Kelly fraction of equity to trade.
+ * @param winningRate - Ratio of winning trades.
+ * @param averageWin - Average profit of winning trades.
+ * @param averageLoss - Average loss of losing trades.
+ * @returns fraction between 0 and 1.
+ */
+export function getKellyFraction(
+  winningRate: number,
+  averageWin: number,
+  averageLoss: number
+) {
+  if (averageLoss <= 0) {
+    return 1;
+  }
+
+  const payoff = averageWin / averageLoss;
+  const kelly = winningRate - (1 - winningRate) / payoff;
+
+  return Math.min(Math.max(kelly, 0), 1);
+}
+
+/**
+ * Calculates the number of shares to buy for a given sizing policy.
+ * The size is capped by the available cash.
+ * @param sizing - `PositionSizing` policy, all available cash if not given.
+ * @param context - `PositionSizingContext` at the time of entry.
+ * @returns number of shares.
+ */
+export function getPositionSize(
+  sizing: PositionSizing | undefined,
+  context: PositionSizingContext
+) {
+  const { price, cash, equity } = context;
+  let shares: number;
+
+  switch (sizing?.type) {
+    case undefined:
+      shares = cash / price;
+      break;
+    case 'shares':
+      shares = sizing.value;
+      break;
+    case 'cash':
+      shares = sizing.value / price;
+      break;
+    case 'fraction':
+      shares = (equity * sizing.value) / price;
+      break;
+    case 'risk':
+      // A stop-loss that is not known yet, e.g. during the warm-up of its ATR, sizes to no shares
+      shares =
+        (equity * sizing.value) / Math.abs(price - (context.stopLoss ?? NaN));
+      break;
+    case 'volatility':
+      shares =
+        (equity * sizing.value) / (context.indicators[sizing.indicator] ?? NaN);
+      break;
+    case 'kelly': {
+      const hasHistory =
+        context.numberOfWinningTrades > 0 && context.numberOfLosingTrades > 0;
+      const fraction = hasHistory
+        ? getKellyFraction(
+            context.winningRate,
+            context.averageWin,
+            context.averageLoss
+          ) * (sizing.fraction ?? 1)
+        : sizing.fallback ?? 1;
+
+      shares = (equity * fraction) / price;
+      break;
+    }
+  }
+
+  if (!isFinite(shares) || shares < 0) {
+    return 0;
+  }
+
+  return Math.min(shares, cash / price);
+}
@@ -1,7 +1,16 @@
 import { Dataset, Indicator, Backtest, BacktestReport } from './';
 import { BacktestRunner } from './backtest';
-import { TradePosition, TradePositionType } from './position';
-import { Quote } from './quote';
+import {
+  RiskManagementOptions,
+  TradePosition,
+  TradePositionOptions,
+  TradePositionSide,
+  TradePositionType,
+  getExitDistance,
+  getTrailingStop,
+} from './position';
+import { OrderRequest } from './order';
+import { Quote, QuoteAttributes } from './quote';
 
 export class StrategyValue<O = unknown> {
   position: TradePosition<O>;
@@ -13,10 +22,19 @@ export class StrategyValue<O = unknown> {
 
 type positionFn = <T>(quote: Quote<T>) => boolean;
 
+type scaleFn = <T, O>(quote: Quote<T>, position: TradePosition<O>) => boolean;
+
 type StrategyCommonOptions<P, T> = {
   indicators?: Indicator<P, T>[];
   onTrigger?: (positionType: TradePositionType, quote: Quote<T>) => void;
-};
+  attributes?: QuoteAttributes;
+  entryOrder?: (quote: Quote<T>) => OrderRequest;
+  exitOrder?: (quote: Quote<T>) => OrderRequest;
+  scaleInWhen?: scaleFn;
+  scaleOutWhen?: scaleFn;
+  scaleOutFraction?: number;
+  maxTranches?: number;
+} & RiskManagementOptions;
 
 type LongPositionOptions<P, T> = {
   entryWhen: positionFn;
@@ -28,19 +46,32 @@ type ShortPositionOptions<P, T> = {
   exitShortWhen: positionFn;
 } & StrategyCommonOptions<P, T>;
 
+type LongShortPositionOptions<P, T> = LongPositionOptions<P, T> &
+  ShortPositionOptions<P, T>;
+
 export type StrategyOptions<P, T> =
   | LongPositionOptions<P, T>
-  | ShortPositionOptions<P, T>;
+  | ShortPositionOptions<P, T>
+  | LongShortPositionOptions<P, T>;
 
 function isShortPosition<P, T>(
   position: TradePosition,
   options: StrategyOptions<P, T>
 ): options is ShortPositionOptions<P, T> {
-  return !!position.options?.short;
+  // Strategies without long rules trade short from the first entry
+  return !!position.options?.short || !('entryWhen' in options);
+}
+
+function isLongShortStrategy<P, T>(
+  options: StrategyOptions<P, T>
+): options is LongShortPositionOptions<P, T> {
+  return 'entryWhen' in options && 'entryShortWhen' in options;
 }
 
 /**
  * Defines a strategy that can be back-tested.
+ * Open positions can be scaled in with `scaleInWhen`, up to `maxTranches` entries,
+ * and scaled out with `scaleOutWhen`, exiting `scaleOutFraction` (0.5 by default) of the open shares.
  */
 export class Strategy<P = unknown, T = number, O = unknown> {
   protected _name: string;
@@ -52,6 +83,16 @@ export class Strategy<P = unknown, T = number, O = unknown> {
    * @param options - StrategyOptions.
    */
   constructor(name: string, options: StrategyOptions<P, T>) {
+    const { scaleOutFraction } = options;
+
+    // Closing the whole position is an exit, not a scale-out
+    if (
+      scaleOutFraction !== undefined &&
+      !(scaleOutFraction > 0 && scaleOutFraction < 1)
+    ) {
+      throw new Error(`Invalid scale-out fraction: ${scaleOutFraction}.`);
+    }
+
     this._name = name;
     this._options = options;
   }
@@ -64,8 +105,233 @@ export class Strategy<P = unknown, T = number, O = unknown> {
     return this._options;
   }
 
+  /**
+   * Reads the opening, closing, most favourable and least favourable prices of a quote.
+   * @param quote - `Quote` to read.
+   * @param short - Whether the position is short.
+   * @returns prices of the quote.
+   */
+  protected getPrices(quote: Quote<T>, short: boolean) {
+    const { attributes } = this._options;
+    const price = quote.getValue(attributes?.close ?? 'close');
+    // Quotes without open, high and low values fall back to the closing price
+    const open = (attributes?.open && quote.getValue(attributes.open)) || price;
+    const high = (attributes?.high && quote.getValue(attributes.high)) || price;
+    const low = (attributes?.low && quote.getValue(attributes.low)) || price;
+
+    return {
+      price,
+      open,
+      best: short ? low : high,
+      worst: short ? high : low,
+    };
+  }
+
+  /**
+   * Calculates entry price, stop-loss, take-profit and trailing stop levels for a new position.
+   * @param quote - `Quote` on which the position is entered.
+   * @param short - Whether the position is short.
+   * @param entryPrice - Price the position is entered at, the closing price of the quote by default.
+   * @returns position options with the calculated levels.
+   */
+  protected getEntryLevels(
+    quote: Quote<T>,
+    short: boolean,
+    entryPrice = this.getPrices(quote, short).price
+  ) {
+    const { stopLoss, takeProfit, trailingStop } = this._options;
+    const adverse = short ? Math.max : Math.min;
+    // A parabolic stop never starts on the wrong side of the entry price
+    const worst = adverse(this.getPrices(quote, short).worst, entryPrice);
+    const direction = short ? -1 : 1;
+
+    return {
+      entryPrice,
+      stopLoss: stopLoss
+        ? entryPrice -
+          direction * getExitDistance(stopLoss, entryPrice, quote.indicators)
+        : undefined,
+      takeProfit: takeProfit
+        ? entryPrice +
+          direction * getExitDistance(takeProfit, entryPrice, quote.indicators)
+        : undefined,
+      highWaterMark: undefined,
+      trailingStop: undefined,
+      accelerationFactor: undefined,
+      exitPrice: undefined,
+      exitReason: undefined,
+      tranches: 1,
+      scaleOuts: 0,
+      exitFraction: undefined,
+      // The high-water mark starts at the entry price, not the high of the entry quote
+      ...(trailingStop &&
+        getTrailingStop(
+          trailingStop,
+          undefined,
+          entryPrice,
+          worst,
+          quote.indicators,
+          short
+        )),
+    };
+  }
+
+  /**
+   * Moves an open position to another entry price, placing its stop-loss, take-profit and trailing stop
+   * from that price, e.g. the price an entry order filled at.
+   * @param position - Open `TradePosition`.
+   * @param entryPrice - New entry price.
+   * @param quote - `Quote` the position was entered on, whose indicators place the levels.
+   * @returns `TradePosition` with the new levels.
+   */
+  anchor(position: TradePosition<O>, entryPrice: number, quote: Quote<T>) {
+    const short = !!position.options?.short;
+
+    return new TradePosition<O>(
+      position.value,
+      Object.assign(
+        {},
+        position.options,
+        this.getEntryLevels(quote, short, entryPrice)
+      ) as TradePositionOptions<O>
+    );
+  }
+
+  /**
+   * Checks stop-loss, trailing stop and take-profit levels of an open position against a given quote.
+   * @param quote - `Quote` to check.
+   * @param position - Open `TradePosition`.
+   * @returns position options with the exit price and reason if an exit is hit, `undefined` otherwise.
+   */
+  protected getRiskExit(quote: Quote<T>, position: TradePosition<O>) {
+    const short = !!position.options?.short;
+    const { open, best, worst } = this.getPrices(quote, short);
+    // Levels fill at their price, or at the open of a quote gapping through them
+    const adverse = short ? Math.max : Math.min;
+    const favourable = short ? Math.min : Math.max;
+
+    if (position.shouldStopOut(worst)) {
+      return {
+        exitPrice: adverse(position.options?.stopLoss as number, open),
+        exitReason: 'stopLoss' as const,
+      };
+    }
+
+    if (position.shouldTrailOut(worst)) {
+      return {
+        exitPrice: adverse(position.options?.trailingStop as number, open),
+        exitReason: 'trailingStop' as const,
+      };
+    }
+
+    if (position.shouldTakeProfit(best)) {
+      return {
+        exitPrice: favourable(position.options?.takeProfit as number, open),
+        exitReason: 'takeProfit' as const,
+      };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Moves the trailing stop of an open position after a quote that did not close it.
+   * @param quote - `Quote` to trail.
+   * @param position - Open `TradePosition`.
+   * @returns position options with the new trailing stop state.
+   */
+  protected trail(quote: Quote<T>, position: TradePosition<O>) {
+    const { trailingStop } = this._options;
+
+    if (!trailingStop) {
+      return position.options;
+    }
+
+    const short = !!position.options?.short;
+    const { best, worst } = this.getPrices(quote, short);
+
+    return Object.assign(
+      {},
+      position.options,
+      getTrailingStop(
+        trailingStop,
+        position.options,
+        best,
+        worst,
+        quote.indicators,
+        short
+      )
+    );
+  }
+
+  /**
+   * Checks the scaling rules of an open position on a given quote, scaling out first.
+   * @param quote - `Quote` to check.
+   * @param position - Open `TradePosition`.
+   * @returns position options of the scaled position, `undefined` if it is not scaled.
+   */
+  protected getScale(quote: Quote<T>, position: TradePosition<O>) {
+    const {
+      scaleInWhen,
+      scaleOutWhen,
+      scaleOutFraction = 0.5,
+      maxTranches = Infinity,
+    } = this._options;
+    const tranches = position.options?.tranches ?? 1;
+
+    if (scaleOutWhen?.(quote, position)) {
+      return {
+        value: 'scale-out' as const,
+        options: {
+          scaleOuts: (position.options?.scaleOuts ?? 0) + 1,
+          exitFraction: scaleOutFraction,
+        },
+      };
+    }
+
+    if (tranches < maxTranches && scaleInWhen?.(quote, position)) {
+      return {
+        value: 'scale-in' as const,
+        options: { tranches: tranches + 1 },
+      };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Finds the side a flat position enters on a given quote.
+   * Long and short strategies check the long rule first.
+   * @param quote - `Quote` to check.
+   * @param position - Flat `TradePosition`.
+   * @returns `long` or `short`, `flat` if no entry rule is met.
+   */
+  protected getEntrySide(
+    quote: Quote<T>,
+    position: TradePosition<O>
+  ): TradePositionSide {
+    const options = this._options;
+
+    if (isLongShortStrategy(options)) {
+      if (options.entryWhen(quote)) {
+        return 'long';
+      }
+
+      return options.entryShortWhen(quote) ? 'short' : 'flat';
+    }
+
+    if (isShortPosition(position, options)) {
+      return options.entryShortWhen(quote) ? 'short' : 'flat';
+    }
+
+    return options.entryWhen(quote) ? 'long' : 'flat';
+  }
+
   /**
    * Applies the strategy over a given quote and returns the strategy values.
+   * Stop-loss, trailing stop and take-profit levels of an open position are checked before `exitWhen`.
+   * Long and short strategies reverse an open position when the entry rule of the other side is met.
+   * Stops and targets of a scaled position stay at the levels of its first entry.
    * @param quote - `Quote` on which strategy should be applied.
    * @param position - TradePositionType of the quote.
    * @returns `StrategyValue`.
@@ -75,9 +341,13 @@ export class Strategy<P = unknown, T = number, O = unknown> {
     position: TradePosition<O> = new TradePosition<O>('idle')
   ) {
     let newPositionValue: TradePositionType = 'idle';
+    let newPositionOptions = position.options;
 
     let entryFn: positionFn, exitFn: positionFn;
+    let reverseFn: positionFn | undefined;
+    let short = false;
     if (isShortPosition(position, this._options)) {
+      short = true;
       entryFn = this._options.entryShortWhen;
       exitFn = this._options.exitShortWhen;
     } else {
@@ -85,18 +355,65 @@ export class Strategy<P = unknown, T = number, O = unknown> {
       exitFn = this._options.exitWhen;
     }
 
-    if (
-      (position.value === 'hold' || position.value === 'entry') &&
-      exitFn(quote)
-    ) {
+    if (isLongShortStrategy(this._options)) {
+      reverseFn = short
+        ? this._options.entryWhen
+        : this._options.entryShortWhen;
+    }
+
+    const { isOpen } = position;
+    const riskExit = isOpen ? this.getRiskExit(quote, position) : undefined;
+
+    if (riskExit) {
       newPositionValue = 'exit';
-    } else if (entryFn(quote)) {
-      newPositionValue = 'entry';
+      newPositionOptions = Object.assign({}, position.options, riskExit);
+    } else if (isOpen && reverseFn?.(quote)) {
+      newPositionValue = 'reverse';
+      newPositionOptions = Object.assign(
+        {},
+        position.options,
+        { short: !short },
+        this.getEntryLevels(quote, !short)
+      );
+    } else if (isOpen && exitFn(quote)) {
+      newPositionValue = 'exit';
+      newPositionOptions = Object.assign({}, position.options, {
+        exitPrice: undefined,
+        exitReason: 'signal' as const,
+      });
+    } else if (isOpen) {
+      const scale = this.getScale(quote, position);
+      newPositionOptions = Object.assign(
+        {},
+        this.trail(quote, position),
+        scale?.options
+      );
+
+      if (scale) {
+        newPositionValue = scale.value;
+      } else if (entryFn(quote)) {
+        newPositionValue = 'entry';
+      }
+    } else {
+      const side = this.getEntrySide(quote, position);
+
+      if (side !== 'flat') {
+        newPositionValue = 'entry';
+        newPositionOptions = Object.assign(
+          {},
+          position.options,
+          { short: side === 'short' },
+          this.getEntryLevels(quote, side === 'short')
+        );
+      }
     }
 
     const updatedPosition = TradePosition.update(
       position,
-      new TradePosition(newPositionValue, position.options)
+      new TradePosition(
+        newPositionValue,
+        newPositionOptions as TradePositionOptions<O>
+      )
     );
     this._options.onTrigger?.(updatedPosition.value, quote);
 
@@ -0,0 +1,140 @@
+/**
+ * Length of the units of intervals, in milliseconds.
+ */
+export const INTERVAL_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Converts timestamps between UTC and the wall-clock time of a time zone.
+ * Wall-clock times are written as UTC timestamps, e.g. 09:30 in New York as 09:30 UTC.
+ * - `toLocal` - wall-clock time of a timestamp.
+ * - `fromLocal` - timestamp of a wall-clock time.
+ */
+export type TimeZone = {
+  toLocal: (timestamp: number) => number;
+  fromLocal: (wall: number) => number;
+};
+
+/**
+ * Reads an offset such as `Z`, `+05:30` or `-0400`.
+ * @param offset - Offset text.
+ * @returns offset in milliseconds.
+ */
+export function parseOffset(offset: string) {
+  if (offset === 'Z') {
+    return 0;
+  }
+
+  const digits = offset.replace(':', '');
+  const minutes = Number(digits.slice(1, 3)) * 60 + Number(digits.slice(3, 5));
+
+  return (offset[0] === '-' ? -minutes : minutes) * 60000;
+}
+
+/**
+ * Creates the conversions of a time zone.
+ * @param timezone - `UTC`, an offset such as `+05:30` or an IANA time zone such as `America/New_York`.
+ * @returns `TimeZone`.
+ */
+export function getTimeZone(timezone = 'UTC'): TimeZone {
+  if (timezone === 'UTC' || /^(Z|[+-]\d{2}:?\d{2})$/.test(timezone)) {
+    const offset = timezone === 'UTC' ? 0 : parseOffset(timezone);
+
+    return {
+      toLocal: (timestamp) => timestamp + offset,
+      fromLocal: (wall) => wall - offset,
+    };
+  }
+
+  let format: Intl.DateTimeFormat;
+
+  try {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+  } catch {
+    throw new Error(`Invalid time zone: ${timezone}.`);
+  }
+
+  const getOffset = (timestamp: number) => {
+    const parts = format.formatToParts(new Date(timestamp));
+    const part = (type: string) =>
+      Number(parts.find((p) => p.type === type)?.value);
+    const wall = Date.UTC(
+      part('year'),
+      part('month') - 1,
+      part('day'),
+      part('hour'),
+      part('minute'),
+      part('second')
+    );
+
+    return wall - Math.floor(timestamp / 1000) * 1000;
+  };
+
+  return {
+    toLocal: (timestamp) => timestamp + getOffset(timestamp),
+    // The offset at the first guess may differ around daylight saving time changes
+    fromLocal: (wall) => wall - getOffset(wall - getOffset(wall)),
+  };
+}
+
+/**
+ * Reads an interval such as `15m`, `1h` or `1d`.
+ * @param interval - A number of `s`, `m`, `h`, `d` or `w` units.
+ * @returns length of the interval in milliseconds.
+ */
+export function parseInterval(interval: string) {
+  const match = /^(\d+)(s|m|h|d|w)$/.exec(interval);
+
+  if (!match || !(Number(match[1]) > 0)) {
+    throw new Error(`Invalid interval: ${interval}.`);
+  }
+
+  return Number(match[1]) * INTERVAL_UNITS[match[2]];
+}
+
+/**
+ * Reads the wall-clock time a trading session starts at.
+ * @param sessionStart - Time of the day, `HH:mm`.
+ * @returns time since midnight in milliseconds.
+ */
+export function parseSessionStart(sessionStart: string) {
+  const session = /^(\d{2}):(\d{2})$/.exec(sessionStart);
+
+  if (!session || Number(session[1]) > 23 || Number(session[2]) > 59) {
+    throw new Error(`Invalid session start: ${sessionStart}.`);
+  }
+
+  return (Number(session[1]) * 60 + Number(session[2])) * INTERVAL_UNITS.m;
+}
+
+/**
+ * Writes a timestamp as a date of the same type as another.
+ * @param source - `Date`, date string or timestamp to take the type of.
+ * @param timestamp - Time to write.
+ * @returns date of the type of `source`, `undefined` if `source` is not a date.
+ */
+export function toDateLike(source: unknown, timestamp: number) {
+  if (typeof source === 'number') {
+    return timestamp;
+  }
+
+  if (typeof source === 'string') {
+    return new Date(timestamp).toISOString();
+  }
+
+  return source instanceof Date ? new Date(timestamp) : undefined;
+}
@@ -0,0 +1,131 @@
+import { Dataset, Indicator } from './';
+import { Quote } from './quote';
+import { ResampleOptions, Resampler } from './resampler';
+
+type TimeframeState<T> = {
+  dataset: Dataset<T>;
+  length: number;
+  resampler: Resampler<T>;
+  bars: Dataset<T>;
+};
+
+/**
+ * Indicator of a higher timeframe, e.g. a daily SMA 200 on hourly quotes.
+ * Quotes are aggregated into bars of the timeframe, and every quote gets the value of the indicator
+ * on the last bar completed by then, so that no quote sees the bar it belongs to.
+ * Quotes before the first completed bar get `NaN`.
+ */
+export class TimeframeIndicator<T = number> extends Indicator<
+  ResampleOptions,
+  T
+> {
+  protected _indicator: Indicator<unknown, T>;
+  protected _state?: TimeframeState<T>;
+
+  /**
+   * Creates an indicator of a higher timeframe.
+   * @param name - Name of the indicator.
+   * @param indicator - `Indicator` calculated over the bars of the timeframe.
+   * @param options - `ResampleOptions` of the timeframe, with the attributes of the dataset by default.
+   */
+  constructor(
+    name: string,
+    indicator: Indicator<unknown, T>,
+    options: ResampleOptions
+  ) {
+    // Calculations go through the bars of the timeframe instead
+    super(name, () => NaN, { params: options });
+
+    this._indicator = indicator;
+  }
+
+  get indicator() {
+    return this._indicator;
+  }
+
+  /**
+   * Starts aggregating the quotes of a dataset.
+   * @param dataset - `Dataset` of the lower timeframe.
+   * @returns `TimeframeState`.
+   */
+  protected start(dataset: Dataset<T>): TimeframeState<T> {
+    const options = this.params as ResampleOptions;
+    const attributes = options.attributes ?? dataset.attributes;
+    const bars = new Dataset<T>([], attributes);
+
+    bars.setIndicator({
+      name: this._indicator.name,
+      indicator: this._indicator,
+    });
+
+    return {
+      dataset,
+      length: 0,
+      resampler: new Resampler<T>({ ...options, attributes }),
+      bars,
+    };
+  }
+
+  /**
+   * Adds the next quote of the dataset to the bars.
+   * @param state - `TimeframeState`.
+   * @param quote - Next `Quote` of the dataset.
+   * @returns value of the indicator on the last completed bar.
+   */
+  protected next(state: TimeframeState<T>, quote: Quote<T>) {
+    const { resampler, bars } = state;
+    const completed = resampler.push(quote);
+    const timestamp = quote.getTimestamp(resampler.options.attributes?.date);
+
+    // A quote at the end of a right-closed interval completes its bar
+    if (resampler.end !== undefined && (timestamp ?? 0) >= resampler.end) {
+      completed.push(...resampler.flush());
+    }
+
+    completed.forEach((bar) => bars.add(bar));
+    state.length += 1;
+
+    return bars.at(-1)?.getIndicator(this._indicator.name) ?? NaN;
+  }
+
+  /**
+   * Calculates the indicator for the last quote of a dataset.
+   * Quotes added since the previous calculation over the same dataset are aggregated incrementally.
+   * @param dataset - `Dataset` of the lower timeframe.
+   * @returns value of the indicator on the last completed bar.
+   */
+  calculate(dataset: Dataset<T>) {
+    if (
+      this._state?.dataset !== dataset ||
+      this._state.length !== dataset.length - 1
+    ) {
+      this._state = this.start(dataset);
+      dataset.quotes
+        .slice(0, -1)
+        .forEach((quote) => this.next(this._state as TimeframeState<T>, quote));
+    }
+
+    const quote = dataset.at(-1);
+
+    return quote ? this.next(this._state, quote) : NaN;
+  }
+
+  /**
+   * Mutates each quote of the given dataset with the value of the indicator.
+   * @param dataset - `Dataset`.
+   * @returns `Dataset`.
+   */
+  spread(dataset: Dataset<T>) {
+    const state = this.start(dataset);
+
+    dataset.quotes.forEach((quote, index) => {
+      dataset.mutateAt(
+        index,
+        quote.setIndicator(this.name, this.next(state, quote))
+      );
+    });
+    this._state = state;
+
+    return dataset;
+  }
+}
@@ -1,22 +1,49 @@
 import { Dataset, Strategy } from './';
 import { Quote } from './quote';
+import { ResampleOptions, Resampler } from './resampler';
 import { StrategyValue } from './strategy';
 
+/**
+ * Configures a trader.
+ * - `resample` - `ResampleOptions` to aggregate the ticks given to `push` into bars, the strategy then only sees completed bars.
+ * The initial dataset should hold bars of the same timeframe.
+ * - `onBar` - called with every completed bar and its strategy value.
+ */
+export type TraderOptions<T> = {
+  resample?: ResampleOptions;
+  onBar?: (bar: Quote<T>, strategyValue?: StrategyValue) => void;
+};
+
 /**
  * Outputs trading signals based on a strategy over a live feed
  */
 export class Trader<P = unknown, T = number> {
   protected _dataset: Dataset<T>;
   protected _strategy: Strategy<P, T>;
+  protected _options: TraderOptions<T>;
+  protected _resampler?: Resampler<T>;
 
   /**
    * Applies a given strategy over an initial dataset.
    * @param initialDataset - Initial `Dataset` over which the given strategy should be applied.
    * @param strategy - `Strategy` that should be applied.
+   * @param options - `TraderOptions` (Optional).
    */
-  constructor(initialDataset: Dataset<T>, strategy: Strategy<P, T>) {
+  constructor(
+    initialDataset: Dataset<T>,
+    strategy: Strategy<P, T>,
+    options: TraderOptions<T> = {}
+  ) {
     this._strategy = strategy;
     this._dataset = initialDataset;
+    this._options = options;
+
+    if (options.resample) {
+      this._resampler = new Resampler<T>({
+        ...options.resample,
+        attributes: options.resample.attributes ?? initialDataset.attributes,
+      });
+    }
 
     this._dataset.prepare(strategy);
   }
@@ -29,16 +56,74 @@ export class Trader<P = unknown, T = number> {
     return this._dataset;
   }
 
+  get options() {
+    return this._options;
+  }
+
+  /**
+   * Adds completed bars to the dataset and applies the strategy to them.
+   * @param bars - Completed bars.
+   * @returns strategy value of the last bar, `undefined` without bars.
+   */
+  protected addBars(bars: Quote<T>[]) {
+    let strategyValue: StrategyValue | undefined;
+
+    bars.forEach((bar) => {
+      this._dataset.add(bar);
+      strategyValue = bar.getStrategy(this._strategy.name);
+      this._options.onBar?.(bar, strategyValue);
+    });
+
+    return strategyValue;
+  }
+
   /**
    * Adds a new quote to the dataset, applies a given strategy, and returns a new trade position.
+   * Traders resampling their ticks take them with `push` instead.
    * @param quote new `Quote`.
    * @returns a promise that resolves with StrategyValue.
    */
   tick(quote: T) {
     return new Promise<StrategyValue>((resolve, reject) => {
       try {
-        this._dataset.add(new Quote(quote));
-        resolve(this.dataset.at(-1)?.getStrategy(this._strategy.name));
+        if (this._resampler) {
+          throw new Error('Resampled ticks should be pushed.');
+        }
+
+        resolve(this.addBars([new Quote(quote)]) as StrategyValue);
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Adds a new quote to the bar in progress, only completed bars reach the dataset and the strategy.
+   * @param quote new `Quote`.
+   * @returns a promise that resolves with the StrategyValue of the bar, `undefined` if the quote completed no bar.
+   */
+  push(quote: T) {
+    return new Promise<StrategyValue | undefined>((resolve, reject) => {
+      try {
+        if (!this._resampler) {
+          throw new Error('Ticks are only pushed with resampling.');
+        }
+
+        resolve(this.addBars(this._resampler.push(new Quote(quote))));
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Completes the bar in progress, e.g. at the end of a session.
+   * @returns a promise that resolves with the StrategyValue of the bar, `undefined` without one.
+   */
+  flush() {
+    return new Promise<StrategyValue | undefined>((resolve, reject) => {
+      try {
+        resolve(this.addBars(this._resampler?.flush() ?? []));
       } catch (error) {
         reject(error);
       }
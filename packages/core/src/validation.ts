@@ -0,0 +1,708 @@
+import { Quote, QuoteAttributes } from './quote';
+import {
+  INTERVAL_UNITS,
+  TimeZone,
+  getTimeZone,
+  parseInterval,
+  parseSessionStart,
+  toDateLike,
+} from './time';
+
+/**
+ * Price or volume field of a quote, read from the attribute `QuoteAttributes` maps it to.
+ */
+export type DataField = 'open' | 'high' | 'low' | 'close' | 'volume';
+
+/**
+ * Kind of data quality issue.
+ * - `missing` - field or date without a value.
+ * - `non-finite` - field that is not a finite number, e.g. `NaN`, `Infinity` or text.
+ * - `negative` - price or volume below zero.
+ * - `zero-volume` - bar without volume, e.g. on a day without trading. Bars filling gaps are not reported once repaired.
+ * - `ohlc` - open or close outside the range of the low and the high, or a high below the low.
+ * - `duplicate` - quote with the timestamp of the previous one.
+ * - `out-of-order` - quote earlier than a previous one.
+ * - `gap` - bars missing before a quote, given the expected bar interval.
+ * - `outlier` - close spiking away from the closes around it and back.
+ */
+export type DataIssueType =
+  | 'missing'
+  | 'non-finite'
+  | 'negative'
+  | 'zero-volume'
+  | 'ohlc'
+  | 'duplicate'
+  | 'out-of-order'
+  | 'gap'
+  | 'outlier';
+
+/**
+ * Data quality issue of a quote.
+ * - `type` - `DataIssueType`.
+ * - `index` - position of the quote, the quote after the missing bars for gaps.
+ * - `timestamp` - time of the quote, `undefined` without a date.
+ * - `field` - field of field issues and outliers, `date` for quotes missing their date.
+ * - `missing` - number of missing bars of gaps.
+ * - `message` - description of the issue.
+ */
+export type DataIssue = {
+  type: DataIssueType;
+  index: number;
+  timestamp?: number;
+  field?: DataField | 'date';
+  missing?: number;
+  message: string;
+};
+
+/**
+ * Options to validate quotes.
+ * - `attributes` - `QuoteAttributes` of the prices, volume and date of object quotes.
+ * - `fields` - fields to check, the fields found in any of the quotes by default. Numeric quotes are read as a close.
+ * - `interval` - expected length of the bars, e.g. `1m`, `1h` or `1d`, to find gaps. Gaps are not checked without it.
+ * - `weekends` - whether bars are expected on Saturdays and Sundays, in the time zone of the sessions, `true` by default.
+ * - `timezone` - time zone of the sessions, `UTC` by default.
+ * - `sessionStart` - wall-clock time the trading day starts at, `HH:mm`, `00:00` by default.
+ * - `sessionLength` - length of the trading day, e.g. `390m`, bars are only expected within it. The whole day by default.
+ * - `outlierThreshold` - size of the moves into and out of a spike, in robust standard deviations of the log returns
+ * of the closes, 10 by default.
+ */
+export type ValidationOptions = {
+  attributes?: QuoteAttributes;
+  fields?: DataField[];
+  interval?: string;
+  weekends?: boolean;
+  timezone?: string;
+  sessionStart?: string;
+  sessionLength?: string;
+  outlierThreshold?: number;
+};
+
+/**
+ * Issues found in quotes.
+ * - `valid` - whether the quotes have no issues.
+ * - `issues` - `DataIssue` list, ordered by quote position.
+ * - `counts` - number of issues of every `DataIssueType` found.
+ */
+export type ValidationReport = {
+  valid: boolean;
+  issues: DataIssue[];
+  counts: Partial<Record<DataIssueType, number>>;
+};
+
+/**
+ * Way to repair an issue.
+ * - `drop` - removes the quote, for any issue but gaps.
+ * - `forward-fill` - uses the value of the previous valid quote, for field issues, outliers and gaps.
+ * Bars filling gaps are flat at the previous close, without volume.
+ * - `interpolate` - uses the value linearly interpolated in time between the valid quotes around,
+ * or the nearest one at the ends, for field issues, outliers and gaps.
+ * - `clamp` - raises negative values to 0, brings outliers within the range of the closes around
+ * and widens the high and the low to the open and the close.
+ *
+ * Duplicate and out-of-order quotes are dropped with any policy, the first quote of a timestamp is kept.
+ */
+export type RepairPolicy = 'drop' | 'forward-fill' | 'interpolate' | 'clamp';
+
+/**
+ * Options to repair quotes, `ValidationOptions` with:
+ * - `policy` - `RepairPolicy` of every issue, or by `DataIssueType`. Issues without a policy are left as they are.
+ */
+export type RepairOptions = ValidationOptions & {
+  policy: RepairPolicy | Partial<Record<DataIssueType, RepairPolicy>>;
+};
+
+/**
+ * Repaired quotes.
+ * - `quotes` - fresh quotes, with the bars filling gaps.
+ * - `repaired` - `DataIssue` list of the issues repaired, by position in the original quotes.
+ * - `report` - `ValidationReport` of the repaired quotes.
+ */
+export type RepairResult<T> = {
+  quotes: Quote<T>[];
+  repaired: DataIssue[];
+  report: ValidationReport;
+};
+
+/**
+ * Hours bars are expected in.
+ * - `zone` - `TimeZone` of the session.
+ * - `start` - wall-clock time the session starts at, in milliseconds since midnight.
+ * - `length` - length of the session in milliseconds.
+ * - `weekends` - whether bars are expected on weekends.
+ */
+type Session = {
+  zone: TimeZone;
+  start: number;
+  length: number;
+  weekends: boolean;
+};
+
+const FIELDS: DataField[] = ['open', 'high', 'low', 'close', 'volume'];
+
+const PRICES: DataField[] = ['open', 'high', 'low', 'close'];
+
+const FILLABLE: DataIssueType[] = [
+  'missing',
+  'non-finite',
+  'negative',
+  'zero-volume',
+  'outlier',
+];
+
+/**
+ * Reads a field of a quote value.
+ * @param value - Quote value.
+ * @param field - `DataField`, the value itself for numeric quotes.
+ * @param attributes - `QuoteAttributes` of object quotes.
+ * @returns raw value of the field.
+ */
+function readField<T>(value: T, field: DataField, attributes: QuoteAttributes) {
+  return value && typeof value === 'object'
+    ? (value as Record<string, unknown>)[attributes[field] ?? field]
+    : value;
+}
+
+/**
+ * Finds the fields to check, those of any object quote or the close of numeric quotes.
+ * @param quotes - Quotes to check.
+ * @param attributes - `QuoteAttributes` of object quotes.
+ * @returns `DataField` list.
+ */
+function getFields<T>(quotes: Quote<T>[], attributes: QuoteAttributes) {
+  const values = quotes
+    .map((quote) => quote.value)
+    .filter((value) => value && typeof value === 'object');
+
+  if (values.length < quotes.length) {
+    return ['close'] as DataField[];
+  }
+
+  return FIELDS.filter((field) =>
+    values.some((value) => (attributes[field] ?? field) in Object(value))
+  );
+}
+
+/**
+ * Reads the session bars are expected in.
+ * @param options - `ValidationOptions`.
+ * @returns `Session`.
+ */
+function getSession(options: ValidationOptions): Session {
+  const {
+    timezone,
+    sessionStart = '00:00',
+    sessionLength = '1d',
+    weekends = true,
+  } = options;
+  const length = parseInterval(sessionLength);
+
+  if (length > INTERVAL_UNITS.d) {
+    throw new Error(`Invalid session length: ${sessionLength}.`);
+  }
+
+  return {
+    zone: getTimeZone(timezone),
+    start: parseSessionStart(sessionStart),
+    length,
+    weekends,
+  };
+}
+
+/**
+ * Lists the bars expected between two quotes.
+ * @param from - Time of the first quote.
+ * @param to - Time of the second quote.
+ * @param interval - Length of the bars in milliseconds.
+ * @param session - `Session` bars are expected in.
+ * @returns timestamps of the missing bars, bars within half an interval of the second quote excluded.
+ */
+function getMissingTimestamps(
+  from: number,
+  to: number,
+  interval: number,
+  session: Session
+) {
+  const { zone, start, length, weekends } = session;
+  const timestamps: number[] = [];
+
+  for (let time = from + interval; time < to - interval / 2; time += interval) {
+    const local = zone.toLocal(time);
+    const day = new Date(local).getUTCDay();
+    // Time since the session started, on the day before for sessions past midnight
+    const elapsed =
+      (((local - start) % INTERVAL_UNITS.d) + INTERVAL_UNITS.d) %
+      INTERVAL_UNITS.d;
+
+    if ((weekends || (day !== 0 && day !== 6)) && elapsed < length) {
+      timestamps.push(time);
+    }
+  }
+
+  return timestamps;
+}
+
+/**
+ * Reports issues with the number of every type found.
+ * @param issues - `DataIssue` list, ordered by quote position.
+ * @returns `ValidationReport`.
+ */
+function createReport(issues: DataIssue[]): ValidationReport {
+  return {
+    valid: !issues.length,
+    issues,
+    counts: issues.reduce<Partial<Record<DataIssueType, number>>>(
+      (counts, issue) => ({
+        ...counts,
+        [issue.type]: (counts[issue.type] ?? 0) + 1,
+      }),
+      {}
+    ),
+  };
+}
+
+/**
+ * Measures the spread of returns, robust to the outliers among them.
+ * The median absolute deviation is used, or the mean absolute deviation if most returns are the same.
+ * @param returns - Log returns.
+ * @returns estimate of the standard deviation.
+ */
+function getRobustDeviation(returns: number[]) {
+  const median = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+
+    return sorted.length % 2
+      ? sorted[middle]
+      : (sorted[middle - 1] + sorted[middle]) / 2;
+  };
+  const center = median(returns);
+  const deviations = returns.map((r) => Math.abs(r - center));
+  const mad = median(deviations);
+
+  return mad
+    ? mad * 1.4826
+    : (deviations.reduce((sum, d) => sum + d, 0) / deviations.length) * 1.2533;
+}
+
+/**
+ * Finds closes spiking away from the closes around them and back.
+ * @param closes - Close of every quote, `undefined` for quotes to leave out.
+ * @param threshold - Size of the moves in and out, in robust standard deviations.
+ * @returns positions of the spikes.
+ */
+function findSpikes(closes: (number | undefined)[], threshold: number) {
+  const points = closes.flatMap((close, index) =>
+    close !== undefined && close > 0 && isFinite(close)
+      ? [{ index, close }]
+      : []
+  );
+
+  if (points.length < 3) {
+    return [];
+  }
+
+  const returns = points
+    .slice(1)
+    .map((point, i) => Math.log(point.close / points[i].close));
+  const limit = threshold * getRobustDeviation(returns);
+
+  return points
+    .slice(1, -1)
+    .filter((_, i) => {
+      const [into, out] = [returns[i], returns[i + 1]];
+
+      return into * out < 0 && Math.min(Math.abs(into), Math.abs(out)) > limit;
+    })
+    .map((point) => point.index);
+}
+
+/**
+ * Checks the prices of an object quote against its high and low.
+ * @param prices - Finite prices of the quote by field.
+ * @returns description of the first inconsistency, `undefined` if the prices are consistent.
+ */
+function checkOHLC(prices: Partial<Record<DataField, number>>) {
+  const { high, low } = prices;
+
+  if (high !== undefined && low !== undefined && high < low) {
+    return `High ${high} below low ${low}.`;
+  }
+
+  for (const field of ['open', 'close'] as DataField[]) {
+    const price = prices[field];
+    const name = field === 'open' ? 'Open' : 'Close';
+
+    if (price !== undefined && high !== undefined && price > high) {
+      return `${name} ${price} above high ${high}.`;
+    }
+
+    if (price !== undefined && low !== undefined && price < low) {
+      return `${name} ${price} below low ${low}.`;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Checks the quality of quotes.
+ * Field issues are checked for every quote, dates are checked once any quote has one.
+ * @param quotes - Quotes, expected in chronological order.
+ * @param options - `ValidationOptions`.
+ * @returns `ValidationReport`.
+ */
+export function validateQuotes<T>(
+  quotes: Quote<T>[],
+  options: ValidationOptions = {}
+): ValidationReport {
+  const { attributes = {}, outlierThreshold = 10 } = options;
+  const fields = options.fields ?? getFields(quotes, attributes);
+  const session = getSession(options);
+  const interval =
+    options.interval === undefined
+      ? undefined
+      : parseInterval(options.interval);
+  const timestamps = quotes.map((quote) => quote.getTimestamp(attributes.date));
+  const dated = timestamps.some((timestamp) => timestamp !== undefined);
+  const closes: (number | undefined)[] = [];
+  const issues: DataIssue[] = [];
+  let last: number | undefined;
+
+  quotes.forEach((quote, index) => {
+    const timestamp = timestamps[index];
+    const date =
+      timestamp === undefined ? '' : new Date(timestamp).toISOString();
+    const add = (issue: Omit<DataIssue, 'index' | 'timestamp'>) =>
+      issues.push({ index, timestamp, ...issue });
+    const prices: Partial<Record<DataField, number>> = {};
+    let ordered = true;
+
+    if (timestamp === undefined) {
+      if (dated) {
+        add({ type: 'missing', field: 'date', message: 'Missing date.' });
+      }
+    } else if (last !== undefined && timestamp <= last) {
+      ordered = false;
+      add(
+        timestamp === last
+          ? {
+              type: 'duplicate',
+              message: `Duplicate quote timestamp: ${date}.`,
+            }
+          : {
+              type: 'out-of-order',
+              message: `Out-of-order quote timestamp: ${date}.`,
+            }
+      );
+    } else {
+      const missing =
+        interval && last !== undefined
+          ? getMissingTimestamps(last, timestamp, interval, session).length
+          : 0;
+
+      if (missing) {
+        add({
+          type: 'gap',
+          missing,
+          message: `Missing bars before ${date}: ${missing}.`,
+        });
+      }
+
+      last = timestamp;
+    }
+
+    fields.forEach((field) => {
+      const raw = readField(quote.value, field, attributes);
+      const number = Number(raw);
+
+      if (raw === undefined || raw === null || raw === '') {
+        add({ type: 'missing', field, message: `Missing ${field}.` });
+      } else if (!isFinite(number)) {
+        add({
+          type: 'non-finite',
+          field,
+          message: `Non-finite ${field}: ${raw}.`,
+        });
+      } else if (number < 0) {
+        add({ type: 'negative', field, message: `Negative ${field}: ${raw}.` });
+      } else {
+        prices[field] = number;
+
+        if (field === 'volume' && number === 0) {
+          add({ type: 'zero-volume', field, message: 'Zero volume.' });
+        }
+      }
+    });
+
+    const inconsistency =
+      quote.value && typeof quote.value === 'object'
+        ? checkOHLC(prices)
+        : undefined;
+
+    if (inconsistency) {
+      add({ type: 'ohlc', message: inconsistency });
+    }
+
+    closes.push(ordered ? prices.close : undefined);
+  });
+
+  findSpikes(closes, outlierThreshold).forEach((index) =>
+    issues.push({
+      type: 'outlier',
+      index,
+      timestamp: timestamps[index],
+      field: 'close',
+      message: `Price spike: close ${closes[index]}.`,
+    })
+  );
+  issues.sort((a, b) => a.index - b.index);
+
+  return createReport(issues);
+}
+
+/**
+ * Repairs the issues of quotes with the policies given, then checks the repaired quotes again.
+ * Drops come first, then field issues and outliers in chronological order, OHLC issues and gaps.
+ * Issues a policy doesn't apply to, or that can't be repaired for lack of valid quotes around, are left as they are.
+ * @param quotes - Quotes, expected in chronological order.
+ * @param options - `RepairOptions`.
+ * @returns `RepairResult`.
+ */
+export function repairQuotes<T>(
+  quotes: Quote<T>[],
+  options: RepairOptions
+): RepairResult<T> {
+  const { attributes = {}, policy } = options;
+  const fields = options.fields ?? getFields(quotes, attributes);
+  const session = getSession(options);
+  const { issues } = validateQuotes(quotes, options);
+  const getPolicy = (type: DataIssueType) =>
+    typeof policy === 'string' ? policy : policy[type];
+  const timestamps = quotes.map((quote) => quote.getTimestamp(attributes.date));
+  const values = quotes.map((quote) =>
+    quote.value && typeof quote.value === 'object'
+      ? { ...quote.value }
+      : quote.value
+  );
+  const invalid = new Set(
+    issues
+      .filter((issue) => issue.field && issue.type !== 'ohlc')
+      .map((issue) => `${issue.index}.${issue.field}`)
+  );
+  const dropped = new Set<number>();
+  const gaps = new Map<number, Quote<T>[]>();
+  const repaired: DataIssue[] = [];
+  const read = (index: number, field: DataField) =>
+    Number(readField(values[index], field, attributes));
+  const write = (index: number, field: DataField, number: number) => {
+    const value = values[index];
+
+    if (value && typeof value === 'object') {
+      (value as Record<string, unknown>)[attributes[field] ?? field] = number;
+    } else {
+      values[index] = number as T;
+    }
+  };
+  // Nearest quote kept, with a valid field if given
+  const find = (index: number, step: 1 | -1, field?: DataField) => {
+    for (let i = index + step; i >= 0 && i < quotes.length; i += step) {
+      if (!dropped.has(i) && !invalid.has(`${i}.${field}`)) {
+        return i;
+      }
+    }
+
+    return undefined;
+  };
+  const interpolate = (index: number, field: DataField) => {
+    const [before, after] = [find(index, -1, field), find(index, 1, field)];
+
+    if (before === undefined || after === undefined) {
+      const nearest = before ?? after;
+
+      return nearest === undefined ? NaN : read(nearest, field);
+    }
+
+    const [from, time, to] = [before, index, after].map((i) => timestamps[i]);
+    const weight =
+      from !== undefined && time !== undefined && to !== undefined && to > from
+        ? (time - from) / (to - from)
+        : (index - before) / (after - before);
+
+    return (
+      read(before, field) + (read(after, field) - read(before, field)) * weight
+    );
+  };
+  const fill = (issue: DataIssue, field: DataField) => {
+    const type = getPolicy(issue.type);
+    const before = find(issue.index, -1, field);
+    const after = find(issue.index, 1, field);
+
+    if (type === 'forward-fill') {
+      return before === undefined ? NaN : read(before, field);
+    }
+
+    if (type === 'interpolate') {
+      return interpolate(issue.index, field);
+    }
+
+    if (type === 'clamp' && issue.type === 'negative') {
+      return 0;
+    }
+
+    if (
+      type === 'clamp' &&
+      issue.type === 'outlier' &&
+      before !== undefined &&
+      after !== undefined
+    ) {
+      const range = [read(before, field), read(after, field)];
+
+      return Math.min(
+        Math.max(read(issue.index, field), Math.min(...range)),
+        Math.max(...range)
+      );
+    }
+
+    return NaN;
+  };
+
+  issues.forEach((issue) => {
+    const type = getPolicy(issue.type);
+
+    if (
+      type === 'drop'
+        ? issue.type !== 'gap'
+        : type && ['duplicate', 'out-of-order'].includes(issue.type)
+    ) {
+      dropped.add(issue.index);
+      repaired.push(issue);
+    }
+  });
+
+  issues
+    .filter((issue) => !dropped.has(issue.index) && issue.field !== 'date')
+    .forEach((issue) => {
+      if (!FILLABLE.includes(issue.type)) {
+        return;
+      }
+
+      const field = issue.field as DataField;
+      const number = fill(issue, field);
+
+      if (isFinite(number)) {
+        write(issue.index, field, number);
+        invalid.delete(`${issue.index}.${field}`);
+        repaired.push(issue);
+      }
+    });
+
+  issues
+    .filter((issue) => !dropped.has(issue.index) && issue.type === 'ohlc')
+    .forEach((issue) => {
+      const prices = PRICES.filter((field) => fields.includes(field))
+        .map((field) => read(issue.index, field))
+        .filter((price) => isFinite(price));
+
+      if (getPolicy('ohlc') !== 'clamp' || !prices.length) {
+        return;
+      }
+
+      (['high', 'low'] as DataField[])
+        .filter((field) => fields.includes(field))
+        .forEach((field) =>
+          write(
+            issue.index,
+            field,
+            field === 'high' ? Math.max(...prices) : Math.min(...prices)
+          )
+        );
+      repaired.push(issue);
+    });
+
+  issues
+    .filter((issue) => !dropped.has(issue.index) && issue.type === 'gap')
+    .forEach((issue) => {
+      const type = getPolicy('gap');
+      const before = find(issue.index, -1);
+      const [from, to] = [before, issue.index].map((i) =>
+        i === undefined ? undefined : timestamps[i]
+      );
+      const [start, end] = [before, issue.index].map((i) =>
+        i === undefined ? NaN : read(i, 'close')
+      );
+
+      if (
+        (type !== 'forward-fill' && type !== 'interpolate') ||
+        before === undefined ||
+        from === undefined ||
+        to === undefined ||
+        !isFinite(start) ||
+        (type === 'interpolate' && !isFinite(end))
+      ) {
+        return;
+      }
+
+      const source = values[before];
+      const { date = 'date', volume } = attributes;
+      const interval = parseInterval(options.interval as string);
+
+      gaps.set(
+        issue.index,
+        getMissingTimestamps(from, to, interval, session).map((time) => {
+          const price =
+            type === 'interpolate'
+              ? start + ((end - start) * (time - from)) / (to - from)
+              : start;
+
+          if (!source || typeof source !== 'object') {
+            return new Quote(price as T, time);
+          }
+
+          const value: Record<string, unknown> = {
+            ...(source as Record<string, unknown>),
+          };
+          const dated = toDateLike(value[date], time);
+
+          PRICES.filter((field) => fields.includes(field)).forEach(
+            (field) => (value[attributes[field] ?? field] = price)
+          );
+
+          if (fields.includes('volume')) {
+            value[volume ?? 'volume'] = 0;
+          }
+
+          if (dated !== undefined) {
+            value[date] = dated;
+          }
+
+          return new Quote(value as T, time);
+        })
+      );
+      repaired.push(issue);
+    });
+
+  const repairedQuotes = quotes.flatMap((_, index) =>
+    dropped.has(index)
+      ? []
+      : [
+          ...(gaps.get(index) ?? []),
+          new Quote(values[index] as T, timestamps[index]),
+        ]
+  );
+
+  const filled = new Set([...gaps.values()].flat());
+  const { issues: remaining } = validateQuotes(repairedQuotes, options);
+
+  return {
+    quotes: repairedQuotes,
+    repaired: repaired.sort((a, b) => a.index - b.index),
+    // Bars filling gaps have no volume on purpose
+    report: createReport(
+      remaining.filter(
+        (issue) =>
+          issue.type !== 'zero-volume' ||
+          !filled.has(repairedQuotes[issue.index])
+      )
+    ),
+  };
+}
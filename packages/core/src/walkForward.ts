@@ -0,0 +1,223 @@
+import { Backtest, BacktestReport, Dataset } from './';
+import { BacktestRunner } from './backtest';
+import { mean } from './metrics';
+import { OptimizationReport, Optimizer, ParameterSet } from './optimizer';
+
+/**
+ * Defines the walk-forward windows, in number of quotes.
+ * - `inSample` - length of the window parameters are optimised on.
+ * - `outOfSample` - length of the window the best parameters are then traded on.
+ * - `anchored` - whether in-sample windows all start at the first quote and grow, instead of rolling, `false` by default.
+ * - `warmUp` - number of quotes before every window that warm up the indicators, `inSample` by default.
+ */
+export type WalkForwardOptions = {
+  inSample: number;
+  outOfSample: number;
+  anchored?: boolean;
+  warmUp?: number;
+};
+
+/**
+ * Quote positions of an in-sample window and the out-of-sample window that follows it,
+ * starts inclusive and ends exclusive.
+ */
+export type WalkForwardWindow = {
+  inSampleStart: number;
+  inSampleEnd: number;
+  outOfSampleStart: number;
+  outOfSampleEnd: number;
+};
+
+/**
+ * Outcome of a walk-forward window.
+ * `efficiency` is the out-of-sample growth rate as a percentage of the in-sample one.
+ */
+export type WalkForwardResult<S extends ParameterSet, T> = WalkForwardWindow & {
+  parameters: S;
+  optimization: OptimizationReport<S, T>;
+  inSampleReport: BacktestReport<T>;
+  outOfSampleReport: BacktestReport<T>;
+  efficiency: number;
+};
+
+/**
+ * Out-of-sample windows stitched into one back-test.
+ * - `efficiency` - combined out-of-sample growth rate as a percentage of the average in-sample one.
+ * - `profitableWindows` - percentage of out-of-sample windows that made a profit.
+ */
+export type WalkForwardReport<S extends ParameterSet, T> = {
+  results: WalkForwardResult<S, T>[];
+  report: BacktestReport<T>;
+  efficiency: number;
+  profitableWindows: number;
+};
+
+/**
+ * Calculates one growth rate as a percentage of another.
+ * @param outOfSample - Out-of-sample growth rate.
+ * @param inSample - In-sample growth rate.
+ * @returns efficiency in percent, 0 if the in-sample growth rate is 0.
+ */
+function getEfficiency(outOfSample: number, inSample: number) {
+  return inSample ? (outOfSample * 100) / inSample : 0;
+}
+
+/**
+ * Optimises a strategy on rolling or anchored in-sample windows and trades the best parameters
+ * on the out-of-sample window that follows each of them.
+ */
+export class WalkForward<S extends ParameterSet, T = number> {
+  protected _optimizer: Optimizer<S, T>;
+  protected _options: WalkForwardOptions;
+
+  /**
+   * Creates a walk-forward analysis for an optimizer.
+   * @param optimizer - `Optimizer` run on every in-sample window.
+   * @param options - `WalkForwardOptions`.
+   */
+  constructor(optimizer: Optimizer<S, T>, options: WalkForwardOptions) {
+    const { inSample, outOfSample, warmUp = inSample } = options;
+
+    [inSample, outOfSample].forEach((length) => {
+      if (!Number.isInteger(length) || length < 1) {
+        throw new Error(`Invalid walk-forward window: ${length}.`);
+      }
+    });
+
+    if (!Number.isInteger(warmUp) || warmUp < 0) {
+      throw new Error(`Invalid warm-up: ${warmUp}.`);
+    }
+
+    this._optimizer = optimizer;
+    this._options = options;
+  }
+
+  get optimizer() {
+    return this._optimizer;
+  }
+
+  get options() {
+    return this._options;
+  }
+
+  /**
+   * Splits a number of quotes into walk-forward windows.
+   * The last out-of-sample window is cut short at the end of the quotes.
+   * @param length - Number of quotes.
+   * @returns `WalkForwardWindow` list.
+   */
+  getWindows(length: number) {
+    const { inSample, outOfSample, anchored } = this._options;
+    const windows: WalkForwardWindow[] = [];
+
+    for (let start = inSample; start < length; start += outOfSample) {
+      windows.push({
+        inSampleStart: anchored ? 0 : start - inSample,
+        inSampleEnd: start,
+        outOfSampleStart: start,
+        outOfSampleEnd: Math.min(start + outOfSample, length),
+      });
+    }
+
+    return windows;
+  }
+
+  /**
+   * Prepends the warm-up quotes to a window.
+   * @param dataset - Full `Dataset`.
+   * @param runner - `BacktestRunner`.
+   * @param start - Position of the first traded quote.
+   * @param end - Position after the last traded quote.
+   * @param capital - Capital to trade the window with.
+   * @returns dataset of the window and the runner trading it.
+   */
+  protected getWindow(
+    dataset: Dataset<T>,
+    runner: BacktestRunner<T>,
+    start: number,
+    end: number,
+    capital = runner.config.capital
+  ) {
+    const { inSample, warmUp = inSample } = this._options;
+    const from = Math.max(start - warmUp, 0);
+
+    return {
+      window: dataset.slice(from, end),
+      runner: {
+        ...runner,
+        config: { ...runner.config, capital, warmUp: start - from },
+      },
+    };
+  }
+
+  /**
+   * Runs the walk-forward analysis over a dataset.
+   * Every out-of-sample window starts with the capital the previous one ended with.
+   * @param dataset - `Dataset` to analyse, left unchanged.
+   * @param runner - `BacktestRunner` with the configuration and entry/exit prices.
+   * @returns `WalkForwardReport`.
+   */
+  run(dataset: Dataset<T>, runner: BacktestRunner<T>): WalkForwardReport<S, T> {
+    const { config } = runner;
+    const report = new BacktestReport<T>(config.capital, config.metrics);
+    const results: WalkForwardResult<S, T>[] = [];
+
+    this.getWindows(dataset.length).forEach((range) => {
+      const inSample = this.getWindow(
+        dataset,
+        runner,
+        range.inSampleStart,
+        range.inSampleEnd
+      );
+      const optimization = this._optimizer.run(
+        inSample.window,
+        inSample.runner
+      );
+
+      if (!optimization.best) {
+        return;
+      }
+
+      const { parameters, report: inSampleReport } = optimization.best;
+      const outOfSample = this.getWindow(
+        dataset,
+        runner,
+        range.outOfSampleStart,
+        range.outOfSampleEnd,
+        report.finalCapital
+      );
+      const outOfSampleReport = new Backtest(
+        outOfSample.window,
+        this._optimizer.createStrategy(parameters)
+      ).run(outOfSample.runner);
+
+      report.append(outOfSampleReport);
+      results.push({
+        ...range,
+        parameters,
+        optimization,
+        inSampleReport,
+        outOfSampleReport,
+        efficiency: getEfficiency(
+          outOfSampleReport.metrics.cagr,
+          inSampleReport.metrics.cagr
+        ),
+      });
+    });
+
+    const inSampleCagr = mean(
+      results.map((r) => r.inSampleReport.metrics.cagr)
+    );
+
+    return {
+      results,
+      report,
+      efficiency: getEfficiency(report.metrics.cagr, inSampleCagr),
+      profitableWindows: results.length
+        ? (results.filter((r) => r.outOfSampleReport.returns > 0).length *
+            100) /
+          results.length
+        : 0,
+    };
+  }
+}
@@ -95,4 +95,33 @@ describe('GoldenCrossStrategy Verification', () => {
 
     expect(report.numberOfTrades).toBeGreaterThan(0);
   });
+
+  it('should exit on the trailing stop before the death cross', () => {
+    const prices = [
+      100, 101, 102, 103, 104, 105, 106, 107, 108, 109, // Up
+      110, 112, 114, 116, 118, 120, 122, 124, 126, 128, // Up
+      110, 109, 108, 107, 106, 105, 104, 103, 102, 101, // Sharp drop
+    ];
+
+    const dataset = new Dataset(prices.map(price => ({ close: price })));
+    const strategy = new GoldenCrossStrategy('test-trailing', {
+      fastPeriod: 5,
+      slowPeriod: 10,
+      source: 'close',
+      trailingStop: { type: 'percentage', value: 5 },
+    });
+
+    const report = strategy.backtest(dataset, {
+      config: { capital: 10000 },
+      onEntry: (quote) => quote.value.close,
+      onExit: (quote) => quote.value.close,
+    });
+
+    const exit = report.trades.find((trade) => trade.type === 'exit');
+
+    expect(exit?.reason).toBe('trailingStop');
+    expect(
+      dataset.at(19)?.getStrategy('test-trailing')?.position.options?.trailingStop
+    ).toBeCloseTo(128 * 0.95);
+  });
 });
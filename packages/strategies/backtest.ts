@@ -1,4 +1,5 @@
 #!/usr/bin/env tsx
+import { createReadStream, writeFileSync } from 'fs';
 import YahooFinance from 'yahoo-finance2';
 import { Dataset, Backtest } from '@quantomate/core';
 import { GoldenCrossStrategy } from './src';
@@ -12,6 +13,8 @@ interface BacktestConfig {
   slowPeriod: number;
   source: string;
   initialCapital: number;
+  csv?: string;
+  export?: string;
 }
 
 interface HistoricalQuote {
@@ -63,6 +66,12 @@ function parseArgs(): BacktestConfig {
       case '-c':
         config.initialCapital = parseFloat(value);
         break;
+      case '--csv':
+        config.csv = value;
+        break;
+      case '--export':
+        config.export = value;
+        break;
       case '--help':
       case '-h':
         printHelp();
@@ -86,11 +95,14 @@ Options:
   -l, --slow <PERIOD>        Slow SMA period (default: 20)
   --source <ATTR>            Price attribute to use (default: close)
   -c, --capital <AMOUNT>     Initial capital (default: 10000)
+  --csv <FILE>               Read quotes from a CSV file instead of Yahoo Finance
+  --export <FILE>            Write quotes, indicators and positions to a CSV file
   -h, --help                 Show this help message
 
 Examples:
   npx tsx backtest.ts --symbol AAPL --years 5
   npx tsx backtest.ts -s TSLA -y 2 -f 12 -l 26
+  npx tsx backtest.ts --csv NVDA.csv --export NVDA-results.csv
   npx tsx backtest.ts --symbol MSFT --capital 50000
   `);
 }
@@ -108,25 +120,42 @@ async function runBacktest(config: BacktestConfig) {
   startDate.setFullYear(startDate.getFullYear() - config.years);
 
   try {
-    console.log('Fetching historical data...\n');
+    let dataset: Dataset<HistoricalQuote>;
+
+    if (config.csv) {
+      console.log(`Reading ${config.csv}...\n`);
+
+      // Columns are read by header name: date, open, high, low, close and volume
+      dataset = await Dataset.fromCSVStream<HistoricalQuote>(
+        createReadStream(config.csv)
+      );
+
+      console.log(`Read ${dataset.length} data points\n`);
 
-    // Fetch historical data from Yahoo Finance
-    const queryOptions = { period1: startDate, period2: endDate, interval: '1d' };
-    const result = await yahooFinance.historical(config.symbol, queryOptions) as HistoricalQuote[];
+      // Report the period covered by the file
+      startDate.setTime(dataset.at(0)?.getTimestamp() ?? startDate.getTime());
+      endDate.setTime(dataset.at(-1)?.getTimestamp() ?? endDate.getTime());
+    } else {
+      console.log('Fetching historical data...\n');
 
-    console.log(`Fetched ${result.length} data points\n`);
+      // Fetch historical data from Yahoo Finance
+      const queryOptions = { period1: startDate, period2: endDate, interval: '1d' };
+      const result = await yahooFinance.historical(config.symbol, queryOptions) as HistoricalQuote[];
 
-    // Convert to dataset format
-    const quotes = result.map((quote) => ({
-      date: quote.date,
-      open: quote.open,
-      high: quote.high,
-      low: quote.low,
-      close: quote.close,
-      volume: quote.volume,
-    }));
+      console.log(`Fetched ${result.length} data points\n`);
 
-    const dataset = new Dataset(quotes);
+      // Convert to dataset format
+      const quotes = result.map((quote) => ({
+        date: quote.date,
+        open: quote.open,
+        high: quote.high,
+        low: quote.low,
+        close: quote.close,
+        volume: quote.volume,
+      }));
+
+      dataset = new Dataset<HistoricalQuote>(quotes);
+    }
 
     // Create Golden Cross strategy
     const strategy = new GoldenCrossStrategy('golden-cross', {
@@ -154,6 +183,14 @@ async function runBacktest(config: BacktestConfig) {
       },
     });
 
+    if (config.export) {
+      writeFileSync(
+        config.export,
+        dataset.toCSV({ indicators: true, strategies: true })
+      );
+      console.log(`Exported quotes, indicators and positions to ${config.export}\n`);
+    }
+
     // Display results
     console.log('=== Results ===');
     console.log(`Period: ${startDate.toISOString().split('T')[0]} to ${endDate.toISOString().split('T')[0]}`);
@@ -1,15 +1,29 @@
-import { Strategy, Quote, Indicator, Dataset } from '@quantomate/core';
-import { EMA, SMA } from '@quantomate/indicators';
+import {
+  Strategy,
+  Quote,
+  Indicator,
+  Dataset,
+  TrailingStopRule,
+} from '@quantomate/core';
+import { ATR, EMA, SMA } from '@quantomate/indicators';
 
 export interface GoldenCrossParams {
   fastPeriod: number;
   slowPeriod: number;
   source: string;
+  trailingStop?: TrailingStopRule;
+  atrPeriod: number;
 }
 
 export class GoldenCrossStrategy extends Strategy<any, any> {
   constructor(name: string, params: Partial<GoldenCrossParams> = {}) {
-    const { fastPeriod = 9, slowPeriod = 20, source = 'close' } = params;
+    const {
+      fastPeriod = 9,
+      slowPeriod = 20,
+      source = 'close',
+      trailingStop,
+      atrPeriod = 14,
+    } = params;
 
     const fastEMA = new EMA<any>('fastEMA', { period: fastPeriod, attribute: source });
     const slowSMA = new SMA<any>('slowSMA', { period: slowPeriod, attribute: source });
@@ -33,8 +47,29 @@ export class GoldenCrossStrategy extends Strategy<any, any> {
       }
     );
 
+    const indicators: Indicator<any, any>[] = [
+      fastEMA,
+      slowSMA,
+      prevFastEMAIndicator,
+      prevSlowSMAIndicator,
+    ];
+
+    // Chandelier exits trail the high-water mark by a multiple of ATR
+    if (trailingStop?.type === 'chandelier') {
+      indicators.push(
+        new ATR<any>(trailingStop.indicator, {
+          period: atrPeriod,
+          high: 'high',
+          low: 'low',
+          close: source,
+        })
+      );
+    }
+
     super(name, {
-      indicators: [fastEMA, slowSMA, prevFastEMAIndicator, prevSlowSMAIndicator],
+      indicators,
+      trailingStop,
+      attributes: { high: 'high', low: 'low', close: source },
       entryWhen: (quote: Quote<any>) => {
         const fastEMAValue = quote.getIndicator('fastEMA');
         const slowSMAValue = quote.getIndicator('slowSMA');